@@ -0,0 +1,48 @@
+import { MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { PRECISION_LABELS, type GeocodingCandidate } from '@/lib/geocoding';
+
+interface AddressCandidatePickerProps {
+  /** Ranked matches to choose from; the picker is closed when null */
+  candidates: GeocodingCandidate[] | null;
+  /** Called with the chosen place, or null when the user dismisses the picker */
+  onChoose: (candidate: GeocodingCandidate | null) => void;
+}
+
+export function AddressCandidatePicker({ candidates, onChoose }: AddressCandidatePickerProps) {
+  return (
+    <Dialog open={!!candidates} onOpenChange={(open) => !open && onChoose(null)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Você quis dizer…</DialogTitle>
+          <DialogDescription>
+            Encontramos mais de um local para este endereço. Escolha o correto para calcular as rotas.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {candidates?.map((candidate) => (
+            <Button
+              key={`${candidate.lat},${candidate.lon}`}
+              variant="outline"
+              className="w-full h-auto justify-start text-left whitespace-normal py-3"
+              onClick={() => onChoose(candidate)}
+            >
+              <MapPin className="h-4 w-4 mr-2 flex-shrink-0 text-emerald" />
+              <span>
+                <span className="block text-sm">{candidate.displayName || `${candidate.lat.toFixed(5)}, ${candidate.lon.toFixed(5)}`}</span>
+                <span className="block text-xs text-muted-foreground">Precisão: {PRECISION_LABELS[candidate.precision]}</span>
+              </span>
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { useEmpresa } from '@/hooks/useEmpresa';
 import { devLog } from '@/lib/logger';
-import { buildViaCepUrl, buildBrasilApiCepUrl, buildNominatimReverseUrl } from '@/lib/urlValidation';
+import { lookupCep } from '@/lib/cep';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import {
   Form,
   FormControl,
@@ -27,23 +28,26 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { brazilianStates } from '@/lib/states';
-import { geocodeAddress } from '@/lib/geocoding';
-import { calculateRoutes, type RouteResult } from '@/lib/routing';
+import { geocodeAddress, reverseGeocode, type GeocodingCandidate, type GeocodingPrecision } from '@/lib/geocoding';
+import {
+  calculateRoutes,
+  DEFAULT_ROUTE_SORT_ORDER,
+  DEFAULT_TRAVEL_MODE,
+  ROUTE_SORT_ORDER_LABELS,
+  TRAVEL_MODE_LABELS,
+  type RouteResult,
+  type RouteSortOrder,
+  type RouteSource,
+  type TravelMode,
+} from '@/lib/routing';
+import { resolveServiceVocabulary } from '@/lib/services';
+import { parseScheduleDateTime, scheduleTimeAt, type ScheduleTime } from '@/lib/openingHours';
+import { MAX_SEARCH_MINUTES, MIN_SEARCH_MINUTES, resolveSearchSettings } from '@/lib/searchSettings';
 import { CityAutocomplete } from '@/components/CityAutocomplete';
-import type { LocationData } from '@/lib/spreadsheet';
+import { AddressCandidatePicker } from '@/components/AddressCandidatePicker';
+import { TravelModeIcon } from '@/components/TravelModeIcon';
 import { useToast } from '@/hooks/use-toast';
 
-
-interface ViaCepResponse {
-  cep: string;
-  logradouro: string;
-  complemento: string;
-  bairro: string;
-  localidade: string;
-  uf: string;
-  erro?: boolean;
-}
-
 const addressSchema = z.object({
   cep: z.string().optional(),
   street: z.string().optional(),
@@ -61,7 +65,14 @@ export interface SearchResult {
   formattedDistance: string;
   durationMinutes?: number;
   formattedDuration?: string;
-  searchInfo?: string;
+  /** How the distance and duration were calculated */
+  travelMode?: TravelMode;
+  routingSource?: RouteSource;
+  /** Straight-line estimate, shown when no routing service reached the provider */
+  estimated?: boolean;
+  /** Precision of the searched address' coordinates */
+  originPrecision?: GeocodingPrecision;
+  originErrorRadiusMeters?: number;
   latitude?: number;
   longitude?: number;
   address?: string;
@@ -70,25 +81,64 @@ export interface SearchResult {
   city?: string;
   state?: string;
   services?: string;
+  openingHours?: string;
+  phone?: string;
+  whatsapp?: string;
+  email?: string;
   // Origin address for Google Maps directions
   originAddress?: string;
+  /** Searched address' coordinates, used to draw routes on the map */
+  originLatitude?: number;
+  originLongitude?: number;
 }
 
+/** "now" and "at" only keep providers open at that moment */
+type OpenFilter = 'any' | 'now' | 'at';
+
+/** The search radius is a distance (km) or a travel time (minutes) */
+type RadiusUnit = 'km' | 'min';
+
 interface AddressFormProps {
-  locations: LocationData[];
+  /** Service ids offered in the searched networks, from the synced locations */
+  offeredServices: string[];
+  /** Whether any provider in the searched networks has opening hours */
+  hasOpeningHours: boolean;
+  /** Workbook tabs (gids) the search is restricted to, e.g. the selected network; omit to search all */
+  networks?: string[];
   onResults: (results: SearchResult[]) => void;
   onError: (error: string) => void;
   onSearchStart: (step?: 'geocoding' | 'routing' | 'finished') => void;
 }
 
-export function AddressForm({ locations, onResults, onError, onSearchStart }: AddressFormProps) {
+export function AddressForm({ offeredServices, hasOpeningHours, networks, onResults, onError, onSearchStart }: AddressFormProps) {
   const { empresa } = useEmpresa();
   const { toast } = useToast();
   const [isSearching, setIsSearching] = useState(false);
   const [isFetchingCep, setIsFetchingCep] = useState(false);
   const [isFetchingLocation, setIsFetchingLocation] = useState(false);
   const [searchRadius, setSearchRadius] = useState(10);
+  const searchSettings = resolveSearchSettings(empresa?.search_settings);
+  // The slider goes up to the empresa's radius, which may have been lowered since it was moved
+  const effectiveRadius = Math.min(searchRadius, searchSettings.radiusKm);
+  const [radiusUnit, setRadiusUnit] = useState<RadiusUnit>('km');
+  const [searchMinutes, setSearchMinutes] = useState(30);
+  const radiusLabel = radiusUnit === 'km' ? `${effectiveRadius} km` : `${searchMinutes} min`;
+  const [travelMode, setTravelMode] = useState<TravelMode>(DEFAULT_TRAVEL_MODE);
+  const [sortBy, setSortBy] = useState<RouteSortOrder>(DEFAULT_ROUTE_SORT_ORDER);
   const [cepError, setCepError] = useState<string | null>(null);
+  const [selectedServices, setSelectedServices] = useState<string[]>([]);
+
+  const serviceVocabulary = empresa?.service_vocabulary;
+  const availableServices = useMemo(
+    () => resolveServiceVocabulary(serviceVocabulary).filter(service => offeredServices.includes(service.id)),
+    [offeredServices, serviceVocabulary]
+  );
+  // Selections for services the current network does not offer are ignored
+  const activeServices = selectedServices.filter(id => availableServices.some(service => service.id === id));
+  const [openFilter, setOpenFilter] = useState<OpenFilter>('any');
+  const [openAtValue, setOpenAtValue] = useState('');
+  const [addressCandidates, setAddressCandidates] = useState<GeocodingCandidate[] | null>(null);
+  const candidateResolverRef = useRef<((candidate: GeocodingCandidate | null) => void) | null>(null);
 
   const form = useForm<AddressFormData>({
     resolver: zodResolver(addressSchema),
@@ -113,56 +163,22 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
     setCepError(null);
 
     try {
-      let cepData: { logradouro: string; bairro: string; uf: string; localidade: string } | null = null;
-
-      // Try ViaCEP with 3s timeout
-      try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 3000);
-        const response = await fetch(buildViaCepUrl(cleanCep), { signal: controller.signal });
-        clearTimeout(timeout);
-
-        if (response.ok) {
-          const data = await response.json();
-          if (!data.erro) {
-            cepData = { logradouro: data.logradouro || '', bairro: data.bairro || '', uf: data.uf || '', localidade: data.localidade || '' };
-          }
-        }
-      } catch (e) {
-        devLog.log('ViaCEP failed, trying BrasilAPI fallback');
-      }
-
-      // Fallback: BrasilAPI
-      if (!cepData) {
-        try {
-          const controller = new AbortController();
-          const timeout = setTimeout(() => controller.abort(), 3000);
-          const response = await fetch(buildBrasilApiCepUrl(cleanCep), { signal: controller.signal });
-          clearTimeout(timeout);
-
-          if (response.ok) {
-            const data = await response.json();
-            cepData = { logradouro: data.street || '', bairro: data.neighborhood || '', uf: data.state || '', localidade: data.city || '' };
-          }
-        } catch (e) {
-          devLog.log('BrasilAPI fallback also failed');
-        }
-      }
+      const cepData = await lookupCep(cleanCep);
 
       if (!cepData) {
         setCepError('CEP não encontrado. Preencha o endereço manualmente.');
         return;
       }
 
-      form.setValue('street', cepData.logradouro);
-      form.setValue('neighborhood', cepData.bairro);
+      form.setValue('street', cepData.street);
+      form.setValue('neighborhood', cepData.neighborhood);
       
-      const stateMatch = brazilianStates.find(s => s.value === cepData!.uf);
+      const stateMatch = brazilianStates.find(s => s.value === cepData.state);
       if (stateMatch) {
         form.setValue('state', stateMatch.value);
       }
       
-      form.setValue('city', cepData.localidade);
+      form.setValue('city', cepData.city);
       setCepError(null);
     } catch (error) {
       devLog.error('Error fetching CEP:', error);
@@ -191,30 +207,6 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
     }
   }, [form, fetchAddressByCep]);
 
-  // Reverse geocoding using Nominatim
-  const reverseGeocode = useCallback(async (lat: number, lon: number) => {
-    try {
-      const response = await fetch(
-        buildNominatimReverseUrl(lat, lon),
-        {
-          headers: {
-            'User-Agent': 'LocalizAI/1.0',
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Erro ao obter endereço');
-      }
-
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      devLog.error('Reverse geocoding error:', error);
-      throw error;
-    }
-  }, []);
-
   // Geolocation handler
   const handleGeolocation = useCallback(async () => {
     if (!navigator.geolocation) {
@@ -241,25 +233,25 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
       const { latitude, longitude } = position.coords;
       devLog.log('Geolocation obtained:', { latitude, longitude });
 
+      if (!empresa?.id) {
+        throw new Error('Sessão da empresa não encontrada');
+      }
+
       // Reverse geocode the coordinates
-      const addressData = await reverseGeocode(latitude, longitude);
+      const address = await reverseGeocode(latitude, longitude, empresa.id);
       
-      if (!addressData || !addressData.address) {
+      if (!address) {
         throw new Error('Não foi possível obter o endereço');
       }
 
-      const address = addressData.address;
       devLog.log('Reverse geocode result:', address);
 
       // Fill form fields
-      const street = address.road || address.pedestrian || address.street || '';
-      const neighborhood = address.suburb || address.neighbourhood || address.district || '';
-      const city = address.city || address.town || address.municipality || address.village || '';
       const stateAbbr = address.state;
 
-      form.setValue('street', street);
-      form.setValue('neighborhood', neighborhood);
-      form.setValue('city', city);
+      form.setValue('street', address.street);
+      form.setValue('neighborhood', address.neighborhood);
+      form.setValue('city', address.city);
 
       // Find state by name and set it
       if (stateAbbr) {
@@ -273,7 +265,7 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
       }
 
       // Try to get CEP from postcode field
-      const postcode = address.postcode;
+      const postcode = address.cep;
       if (postcode) {
         const cleanPostcode = postcode.replace(/\D/g, '');
         if (cleanPostcode.length === 8) {
@@ -335,7 +327,7 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
     } finally {
       setIsFetchingLocation(false);
     }
-  }, [form, reverseGeocode, toast]);
+  }, [form, empresa?.id, toast]);
 
   const buildOriginAddress = (data: AddressFormData): string => {
     const stateName = brazilianStates.find(s => s.value === data.state)?.label || data.state;
@@ -350,30 +342,57 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
     return parts.join(', ');
   };
 
-  const onSubmit = async (data: AddressFormData) => {
-    if (locations.length === 0) {
-      onError('Por favor, aguarde o carregamento dos prestadores.');
-      return;
-    }
+  // Shows the "Você quis dizer…" picker and waits for the user's choice (null when dismissed)
+  const chooseAddressCandidate = (candidates: GeocodingCandidate[]) =>
+    new Promise<GeocodingCandidate | null>((resolve) => {
+      candidateResolverRef.current = resolve;
+      setAddressCandidates(candidates);
+    });
+
+  const handleCandidateChoice = (candidate: GeocodingCandidate | null) => {
+    candidateResolverRef.current?.(candidate);
+    candidateResolverRef.current = null;
+    setAddressCandidates(null);
+  };
 
+  const onSubmit = async (data: AddressFormData) => {
     // Validate that at least city is filled (minimum required)
     if (!data.city?.trim() || !data.state?.trim()) {
       onError('Preencha pelo menos a cidade e o estado para realizar a busca.');
       return;
     }
 
+    let openAt: ScheduleTime | null = null;
+    if (hasOpeningHours && openFilter === 'now') {
+      openAt = scheduleTimeAt(new Date());
+    } else if (hasOpeningHours && openFilter === 'at') {
+      // The chosen date and time are read as São Paulo time, like the schedules
+      openAt = parseScheduleDateTime(openAtValue);
+      if (!openAt) {
+        onError('Informe a data e o horário em que o prestador deve estar aberto.');
+        return;
+      }
+    }
+
+    if (!empresa?.id) {
+      onError('Sessão da empresa não encontrada. Por favor, faça login novamente.');
+      return;
+    }
+
     setIsSearching(true);
     onSearchStart('geocoding');
 
     try {
       const stateName = brazilianStates.find(s => s.value === data.state)?.label || data.state;
       
-      const coords = await geocodeAddress(
+      let coords = await geocodeAddress(
         data.street || '',
         data.number || '',
         data.neighborhood || '',
         data.city,
-        stateName
+        stateName,
+        data.cep || '',
+        empresa.id
       );
 
       if (!coords) {
@@ -381,34 +400,58 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
         return;
       }
 
+      // The address matched distinct places: let the user pick before routing
+      if (coords.candidates) {
+        const chosen = await chooseAddressCandidate(coords.candidates);
+        if (!chosen) {
+          onError('Busca cancelada. Escolha um dos endereços sugeridos ou informe o bairro para refinar a busca.');
+          return;
+        }
+        coords = { ...coords, ...chosen };
+      }
+
       // Update step to routing
       onSearchStart('routing');
 
       // Calculate real route distances using OSRM
-      if (!empresa?.id) {
-        onError('Sessão da empresa não encontrada. Por favor, faça login novamente.');
-        return;
-      }
-
       const routeResults = await calculateRoutes(
         coords.lat,
         coords.lon,
-        locations,
-        empresa.id
+        empresa.id,
+        {
+          networks,
+          services: activeServices,
+          openAt: openAt ?? undefined,
+          travelMode,
+          sortBy,
+          maxMinutes: radiusUnit === 'min' ? searchMinutes : undefined,
+        }
       );
 
+      // The server applies the filters and only returns nothing when no provider matches them
+      if (routeResults.length === 0 && (activeServices.length > 0 || openAt)) {
+        onError(openAt
+          ? 'Nenhum prestador com os filtros selecionados está aberto no horário escolhido.'
+          : 'Nenhum prestador oferece todos os serviços selecionados.');
+        return;
+      }
+
       const originAddress = buildOriginAddress(data);
 
-      // Map to SearchResult format and filter by search radius
-      // Always apply the search radius filter (max is 50km)
-      const sortedLocations = routeResults
+      // Map to SearchResult format, in the order returned by the server: routed providers by
+      // distance or time, then straight-line estimates
+      const routedLocations = routeResults
         .map((route: RouteResult) => ({
           name: route.name,
           distance: route.distanceKm,
           formattedDistance: route.formattedDistance,
           durationMinutes: route.durationMinutes,
           formattedDuration: route.formattedDuration,
-          searchInfo: coords.searchUsed !== 'endereço completo' ? coords.searchUsed : undefined,
+          travelMode,
+          routingSource: route.source,
+          estimated: route.estimated,
+          originPrecision: coords.precision,
+          originErrorRadiusMeters: coords.errorRadiusMeters,
           latitude: route.latitude,
           longitude: route.longitude,
           address: route.address,
@@ -417,14 +460,38 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
           city: route.city,
           state: route.state,
           services: route.services,
+          openingHours: route.openingHours,
+          phone: route.phone,
+          whatsapp: route.whatsapp,
+          email: route.email,
           originAddress,
-        }))
-        .filter((location) => location.distance <= searchRadius);
+          originLatitude: coords.lat,
+          originLongitude: coords.lon,
+        }));
+
+      // Too few providers within the chosen radius: widen it to the nearest ones.
+      // A radius in minutes was sent as maxMinutes, and the server already applied it the same way.
+      const locationsInRadius = routedLocations.filter((location) =>
+        radiusUnit === 'km' ? location.distance <= effectiveRadius : location.durationMinutes <= searchMinutes
+      );
+      const isRadiusWidened = locationsInRadius.length < searchSettings.minResults && routedLocations.length > locationsInRadius.length;
+      const sortedLocations = isRadiusWidened
+        ? routedLocations.slice(0, Math.max(searchSettings.minResults, locationsInRadius.length))
+        : locationsInRadius;
 
       if (sortedLocations.length === 0) {
         toast({
           title: 'Nenhuma clínica encontrada',
-          description: `Nenhum prestador foi encontrado no raio de ${searchRadius} km. Tente aumentar o raio de busca.`,
+          description: `Nenhum prestador foi encontrado no raio de ${radiusLabel}. Tente aumentar o raio de busca.`,
+        });
+      } else if (isRadiusWidened) {
+        toast({
+          title: 'Raio de busca ampliado',
+          description: `Poucos prestadores no raio de ${radiusLabel}. Mostrando os mais próximos, até ${
+            radiusUnit === 'km'
+              ? sortedLocations[sortedLocations.length - 1].formattedDistance
+              : sortedLocations[sortedLocations.length - 1].formattedDuration
+          }.`,
         });
       }
 
@@ -450,7 +517,6 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
     }
   };
 
-  const isDisabled = locations.length === 0;
   const selectedState = form.watch('state');
 
   return (
@@ -472,7 +538,7 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
             });
             setCepError(null);
           }}
-          disabled={isDisabled || isSearching}
+          disabled={isSearching}
           className="text-muted-foreground hover:text-foreground"
         >
           <Eraser className="h-4 w-4 mr-1" />
@@ -497,7 +563,7 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
                           {...field}
                           onChange={(e) => handleCepChange(e.target.value)}
                           maxLength={9}
-                          disabled={isDisabled || isFetchingLocation}
+                          disabled={isFetchingLocation}
                           inputMode="numeric"
                           pattern="[0-9]{5}-?[0-9]{3}"
                           autoComplete="off"
@@ -529,7 +595,6 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
                       <Input 
                         placeholder="Ex: 123" 
                         {...field} 
-                        disabled={isDisabled}
                         inputMode="decimal"
                         autoComplete="address-line2"
                       />
@@ -553,7 +618,6 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
                         <Input 
                           placeholder="Ex: Rua das Flores" 
                           {...field} 
-                          disabled={isDisabled}
                           autoComplete="off"
                         />
                       )}
@@ -577,7 +641,6 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
                         <Input 
                           placeholder="Ex: Centro" 
                           {...field} 
-                          disabled={isDisabled}
                           autoComplete="off"
                         />
                       )}
@@ -602,7 +665,6 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
                           value={field.value}
                           onChange={field.onChange}
                           stateCode={selectedState}
-                          disabled={isDisabled}
                           placeholder="Ex: São Paulo"
                         />
                       )}
@@ -629,7 +691,6 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
                           form.setValue('city', '');
                         }} 
                         value={field.value}
-                        disabled={isDisabled}
                       >
                         <FormControl>
                           <SelectTrigger className="cursor-pointer text-sm h-10">
@@ -651,35 +712,176 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
               />
             </div>
 
+            {/* Travel Mode */}
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-heading">Meio de transporte</span>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={travelMode}
+                onValueChange={(value) => value && setTravelMode(value as TravelMode)}
+                className="flex-wrap justify-start"
+              >
+                {(Object.keys(TRAVEL_MODE_LABELS) as TravelMode[]).map((mode) => (
+                  <ToggleGroupItem
+                    key={mode}
+                    value={mode}
+                    className="text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground"
+                  >
+                    <TravelModeIcon mode={mode} className="h-3.5 w-3.5 mr-1" />
+                    {TRAVEL_MODE_LABELS[mode]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            {/* Sort Order */}
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-heading">Ordenar por</span>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                size="sm"
+                value={sortBy}
+                onValueChange={(value) => value && setSortBy(value as RouteSortOrder)}
+                className="flex-wrap justify-start"
+              >
+                {(Object.keys(ROUTE_SORT_ORDER_LABELS) as RouteSortOrder[]).map((order) => (
+                  <ToggleGroupItem
+                    key={order}
+                    value={order}
+                    className="text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground"
+                  >
+                    {ROUTE_SORT_ORDER_LABELS[order]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            {/* Service Filter */}
+            {availableServices.length > 0 && (
+              <div className="space-y-2">
+                <span className="text-sm font-medium text-heading">Serviços necessários</span>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  size="sm"
+                  value={activeServices}
+                  onValueChange={setSelectedServices}
+                  className="flex-wrap justify-start"
+                >
+                  {availableServices.map((service) => (
+                    <ToggleGroupItem
+                      key={service.id}
+                      value={service.id}
+                      className="text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground"
+                    >
+                      {service.label}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <p className="text-xs text-muted-foreground">
+                  {activeServices.length > 0
+                    ? 'Apenas prestadores que realizam todos os serviços marcados serão considerados.'
+                    : 'Nenhum filtro: todos os prestadores são considerados.'}
+                </p>
+              </div>
+            )}
+
+            {/* Opening Hours Filter */}
+            {hasOpeningHours && (
+              <div className="space-y-2">
+                <span className="text-sm font-medium text-heading">Horário de atendimento</span>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={openFilter}
+                  onValueChange={(value) => value && setOpenFilter(value as OpenFilter)}
+                  className="flex-wrap justify-start"
+                >
+                  <ToggleGroupItem value="any" className="text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground">
+                    Qualquer horário
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="now" className="text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground">
+                    Aberto agora
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="at" className="text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground">
+                    Aberto em…
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                {openFilter === 'at' && (
+                  <Input
+                    type="datetime-local"
+                    value={openAtValue}
+                    onChange={(e) => setOpenAtValue(e.target.value)}
+                    aria-label="Data e horário de atendimento"
+                    className="rounded-md"
+                  />
+                )}
+                {openFilter !== 'any' && (
+                  <p className="text-xs text-muted-foreground">
+                    Horários no fuso de Brasília. Prestadores sem horário de funcionamento cadastrado não serão considerados.
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Search Radius Slider */}
             <div className="space-y-3 pt-2">
               <div className="flex items-center justify-between">
               <span className="text-sm font-medium text-heading">
                   Raio de busca:{' '}
                   <span className="text-navy font-semibold">
-                    {searchRadius} km
+                    {radiusLabel}
                   </span>
                 </span>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={radiusUnit}
+                  onValueChange={(value) => value && setRadiusUnit(value as RadiusUnit)}
+                  aria-label="Unidade do raio de busca"
+                >
+                  <ToggleGroupItem value="km" className="h-7 px-2 text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground">
+                    km
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="min" className="h-7 px-2 text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground">
+                    min
+                  </ToggleGroupItem>
+                </ToggleGroup>
               </div>
-              <Slider
-                value={[searchRadius]}
-                onValueChange={(values) => setSearchRadius(values[0])}
-                min={5}
-                max={50}
-                step={1}
-                disabled={isDisabled}
-                className="w-full"
-              />
+              {radiusUnit === 'km' ? (
+                <Slider
+                  value={[effectiveRadius]}
+                  onValueChange={(values) => setSearchRadius(values[0])}
+                  min={5}
+                  max={searchSettings.radiusKm}
+                  step={1}
+                  className="w-full"
+                />
+              ) : (
+                <Slider
+                  value={[searchMinutes]}
+                  onValueChange={(values) => setSearchMinutes(values[0])}
+                  min={MIN_SEARCH_MINUTES}
+                  max={MAX_SEARCH_MINUTES}
+                  step={5}
+                  className="w-full"
+                />
+              )}
               <div className="flex justify-between text-xs text-muted-foreground">
-                <span>5 km</span>
-                <span>50 km</span>
+                <span>{radiusUnit === 'km' ? '5 km' : `${MIN_SEARCH_MINUTES} min`}</span>
+                <span>{radiusUnit === 'km' ? `${searchSettings.radiusKm} km` : `${MAX_SEARCH_MINUTES} min`}</span>
               </div>
             </div>
 
             <Button 
               type="submit" 
               className="w-full bg-navy hover:bg-navy/90 transition-transform duration-200 hover:scale-[1.02] active:scale-[0.98]" 
-              disabled={isDisabled || isSearching}
+              disabled={isSearching}
             >
               {isSearching ? (
                 <>
@@ -693,15 +895,10 @@ export function AddressForm({ locations, onResults, onError, onSearchStart }: Ad
                 </>
               )}
             </Button>
-
-            {isDisabled && (
-              <p className="text-sm text-muted-foreground text-center">
-                Importe uma planilha para habilitar a busca
-              </p>
-            )}
           </form>
         </Form>
       </CardContent>
+      <AddressCandidatePicker candidates={addressCandidates} onChoose={handleCandidateChoice} />
     </Card>
   );
 }
@@ -0,0 +1,212 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, MapPin, Square, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { batchGeocode, type BatchGeocodeResult } from '@/lib/batchGeocoding';
+import { GEOCODING_SOURCE_LABELS, PRECISION_LABELS } from '@/lib/geocoding';
+import type { PendingGeocodeRow } from '@/lib/spreadsheet';
+
+interface BatchGeocodingPanelProps {
+  rows: PendingGeocodeRow[];
+  onAccept: (accepted: BatchGeocodeResult[]) => Promise<void>;
+  disabled?: boolean;
+  empresaId: string;
+}
+
+// Results that only locate the city are unchecked by default
+const isLowPrecision = (result: BatchGeocodeResult['result']) => result?.precision === 'city';
+
+// Row numbers repeat across tabs, so selections are keyed by tab and row
+function rowId(row: PendingGeocodeRow): string {
+  return `${row.tab ?? ''}:${row.row}`;
+}
+
+function formatRowAddress(row: PendingGeocodeRow): string {
+  const street = [row.address, row.number].filter(Boolean).join(', ');
+  return [street, row.neighborhood, `${row.city}/${row.state}`].filter(Boolean).join(' - ');
+}
+
+export function BatchGeocodingPanel({ rows, onAccept, disabled, empresaId }: BatchGeocodingPanelProps) {
+  const [results, setResults] = useState<BatchGeocodeResult[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isRunning, setIsRunning] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A new sheet test replaces the pending rows, so earlier results no longer apply
+  useEffect(() => {
+    abortRef.current?.abort();
+    setResults([]);
+    setSelected(new Set());
+  }, [rows]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResults([]);
+    setSelected(new Set());
+
+    await batchGeocode(rows, empresaId, {
+      signal: controller.signal,
+      onProgress: (_done, _total, latest) => {
+        if (controller.signal.aborted) return;
+        setResults(prev => [...prev, latest]);
+        if (latest.result && !isLowPrecision(latest.result)) {
+          setSelected(prev => new Set(prev).add(rowId(latest.row)));
+        }
+      },
+    });
+
+    if (abortRef.current === controller) {
+      setIsRunning(false);
+    }
+  };
+
+  // The row being geocoded still finishes; the loop stops before the next one
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const toggleRow = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      await onAccept(results.filter(entry => entry.result && selected.has(rowId(entry.row))));
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const progress = rows.length > 0 ? (results.length / rows.length) * 100 : 0;
+  const selectedCount = results.filter(entry => entry.result && selected.has(rowId(entry.row))).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {rows.length} {rows.length === 1 ? 'linha sem coordenadas' : 'linhas sem coordenadas'}
+          {' · '}cerca de {Math.ceil(rows.length * 1.5)}s para geocodificar
+        </p>
+        {isRunning ? (
+          <Button type="button" variant="outline" size="sm" onClick={handleStop}>
+            <Square className="h-4 w-4 mr-2" />
+            Parar
+          </Button>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={handleStart} disabled={disabled || isAccepting}>
+            <MapPin className="h-4 w-4 mr-2" />
+            {results.length > 0 ? 'Geocodificar novamente' : 'Geocodificar endereços'}
+          </Button>
+        )}
+      </div>
+
+      {(isRunning || results.length > 0) && (
+        <div className="space-y-1">
+          <Progress value={progress} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            {results.length} de {rows.length} processadas
+          </p>
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <ScrollArea className="h-64 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead className="w-16">Linha</TableHead>
+                  <TableHead>Local</TableHead>
+                  <TableHead>Precisão</TableHead>
+                  <TableHead>Coordenadas</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(({ row, result, error }) => (
+                  <TableRow key={rowId(row)}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!!result && selected.has(rowId(row))}
+                        onCheckedChange={(checked) => toggleRow(rowId(row), checked === true)}
+                        disabled={!result || isAccepting}
+                        aria-label={`Aceitar coordenadas da linha ${row.row}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {row.row}
+                      {row.tab && <p className="font-sans text-muted-foreground">{row.tab}</p>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <p className="font-medium">{row.name}</p>
+                      <p className="text-muted-foreground">{formatRowAddress(row)}</p>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {result ? (
+                        <>
+                          <Badge variant={isLowPrecision(result) ? 'destructive' : 'secondary'} title={result.searchUsed}>
+                            {PRECISION_LABELS[result.precision]}
+                          </Badge>
+                          <p className="text-muted-foreground mt-1">{GEOCODING_SOURCE_LABELS[result.provider]}</p>
+                        </>
+                      ) : (
+                        <span className="text-destructive">{error || 'Endereço não encontrado'}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {result ? `${result.lat.toFixed(6)}, ${result.lon.toFixed(6)}` : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+
+          <Button
+            type="button"
+            onClick={handleAccept}
+            disabled={isRunning || isAccepting || selectedCount === 0 || disabled}
+            className="w-full"
+          >
+            {isAccepting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Salvando...
+              </>
+            ) : (
+              <>
+                <Check className="mr-2 h-4 w-4" />
+                Aceitar {selectedCount} {selectedCount === 1 ? 'coordenada' : 'coordenadas'}
+              </>
+            )}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
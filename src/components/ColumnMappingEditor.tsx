@@ -0,0 +1,79 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LOCATION_FIELDS, resolveColumnIndex, type ColumnMapping, type LocationField } from '@/lib/spreadsheet';
+
+interface ColumnMappingEditorProps {
+  headers: string[];
+  value: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  disabled?: boolean;
+}
+
+// Radix Select does not accept empty strings as item values
+const AUTO_DETECT_VALUE = '__auto__';
+
+export function ColumnMappingEditor({ headers, value, onChange, disabled }: ColumnMappingEditorProps) {
+  const handleFieldChange = (field: LocationField, header: string) => {
+    const next = { ...value };
+    if (header === AUTO_DETECT_VALUE) {
+      delete next[field];
+    } else {
+      next[field] = header;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {LOCATION_FIELDS.map(({ field, label, required }) => {
+        const mappedHeader = value[field];
+        const isMappedHeaderMissing = !!mappedHeader && !headers.includes(mappedHeader);
+
+        // Show which header the default aliases would pick when nothing is mapped
+        const autoIndex = resolveColumnIndex(headers, field);
+        const autoLabel = autoIndex !== -1 ? `Automático (${headers[autoIndex]})` : 'Automático (não encontrada)';
+
+        return (
+          <div key={field} className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:items-center">
+            <label className="text-sm font-medium">
+              {label}
+              {required && <span className="text-destructive ml-0.5">*</span>}
+            </label>
+            <div className="space-y-1">
+              <Select
+                value={mappedHeader ?? AUTO_DETECT_VALUE}
+                onValueChange={(header) => handleFieldChange(field, header)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-9 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_DETECT_VALUE}>{autoLabel}</SelectItem>
+                  {isMappedHeaderMissing && (
+                    <SelectItem value={mappedHeader}>{mappedHeader}</SelectItem>
+                  )}
+                  {headers.map((header) => (
+                    <SelectItem key={header} value={header}>
+                      {header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isMappedHeaderMissing && (
+                <p className="text-xs text-destructive">
+                  Coluna "{mappedHeader}" não existe mais na planilha.
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
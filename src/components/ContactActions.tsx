@@ -0,0 +1,55 @@
+import { Phone, MessageCircle, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  buildMailtoUrl,
+  buildTelUrl,
+  buildWhatsAppUrl,
+  formatBrazilianPhone,
+  getLocationContacts,
+} from '@/lib/contacts';
+
+interface ContactActionsProps {
+  name: string;
+  phone?: string;
+  whatsapp?: string;
+  email?: string;
+}
+
+export function ContactActions({ name, phone, whatsapp, email }: ContactActionsProps) {
+  const contacts = getLocationContacts({ phone, whatsapp, email });
+
+  if (contacts.phones.length === 0 && !contacts.whatsapp && !contacts.email) {
+    return null;
+  }
+
+  const message = `Olá! Gostaria de agendar um atendimento em ${name}.`;
+
+  return (
+    <>
+      {contacts.phones.map((digits) => (
+        <Button key={digits} variant="outline" size="sm" className="w-full sm:w-auto" asChild>
+          <a href={buildTelUrl(digits)}>
+            <Phone className="h-4 w-4 mr-2" />
+            {contacts.phones.length > 1 ? formatBrazilianPhone(digits) : 'Ligar'}
+          </a>
+        </Button>
+      ))}
+      {contacts.whatsapp && (
+        <Button variant="outline" size="sm" className="w-full sm:w-auto" asChild>
+          <a href={buildWhatsAppUrl(contacts.whatsapp, message)} target="_blank" rel="noopener noreferrer">
+            <MessageCircle className="h-4 w-4 mr-2" />
+            WhatsApp
+          </a>
+        </Button>
+      )}
+      {contacts.email && (
+        <Button variant="outline" size="sm" className="w-full sm:w-auto" asChild>
+          <a href={buildMailtoUrl(contacts.email, `Agendamento - ${name}`)}>
+            <Mail className="h-4 w-4 mr-2" />
+            E-mail
+          </a>
+        </Button>
+      )}
+    </>
+  );
+}
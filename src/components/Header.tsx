@@ -3,7 +3,8 @@ import { useEmpresa } from '@/hooks/useEmpresa';
 import logo from '@/assets/logo.png';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Settings, LogOut } from 'lucide-react';
+import { Settings, LogOut, Users } from 'lucide-react';
+import { clearRosterJob } from '@/lib/roster';
 
 export function Header() {
   const {
@@ -14,6 +15,8 @@ export function Header() {
   const navigate = useNavigate();
   
   const handleLogout = () => {
+    // The saved batch holds people's addresses; don't leave it on a shared computer
+    if (empresa) clearRosterJob(empresa.id);
     logout();
     navigate('/login');
   };
@@ -46,9 +49,14 @@ export function Header() {
             <div className="flex items-center gap-2">
               <Skeleton className="h-8 w-8 rounded-md" />
               <Skeleton className="h-8 w-8 rounded-md" />
+              <Skeleton className="h-8 w-8 rounded-md" />
             </div>
           ) : empresa && (
             <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => navigate('/lote')} title="Busca em lote">
+                <Users className="h-4 w-4" />
+                <span className="hidden sm:inline ml-2">Busca em lote</span>
+              </Button>
               <Button variant="ghost" size="sm" onClick={() => navigate('/admin')} title="Configurações">
                 <Settings className="h-4 w-4" />
                 <span className="hidden sm:inline ml-2">Configurações</span>
@@ -0,0 +1,96 @@
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toCSV, downloadCSV } from '@/lib/csv';
+import type { ParseIssue } from '@/lib/spreadsheet';
+
+interface ImportIssuesReportProps {
+  issues: ParseIssue[];
+  fileName?: string;
+}
+
+const SEVERITY_LABELS: Record<ParseIssue['severity'], string> = {
+  error: 'Erro',
+  warning: 'Aviso',
+};
+
+export function ImportIssuesReport({ issues, fileName = 'relatorio_importacao.csv' }: ImportIssuesReportProps) {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const hasTabs = issues.some(issue => issue.tab);
+
+  const handleDownload = () => {
+    const headers = [...(hasTabs ? ['Aba'] : []), 'Linha', 'Coluna', 'Valor', 'Gravidade', 'Motivo'];
+    const rows = issues.map(issue => [
+      ...(hasTabs ? [issue.tab ?? ''] : []),
+      String(issue.row),
+      issue.column ?? '',
+      issue.value ?? '',
+      SEVERITY_LABELS[issue.severity],
+      issue.reason,
+    ]);
+    downloadCSV(toCSV([headers, ...rows]), fileName);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {errorCount} {errorCount === 1 ? 'linha ignorada' : 'linhas ignoradas'}
+          {warningCount > 0 && ` · ${warningCount} ${warningCount === 1 ? 'aviso' : 'avisos'}`}
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Baixar relatório (CSV)
+        </Button>
+      </div>
+      <ScrollArea className="h-64 rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {hasTabs && <TableHead>Aba</TableHead>}
+              <TableHead className="w-16">Linha</TableHead>
+              <TableHead>Coluna</TableHead>
+              <TableHead>Valor</TableHead>
+              <TableHead>Motivo</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {issues.map((issue, index) => (
+              <TableRow key={`${issue.tab}-${issue.row}-${issue.column}-${index}`}>
+                {hasTabs && <TableCell className="text-xs">{issue.tab || '—'}</TableCell>}
+                <TableCell className="font-mono text-xs">{issue.row}</TableCell>
+                <TableCell className="text-xs">{issue.column || '—'}</TableCell>
+                <TableCell className="font-mono text-xs max-w-[8rem] truncate" title={issue.value}>
+                  {issue.value || '—'}
+                </TableCell>
+                <TableCell className="text-xs">
+                  <Badge
+                    variant={issue.severity === 'error' ? 'destructive' : 'secondary'}
+                    className="mr-2"
+                  >
+                    {SEVERITY_LABELS[issue.severity]}
+                  </Badge>
+                  {issue.reason}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Navigation, Plus, Route, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { devLog } from '@/lib/logger';
+import { formatDistance } from '@/lib/haversine';
+import { TRAVEL_MODE_LABELS, formatDuration, type TravelMode } from '@/lib/routing';
+import { planItinerary, MAX_ITINERARY_STOPS, type Itinerary, type ItineraryPoint, type ItineraryStop } from '@/lib/itinerary';
+import { buildGoogleMapsItineraryUrl } from '@/lib/mapLinks';
+import { matchesSearch, normalizeSearchText } from '@/lib/searchUtils';
+
+interface ItineraryPanelProps {
+  /** Stops that can be visited, by result index; null for results without coordinates */
+  stops: (ItineraryStop | null)[];
+  /** Result indices of the chosen stops, in the order they were chosen */
+  selected: number[];
+  onSelectedChange: (selected: number[]) => void;
+  /** The searched address, where the itinerary starts */
+  start: ItineraryPoint & { address?: string };
+  travelMode: TravelMode;
+  empresaId?: string;
+}
+
+const MAX_NAME_MATCHES = 5;
+
+/**
+ * Plans a visit to several of the search results: the stops are chosen with the
+ * cards' checkboxes or by name, and the visiting order is optimized by travel time.
+ */
+export function ItineraryPanel({ stops, selected, onSelectedChange, start, travelMode, empresaId }: ItineraryPanelProps) {
+  const [returnToStart, setReturnToStart] = useState(false);
+  const [nameQuery, setNameQuery] = useState('');
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Incremented when the stops change, so a plan for the previous ones is discarded
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    requestIdRef.current++;
+    setItinerary(null);
+    setError(null);
+    setIsPlanning(false);
+  }, [selected, returnToStart]);
+
+  const searchTerm = normalizeSearchText(nameQuery);
+  const nameMatches = searchTerm
+    ? stops
+        .map((stop, index) => ({ stop, index }))
+        .filter(({ stop, index }) => stop && !selected.includes(index) && matchesSearch(stop.name, searchTerm))
+        .slice(0, MAX_NAME_MATCHES)
+    : [];
+  const isFull = selected.length >= MAX_ITINERARY_STOPS;
+  const origin = start.address || `${start.latitude},${start.longitude}`;
+
+  const handleAdd = (index: number) => {
+    onSelectedChange([...selected, index]);
+    setNameQuery('');
+  };
+
+  const handlePlan = async () => {
+    if (!empresaId) return;
+    const requestId = ++requestIdRef.current;
+    setIsPlanning(true);
+    setError(null);
+
+    try {
+      const planned = await planItinerary(
+        start,
+        selected.map(index => stops[index]).filter((stop): stop is ItineraryStop => stop !== null),
+        empresaId,
+        { travelMode, returnToStart }
+      );
+      if (requestId === requestIdRef.current) setItinerary(planned);
+    } catch (planError) {
+      devLog.error('Itinerary error:', planError);
+      if (requestId === requestIdRef.current) {
+        setError(planError instanceof Error ? planError.message : 'Não foi possível calcular o roteiro.');
+      }
+    } finally {
+      if (requestId === requestIdRef.current) setIsPlanning(false);
+    }
+  };
+
+  const returnLeg = itinerary?.returnToStart ? itinerary.legs[itinerary.legs.length - 1] : undefined;
+  const approximate = itinerary?.estimated ? '~' : '';
+
+  return (
+    <div className="rounded-xl border p-4 space-y-3">
+      <div className="flex items-center gap-2 font-medium text-navy">
+        <Route className="h-4 w-4 text-emerald" />
+        Roteiro de visitas
+      </div>
+
+      {selected.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Marque as clínicas que deseja visitar ou adicione-as pelo nome. A ordem das visitas é calculada a partir do endereço buscado.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {selected.map(index => (
+            <li key={index} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate">{stops[index]?.name}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onSelectedChange(selected.filter(selectedIndex => selectedIndex !== index))}
+                aria-label={`Remover ${stops[index]?.name} do roteiro`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1">
+        <Input
+          value={nameQuery}
+          onChange={(event) => setNameQuery(event.target.value)}
+          placeholder="Adicionar pelo nome"
+          aria-label="Adicionar clínica ao roteiro pelo nome"
+          className="h-9"
+          disabled={isFull}
+        />
+        {nameMatches.map(({ stop, index }) => (
+          <Button
+            key={index}
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start h-8"
+            onClick={() => handleAdd(index)}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            <span className="truncate">{stop?.name}</span>
+          </Button>
+        ))}
+        {isFull && (
+          <p className="text-xs text-muted-foreground">Limite de {MAX_ITINERARY_STOPS} locais por roteiro.</p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="itinerary-return-to-start"
+          checked={returnToStart}
+          onCheckedChange={(checked) => setReturnToStart(checked === true)}
+        />
+        <label htmlFor="itinerary-return-to-start" className="text-sm">Voltar ao ponto de partida</label>
+      </div>
+
+      <Button
+        type="button"
+        size="sm"
+        className="w-full"
+        onClick={handlePlan}
+        disabled={selected.length === 0 || isPlanning || !empresaId}
+      >
+        {isPlanning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Route className="h-4 w-4 mr-2" />}
+        Calcular roteiro
+      </Button>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {itinerary && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            Total: <strong>{approximate}{formatDistance(itinerary.totalDistanceKm)}</strong> e{' '}
+            <strong>{approximate}{formatDuration(itinerary.totalDurationMinutes)}</strong>{' '}
+            {TRAVEL_MODE_LABELS[itinerary.travelMode].toLowerCase()}
+          </p>
+          {itinerary.estimated && (
+            <p className="text-xs text-amber-700">
+              Alguns trechos não foram calculados pelos serviços de rotas e foram estimados em linha reta.
+            </p>
+          )}
+          <ol className="space-y-1 text-sm">
+            <li className="text-xs text-muted-foreground">Partida: {start.address || 'endereço buscado'}</li>
+            {itinerary.stops.map((stop, index) => (
+              <li key={`${stop.name}-${index}`} className="flex items-start gap-2">
+                <span className="font-bold text-navy">{index + 1}.</span>
+                <span className="flex-1 min-w-0">{stop.name}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatDistance(itinerary.legs[index].distanceKm)} · {formatDuration(itinerary.legs[index].durationMinutes)}
+                </span>
+              </li>
+            ))}
+            {returnLeg && (
+              <li className="flex items-start gap-2 text-muted-foreground">
+                <span className="flex-1">Retorno ao ponto de partida</span>
+                <span className="text-xs whitespace-nowrap">
+                  {formatDistance(returnLeg.distanceKm)} · {formatDuration(returnLeg.durationMinutes)}
+                </span>
+              </li>
+            )}
+          </ol>
+          <Button variant="outline" size="sm" className="w-full" asChild>
+            <a
+              href={buildGoogleMapsItineraryUrl(itinerary.stops.map(stop => stop.address), itinerary.travelMode, origin, itinerary.returnToStart)}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Navigation className="h-4 w-4 mr-2" />
+              Abrir roteiro no Google Maps
+            </a>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,33 +12,15 @@ import {
   DrawerFooter,
 } from '@/components/ui/drawer';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { DEFAULT_TRAVEL_MODE, type TravelMode } from '@/lib/routing';
+import { buildGoogleMapsUrl, buildWazeUrl, buildAppleMapsUrl } from '@/lib/mapLinks';
 
 interface NavigationMenuProps {
   destination: string;
   origin?: string;
   latitude?: number;
   longitude?: number;
-}
-
-function buildGoogleMapsUrl(destination: string, origin?: string): string {
-  const base = 'https://www.google.com/maps/dir/?api=1';
-  const dest = encodeURIComponent(destination + ', Brasil');
-  const originParam = origin ? `&origin=${encodeURIComponent(origin)}` : '';
-  return `${base}${originParam}&destination=${dest}`;
-}
-
-function buildWazeUrl(destination: string, lat?: number, lon?: number): string {
-  if (lat !== undefined && lon !== undefined) {
-    return `waze://?ll=${lat},${lon}&navigate=yes`;
-  }
-  return `waze://?q=${encodeURIComponent(destination + ', Brasil')}`;
-}
-
-function buildAppleMapsUrl(destination: string, lat?: number, lon?: number): string {
-  if (lat !== undefined && lon !== undefined) {
-    return `maps://?daddr=${lat},${lon}&dirflg=d`;
-  }
-  return `maps://?daddr=${encodeURIComponent(destination + ', Brasil')}&dirflg=d`;
+  travelMode?: TravelMode;
 }
 
 // Check if running on iOS
@@ -88,26 +70,29 @@ interface NavigationOption {
   url: string;
 }
 
-export function NavigationMenu({ destination, origin, latitude, longitude }: NavigationMenuProps) {
+export function NavigationMenu({ destination, origin, latitude, longitude, travelMode = DEFAULT_TRAVEL_MODE }: NavigationMenuProps) {
   const [open, setOpen] = useState(false);
   const isMobile = useIsMobile();
   const showAppleMaps = isIOS();
 
+  // Waze only gives driving directions, so it is offered for car trips only
+  const showWaze = travelMode === 'driving';
+
   const options: NavigationOption[] = [
     {
       name: 'Google Maps',
       icon: <GoogleMapsIcon className="h-5 w-5" />,
-      url: buildGoogleMapsUrl(destination, origin),
+      url: buildGoogleMapsUrl(destination, travelMode, origin),
     },
-    {
+    ...(showWaze ? [{
       name: 'Waze',
       icon: <WazeIcon className="h-5 w-5" />,
       url: buildWazeUrl(destination, latitude, longitude),
-    },
+    }] : []),
     ...(showAppleMaps ? [{
       name: 'Apple Maps',
       icon: <AppleMapsIcon className="h-5 w-5" />,
-      url: buildAppleMapsUrl(destination, latitude, longitude),
+      url: buildAppleMapsUrl(destination, travelMode, latitude, longitude),
     }] : []),
   ];
 
@@ -0,0 +1,91 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+
+interface ProviderOrderListProps<T extends string> {
+  /** Every provider that can be enabled, with its label */
+  labels: Record<T, string>;
+  /** Enabled providers, in the order they are tried */
+  value: T[];
+  onChange: (order: T[]) => void;
+  /** Prefix of the checkbox ids */
+  idPrefix: string;
+  /** Providers that must stay enabled; 0 lets every provider be unchecked */
+  minEnabled?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Checkbox list of external services, with arrows to set the fallback order.
+ * Enabled providers come first, numbered; disabled ones are listed after them.
+ */
+export function ProviderOrderList<T extends string>({
+  labels,
+  value,
+  onChange,
+  idPrefix,
+  minEnabled = 1,
+  disabled,
+}: ProviderOrderListProps<T>) {
+  const toggle = (id: T, checked: boolean) => {
+    const next = checked ? [...value.filter(enabled => enabled !== id), id] : value.filter(enabled => enabled !== id);
+    if (next.length >= minEnabled) onChange(next);
+  };
+
+  const move = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {[...value, ...(Object.keys(labels) as T[]).filter(id => !value.includes(id))].map((id) => {
+        const index = value.indexOf(id);
+        const enabled = index !== -1;
+        return (
+          <div key={id} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-${id}`}
+              checked={enabled}
+              onCheckedChange={(checked) => toggle(id, checked === true)}
+              disabled={disabled || (enabled && value.length <= minEnabled)}
+            />
+            <label htmlFor={`${idPrefix}-${id}`} className="flex-1 text-sm">
+              {enabled && <span className="font-mono text-muted-foreground mr-2">{index + 1}.</span>}
+              {labels[id]}
+            </label>
+            {enabled && (
+              <>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => move(index, -1)}
+                  disabled={disabled || index === 0}
+                  aria-label={`Subir ${labels[id]}`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => move(index, 1)}
+                  disabled={disabled || index === value.length - 1}
+                  aria-label={`Descer ${labels[id]}`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,13 +1,27 @@
-import { useState, forwardRef } from 'react';
-import { MapPin, Navigation, Info, ChevronDown, ChevronUp, FlaskConical, MapPinned } from 'lucide-react';
+import { useState, useEffect, useRef, forwardRef } from 'react';
+import { MapPin, Navigation, Info, ChevronDown, ChevronUp, FlaskConical, MapPinned, Clock, AlertTriangle, Timer } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import type { SearchResult } from '@/components/AddressForm';
 import { cn } from '@/lib/utils';
 import { ResultsListSkeleton } from '@/components/ResultCardSkeleton';
 import { NavigationMenu } from '@/components/NavigationMenu';
+import { ResultsMap } from '@/components/ResultsMap';
+import { ContactActions } from '@/components/ContactActions';
+import { ItineraryPanel } from '@/components/ItineraryPanel';
+import { TravelModeIcon } from '@/components/TravelModeIcon';
+import { useEmpresa } from '@/hooks/useEmpresa';
+import { PRECISION_LABELS } from '@/lib/geocoding';
+import { formatDistance } from '@/lib/haversine';
+import { DEFAULT_TRAVEL_MODE, TRAVEL_MODE_LABELS, fetchRouteGeometry } from '@/lib/routing';
+import { MAX_ITINERARY_STOPS, type ItineraryStop } from '@/lib/itinerary';
+import { devLog } from '@/lib/logger';
+import { parseOpeningHours, isOpenAt, formatDayHours, scheduleTimeAt } from '@/lib/openingHours';
+import { parseServices, getServiceLabels, ONLY_COMPLEMENTARY_EXAMS_SERVICE, type ServiceVocabulary } from '@/lib/services';
 
 interface ResultsListProps {
   results: SearchResult[];
@@ -50,17 +64,57 @@ function getFullDestination(result: SearchResult): string {
   );
 }
 
+function isOnlyComplementaryExams(result: SearchResult, vocabulary?: ServiceVocabulary | null): boolean {
+  return parseServices(result.services, vocabulary).ids.includes(ONLY_COMPLEMENTARY_EXAMS_SERVICE);
+}
+
+function getTodaySchedule(result: SearchResult): { hours: string; isOpen: boolean } | null {
+  if (!result.openingHours) return null;
+  const { hours } = parseOpeningHours(result.openingHours);
+  if (!hours) return null;
+
+  const now = scheduleTimeAt(new Date());
+  return { hours: formatDayHours(hours, now.day), isOpen: isOpenAt(hours, now) };
+}
+
 const INITIAL_VISIBLE_COUNT = 3;
 const INCREMENT_COUNT = 5;
 
-function ResultItem({ result, index }: { result: SearchResult; index: number }) {
+interface ResultItemProps {
+  result: SearchResult;
+  index: number;
+  serviceVocabulary?: ServiceVocabulary | null;
+  /** Called when the card is expanded, to show its route on the map */
+  onExpand: (index: number) => void;
+  inItinerary: boolean;
+  /** False when the itinerary is full, so only chosen stops can be unchecked */
+  canAddToItinerary: boolean;
+  onItineraryChange: (index: number, included: boolean) => void;
+}
+
+function ResultItem({
+  result,
+  index,
+  serviceVocabulary,
+  onExpand,
+  inItinerary,
+  canAddToItinerary,
+  onItineraryChange,
+}: ResultItemProps) {
   const [showFullAddress, setShowFullAddress] = useState(false);
+
+  const toggleFullAddress = () => {
+    if (!showFullAddress) onExpand(index);
+    setShowFullAddress(!showFullAddress);
+  };
   
   const locationSummary = formatLocation(result.neighborhood, result.city, result.state);
   const fullAddress = formatFullAddress(result.address, result.number, result.neighborhood, result.city, result.state);
   const hasAddressDetails = result.address || result.neighborhood || result.city;
-  const isOnlyExams = result.services?.toLowerCase() === 'somente exames complementares';
+  const isOnlyExams = isOnlyComplementaryExams(result, serviceVocabulary);
+  const serviceLabels = getServiceLabels(result.services, serviceVocabulary);
   const destination = getFullDestination(result);
+  const todaySchedule = getTodaySchedule(result);
   return (
     <div
       className={cn(
@@ -83,17 +137,53 @@ function ResultItem({ result, index }: { result: SearchResult; index: number })
           {locationSummary && (
             <p className="text-xs sm:text-sm text-muted-foreground mt-0.5">{locationSummary}</p>
           )}
+          {todaySchedule && (
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground mt-1">
+              <Clock className="h-3.5 w-3.5 flex-shrink-0" />
+              <span>Hoje: {todaySchedule.hours}</span>
+              <Badge
+                variant="outline"
+                className={cn(
+                  'px-1.5 py-0 text-[10px]',
+                  todaySchedule.isOpen ? 'border-emerald text-emerald' : 'border-destructive text-destructive'
+                )}
+              >
+                {todaySchedule.isOpen ? 'Aberto' : 'Fechado'}
+              </Badge>
+            </div>
+          )}
           <div className="flex items-center justify-between mt-1.5 sm:mt-1">
-            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+            <div className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
               <MapPin className="h-4 w-4 text-emerald" />
               <span className="font-medium text-emerald">{result.formattedDistance}</span>
+              {result.estimated && (
+                <Badge
+                  variant="outline"
+                  className="px-1.5 py-0 text-[10px] border-amber-300 text-amber-700"
+                  title="Nenhum serviço de rotas respondeu para este local; a distância e o tempo foram estimados em linha reta."
+                >
+                  distância aproximada (linha reta)
+                </Badge>
+              )}
+              {result.formattedDuration && (
+                <span className="flex items-center gap-1 ml-2">
+                  <Timer className="h-4 w-4" />
+                  <span className="font-medium">{result.estimated && '~'}{result.formattedDuration}</span>
+                </span>
+              )}
+              {result.travelMode && (
+                <span className="flex items-center gap-1 text-xs ml-1" title={TRAVEL_MODE_LABELS[result.travelMode]}>
+                  <TravelModeIcon mode={result.travelMode} className="h-3.5 w-3.5" />
+                  {TRAVEL_MODE_LABELS[result.travelMode].toLowerCase()}
+                </span>
+              )}
             </div>
             {/* Mobile: button inline with distance, Desktop: button on the right */}
             {hasAddressDetails && (
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => setShowFullAddress(!showFullAddress)}
+                onClick={toggleFullAddress}
                 className="sm:hidden h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
               >
                 {showFullAddress ? (
@@ -110,13 +200,26 @@ function ResultItem({ result, index }: { result: SearchResult; index: number })
               </Button>
             )}
           </div>
+          {result.latitude !== undefined && result.longitude !== undefined && (
+            <div className="flex items-center gap-2 mt-1.5">
+              <Checkbox
+                id={`itinerary-stop-${index}`}
+                checked={inItinerary}
+                onCheckedChange={(checked) => onItineraryChange(index, checked === true)}
+                disabled={!inItinerary && !canAddToItinerary}
+              />
+              <label htmlFor={`itinerary-stop-${index}`} className="text-xs text-muted-foreground">
+                Incluir no roteiro de visitas
+              </label>
+            </div>
+          )}
         </div>
         {/* Desktop only: button on the right side */}
         {hasAddressDetails && (
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setShowFullAddress(!showFullAddress)}
+            onClick={toggleFullAddress}
             className="hidden sm:flex flex-shrink-0 text-muted-foreground hover:text-foreground"
           >
             {showFullAddress ? (
@@ -139,7 +242,16 @@ function ResultItem({ result, index }: { result: SearchResult; index: number })
             <span className="font-medium">Endereço: </span>
             {fullAddress}
           </div>
-          <NavigationMenu destination={destination} origin={result.originAddress} latitude={result.latitude} longitude={result.longitude} />
+          {serviceLabels.length > 0 && (
+            <div>
+              <span className="font-medium">Serviços: </span>
+              {serviceLabels.join(', ')}
+            </div>
+          )}
+          <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2">
+            <NavigationMenu destination={destination} origin={result.originAddress} latitude={result.latitude} longitude={result.longitude} travelMode={result.travelMode} />
+            <ContactActions name={result.name} phone={result.phone} whatsapp={result.whatsapp} email={result.email} />
+          </div>
         </div>
       )}
     </div>
@@ -149,6 +261,73 @@ function ResultItem({ result, index }: { result: SearchResult; index: number })
 export const ResultsList = forwardRef<HTMLDivElement, ResultsListProps>(
   function ResultsList({ results, isLoading, error, searchStep }, ref) {
     const [visibleCount, setVisibleCount] = useState(INITIAL_VISIBLE_COUNT);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+    const [routeGeometry, setRouteGeometry] = useState<[number, number][] | null>(null);
+    const [routeError, setRouteError] = useState<string | null>(null);
+    // Paths already fetched for this search, by result index
+    const geometryCacheRef = useRef(new Map<number, [number, number][] | null>());
+    // Result indices chosen for the visit itinerary
+    const [itineraryIndices, setItineraryIndices] = useState<number[]>([]);
+    const { empresa } = useEmpresa();
+    const serviceVocabulary = empresa?.service_vocabulary;
+    const empresaId = empresa?.id;
+
+    // A new search clears the selected route and the itinerary
+    useEffect(() => {
+      geometryCacheRef.current.clear();
+      setSelectedIndex(null);
+      setItineraryIndices([]);
+    }, [results]);
+
+    // The route is fetched on demand, when a card is expanded or its marker clicked
+    useEffect(() => {
+      setRouteError(null);
+      const selected = selectedIndex !== null ? results[selectedIndex] : undefined;
+      if (
+        !selected || !empresaId ||
+        selected.latitude === undefined || selected.longitude === undefined ||
+        selected.originLatitude === undefined || selected.originLongitude === undefined
+      ) {
+        setRouteGeometry(null);
+        return;
+      }
+
+      // No routing service reached this provider, so there is no path to draw
+      if (selected.estimated) {
+        setRouteGeometry(null);
+        setRouteError('Trajeto indisponível: a distância deste local foi estimada em linha reta.');
+        return;
+      }
+
+      const cache = geometryCacheRef.current;
+      if (cache.has(selectedIndex!)) {
+        setRouteGeometry(cache.get(selectedIndex!)!);
+        return;
+      }
+
+      let cancelled = false;
+      setRouteGeometry(null);
+      fetchRouteGeometry(
+        { latitude: selected.originLatitude, longitude: selected.originLongitude },
+        { latitude: selected.latitude, longitude: selected.longitude },
+        empresaId,
+        selected.travelMode
+      )
+        .then((geometry) => {
+          cache.set(selectedIndex!, geometry);
+          if (cancelled) return;
+          setRouteGeometry(geometry);
+          if (!geometry) setRouteError('Trajeto não disponível para este local.');
+        })
+        .catch((error) => {
+          devLog.error('Route geometry error:', error);
+          if (!cancelled) setRouteError(error instanceof Error ? error.message : 'Não foi possível carregar o trajeto.');
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [selectedIndex, results, empresaId]);
 
     const loadingMessage = LOADING_MESSAGES[searchStep || 'geocoding'] || LOADING_MESSAGES.geocoding;
     if (isLoading) {
@@ -216,9 +395,17 @@ export const ResultsList = forwardRef<HTMLDivElement, ResultsListProps>(
     );
   }
 
-  // Check if any result used fallback search
-  const searchInfo = results.find(r => r.searchInfo)?.searchInfo;
+  // All results share the searched address, so its precision comes from the first one
+  const originPrecision = results[0].originPrecision;
+  const originErrorRadius = results[0].originErrorRadiusMeters;
+  const formattedErrorRadius = originErrorRadius ? formatDistance(originErrorRadius / 1000) : null;
   
+  const mapOrigin = results[0].originLatitude !== undefined && results[0].originLongitude !== undefined
+    ? { latitude: results[0].originLatitude, longitude: results[0].originLongitude }
+    : null;
+  // May briefly point past a new, shorter result list until the selection is reset
+  const selectedResult = selectedIndex !== null ? results[selectedIndex] : undefined;
+
   // Show results up to visible count
   const visibleResults = results.slice(0, visibleCount);
   const hasMoreResults = visibleCount < results.length;
@@ -231,11 +418,19 @@ export const ResultsList = forwardRef<HTMLDivElement, ResultsListProps>(
   const handleShowLess = () => {
     setVisibleCount(INITIAL_VISIBLE_COUNT);
   };
+
+  const handleItineraryChange = (index: number, included: boolean) => {
+    setItineraryIndices(prev => (included ? [...prev, index] : prev.filter(selected => selected !== index)));
+  };
+
+  const itineraryStops = results.map((result): ItineraryStop | null =>
+    result.latitude !== undefined && result.longitude !== undefined
+      ? { name: result.name, latitude: result.latitude, longitude: result.longitude, address: getFullDestination(result) || result.name }
+      : null
+  );
   
   // Check if any of the visible results is only for exams
-  const hasOnlyExams = visibleResults.some(r => 
-    r.services?.toLowerCase() === 'somente exames complementares'
-  );
+  const hasOnlyExams = visibleResults.some(r => isOnlyComplementaryExams(r, serviceVocabulary));
 
   return (
     <Card ref={ref} className="rounded-xl">
@@ -252,12 +447,52 @@ export const ResultsList = forwardRef<HTMLDivElement, ResultsListProps>(
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
-        {searchInfo && (
+        {originPrecision === 'city' && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Localização aproximada pelo centro da cidade</AlertTitle>
+            <AlertDescription className="text-sm">
+              Não encontramos o endereço informado, então as distâncias foram calculadas a partir do centro da cidade
+              {formattedErrorRadius && <> e podem variar em até ~{formattedErrorRadius}</>}.
+              Confira a rua, o número e o bairro e faça a busca novamente.
+            </AlertDescription>
+          </Alert>
+        )}
+        {originPrecision && originPrecision !== 'city' && originPrecision !== 'rooftop' && (
           <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-amber-800 text-sm">
             <Info className="h-4 w-4 flex-shrink-0" />
-            <span>Busca realizada utilizando: <strong>{searchInfo}</strong></span>
+            <span>
+              Precisão da localização: <strong>{PRECISION_LABELS[originPrecision]}</strong>
+              {formattedErrorRadius && <> (margem de erro de ~{formattedErrorRadius})</>}.
+            </span>
+          </div>
+        )}
+        {mapOrigin && (
+          <div className="space-y-1">
+            <ResultsMap
+              origin={mapOrigin}
+              results={results}
+              selectedIndex={selectedIndex}
+              routeGeometry={routeGeometry}
+              onSelect={setSelectedIndex}
+            />
+            <p className={cn('text-xs', routeError ? 'text-destructive' : 'text-muted-foreground')}>
+              {routeError ?? (selectedResult
+                ? `Trajeto até ${selectedResult.name}.`
+                : 'Abra o endereço de uma clínica ou toque no número no mapa para ver o trajeto.')}
+            </p>
           </div>
         )}
+        {mapOrigin && (
+          <ItineraryPanel
+            stops={itineraryStops}
+            selected={itineraryIndices}
+            onSelectedChange={setItineraryIndices}
+            start={{ ...mapOrigin, address: results[0].originAddress }}
+            travelMode={results[0].travelMode ?? DEFAULT_TRAVEL_MODE}
+            empresaId={empresaId}
+          />
+        )}
         {hasOnlyExams && (
           <Alert className="bg-blue-50 border-blue-200">
             <FlaskConical className="h-4 w-4 text-blue-600" />
@@ -267,7 +502,16 @@ export const ResultsList = forwardRef<HTMLDivElement, ResultsListProps>(
           </Alert>
         )}
         {visibleResults.map((result, index) => (
-          <ResultItem key={`${result.name}-${index}`} result={result} index={index} />
+          <ResultItem
+            key={`${result.name}-${index}`}
+            result={result}
+            index={index}
+            serviceVocabulary={serviceVocabulary}
+            onExpand={setSelectedIndex}
+            inItinerary={itineraryIndices.includes(index)}
+            canAddToItinerary={itineraryIndices.length < MAX_ITINERARY_STOPS}
+            onItineraryChange={handleItineraryChange}
+          />
         ))}
         {hasMoreResults && (
           <Button
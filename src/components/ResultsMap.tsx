@@ -0,0 +1,98 @@
+import { useEffect, useMemo } from 'react';
+import { CircleMarker, MapContainer, Marker, Polyline, TileLayer, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { SearchResult } from '@/components/AddressForm';
+
+// A local tile server can stand in for OpenStreetMap through VITE_MAP_TILE_URL
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION
+  || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>';
+
+const FIT_BOUNDS_OPTIONS: L.FitBoundsOptions = { padding: [24, 24], maxZoom: 15 };
+
+interface ResultsMapProps {
+  origin: { latitude: number; longitude: number };
+  results: SearchResult[];
+  /** Index of the result whose route is shown */
+  selectedIndex: number | null;
+  /** Path to the selected result as [lat, lon] pairs */
+  routeGeometry: [number, number][] | null;
+  onSelect: (index: number) => void;
+}
+
+/**
+ * Numbered marker matching the result card's position in the list.
+ */
+function numberedIcon(position: number, isSelected: boolean): L.DivIcon {
+  const colors = isSelected ? 'bg-emerald text-white' : 'bg-navy text-white';
+  return L.divIcon({
+    className: '',
+    html: `<span class="flex h-7 w-7 items-center justify-center rounded-full border-2 border-white text-xs font-bold shadow ${colors}">${position}</span>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+  });
+}
+
+/**
+ * Keeps the selected route, or else every marker, in view.
+ */
+function FitBounds({ points }: { points: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    map.fitBounds(L.latLngBounds(points), FIT_BOUNDS_OPTIONS);
+  }, [map, points]);
+
+  return null;
+}
+
+export function ResultsMap({ origin, results, selectedIndex, routeGeometry, onSelect }: ResultsMapProps) {
+  const originPoint: [number, number] = [origin.latitude, origin.longitude];
+
+  const markers = useMemo(
+    () => results
+      .map((result, index) => ({ result, index }))
+      .filter(({ result }) => result.latitude !== undefined && result.longitude !== undefined),
+    [results]
+  );
+
+  const boundsPoints = useMemo<[number, number][]>(
+    () => routeGeometry ?? [
+      [origin.latitude, origin.longitude],
+      ...markers.map(({ result }) => [result.latitude!, result.longitude!] as [number, number]),
+    ],
+    [routeGeometry, origin.latitude, origin.longitude, markers]
+  );
+
+  return (
+    <div className="relative z-0 h-64 sm:h-80 overflow-hidden rounded-lg border">
+      <MapContainer center={originPoint} zoom={13} scrollWheelZoom={false} className="h-full w-full">
+        <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+        <FitBounds points={boundsPoints} />
+        {routeGeometry && (
+          <Polyline positions={routeGeometry} pathOptions={{ color: 'hsl(160 84% 39%)', weight: 5, opacity: 0.8 }} />
+        )}
+        <CircleMarker
+          center={originPoint}
+          radius={8}
+          pathOptions={{ color: '#fff', weight: 2, fillColor: 'hsl(222 47% 20%)', fillOpacity: 1 }}
+        >
+          <Tooltip>Endereço informado</Tooltip>
+        </CircleMarker>
+        {markers.map(({ result, index }) => (
+          <Marker
+            key={`${result.name}-${index}`}
+            position={[result.latitude!, result.longitude!]}
+            icon={numberedIcon(index + 1, index === selectedIndex)}
+            zIndexOffset={index === selectedIndex ? 1000 : 0}
+            eventHandlers={{ click: () => onSelect(index) }}
+          >
+            <Tooltip>{result.name} · {result.formattedDistance}</Tooltip>
+          </Marker>
+        ))}
+      </MapContainer>
+    </div>
+  );
+}
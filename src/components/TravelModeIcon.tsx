@@ -0,0 +1,13 @@
+import { Bike, Car, Footprints } from 'lucide-react';
+import type { TravelMode } from '@/lib/routing';
+
+const TRAVEL_MODE_ICONS: Record<TravelMode, typeof Car> = {
+  driving: Car,
+  walking: Footprints,
+  cycling: Bike,
+};
+
+export function TravelModeIcon({ mode, className }: { mode: TravelMode; className?: string }) {
+  const Icon = TRAVEL_MODE_ICONS[mode];
+  return <Icon className={className} />;
+}
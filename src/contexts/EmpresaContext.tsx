@@ -1,11 +1,24 @@
 import React, { createContext, useState, useEffect, useCallback } from 'react';
 import { devLog } from '@/lib/logger';
+import type { ColumnMapping } from '@/lib/spreadsheet';
+import type { SheetTab } from '@/lib/googleSheets';
+import type { ServiceVocabulary } from '@/lib/services';
+import type { GeocoderConfig } from '@/lib/geocoding';
+import type { SearchSettings } from '@/lib/searchSettings';
+import type { RoutingConfig } from '@/lib/routing';
 
 export interface Empresa {
   id: string;
   nome: string;
   access_key: string;
   google_sheets_url: string | null;
+  column_mapping?: ColumnMapping | null;
+  sheet_tabs?: SheetTab[] | null;
+  service_vocabulary?: ServiceVocabulary | null;
+  geocoder_config?: GeocoderConfig | null;
+  search_settings?: SearchSettings | null;
+  routing_config?: RoutingConfig | null;
+  locations_synced_at?: string | null;
   is_active: boolean;
 }
 
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchProviderNetwork, type ProviderNetwork } from '@/lib/providerNetwork';
+
+export function useProviderNetwork(empresaId: string | null | undefined) {
+  return useQuery<ProviderNetwork>({
+    queryKey: ['provider-network', empresaId],
+    queryFn: () => fetchProviderNetwork(empresaId!),
+    enabled: !!empresaId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 30, // 30 minutes in cache
+    retry: 1,
+    meta: {
+      errorMessage: 'Erro ao carregar prestadores.',
+    },
+  });
+}
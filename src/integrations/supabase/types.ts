@@ -18,35 +18,299 @@ export type Database = {
         Row: {
           access_key: string
           admin_secret_hash: string | null
+          column_mapping: Json | null
           created_at: string | null
+          geocoder_config: Json | null
           google_sheets_url: string | null
           id: string
           is_active: boolean | null
+          locations_synced_at: string | null
           nome: string
+          routing_config: Json | null
+          search_settings: Json | null
+          service_vocabulary: Json | null
+          sheet_tabs: Json | null
           updated_at: string | null
         }
         Insert: {
           access_key: string
           admin_secret_hash?: string | null
+          column_mapping?: Json | null
           created_at?: string | null
+          geocoder_config?: Json | null
           google_sheets_url?: string | null
           id?: string
           is_active?: boolean | null
+          locations_synced_at?: string | null
           nome: string
+          routing_config?: Json | null
+          search_settings?: Json | null
+          service_vocabulary?: Json | null
+          sheet_tabs?: Json | null
           updated_at?: string | null
         }
         Update: {
           access_key?: string
           admin_secret_hash?: string | null
+          column_mapping?: Json | null
           created_at?: string | null
+          geocoder_config?: Json | null
           google_sheets_url?: string | null
           id?: string
           is_active?: boolean | null
+          locations_synced_at?: string | null
           nome?: string
+          routing_config?: Json | null
+          search_settings?: Json | null
+          service_vocabulary?: Json | null
+          sheet_tabs?: Json | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      geocode_cache: {
+        Row: {
+          address_key: string
+          created_at: string
+          empresa_id: string | null
+          expires_at: string
+          hit_count: number
+          id: string
+          last_hit_at: string | null
+          latitude: number
+          longitude: number
+          precision: string | null
+          provider: string
+          search_used: string
+        }
+        Insert: {
+          address_key: string
+          created_at?: string
+          empresa_id?: string | null
+          expires_at: string
+          hit_count?: number
+          id?: string
+          last_hit_at?: string | null
+          latitude: number
+          longitude: number
+          precision?: string | null
+          provider: string
+          search_used: string
+        }
+        Update: {
+          address_key?: string
+          created_at?: string
+          empresa_id?: string | null
+          expires_at?: string
+          hit_count?: number
+          id?: string
+          last_hit_at?: string | null
+          latitude?: number
+          longitude?: number
+          precision?: string | null
+          provider?: string
+          search_used?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geocode_cache_empresa_id_fkey"
+            columns: ["empresa_id"]
+            isOneToOne: false
+            referencedRelation: "empresas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "geocode_cache_empresa_id_fkey"
+            columns: ["empresa_id"]
+            isOneToOne: false
+            referencedRelation: "empresas_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geocode_cache_stats: {
+        Row: {
+          empresa_id: string
+          hits: number
+          misses: number
+          updated_at: string
+        }
+        Insert: {
+          empresa_id: string
+          hits?: number
+          misses?: number
+          updated_at?: string
+        }
+        Update: {
+          empresa_id?: string
+          hits?: number
+          misses?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geocode_cache_stats_empresa_id_fkey"
+            columns: ["empresa_id"]
+            isOneToOne: true
+            referencedRelation: "empresas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "geocode_cache_stats_empresa_id_fkey"
+            columns: ["empresa_id"]
+            isOneToOne: true
+            referencedRelation: "empresas_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geocoder_rate_buckets: {
+        Row: {
+          bucket_key: string
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          bucket_key: string
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          bucket_key?: string
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      location_geocodes: {
+        Row: {
+          accepted_at: string
+          address_key: string
+          empresa_id: string
+          id: string
+          latitude: number
+          longitude: number
+          provider: string | null
+          search_used: string
+        }
+        Insert: {
+          accepted_at?: string
+          address_key: string
+          empresa_id: string
+          id?: string
+          latitude: number
+          longitude: number
+          provider?: string | null
+          search_used: string
+        }
+        Update: {
+          accepted_at?: string
+          address_key?: string
+          empresa_id?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          provider?: string | null
+          search_used?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_geocodes_empresa_id_fkey"
+            columns: ["empresa_id"]
+            isOneToOne: false
+            referencedRelation: "empresas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "location_geocodes_empresa_id_fkey"
+            columns: ["empresa_id"]
+            isOneToOne: false
+            referencedRelation: "empresas_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          address: string | null
+          cep: string | null
+          city: string | null
+          email: string | null
+          empresa_id: string
+          gid: string | null
+          id: string
+          latitude: number
+          longitude: number
+          name: string
+          neighborhood: string | null
+          number: string | null
+          opening_hours: string | null
+          phone: string | null
+          services: string | null
+          source_key: string
+          state: string | null
+          synced_at: string
+          whatsapp: string | null
+        }
+        Insert: {
+          address?: string | null
+          cep?: string | null
+          city?: string | null
+          email?: string | null
+          empresa_id: string
+          gid?: string | null
+          id?: string
+          latitude: number
+          longitude: number
+          name: string
+          neighborhood?: string | null
+          number?: string | null
+          opening_hours?: string | null
+          phone?: string | null
+          services?: string | null
+          source_key: string
+          state?: string | null
+          synced_at?: string
+          whatsapp?: string | null
+        }
+        Update: {
+          address?: string | null
+          cep?: string | null
+          city?: string | null
+          email?: string | null
+          empresa_id?: string
+          gid?: string | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          name?: string
+          neighborhood?: string | null
+          number?: string | null
+          opening_hours?: string | null
+          phone?: string | null
+          services?: string | null
+          source_key?: string
+          state?: string | null
+          synced_at?: string
+          whatsapp?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locations_empresa_id_fkey"
+            columns: ["empresa_id"]
+            isOneToOne: false
+            referencedRelation: "empresas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "locations_empresa_id_fkey"
+            columns: ["empresa_id"]
+            isOneToOne: false
+            referencedRelation: "empresas_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rate_limits: {
         Row: {
           attempt_count: number
@@ -68,6 +332,36 @@ export type Database = {
         }
         Relationships: []
       }
+      route_cache: {
+        Row: {
+          created_at: string
+          distance_meters: number
+          duration_seconds: number
+          expires_at: string
+          route_key: string
+          source: string
+          travel_mode: string
+        }
+        Insert: {
+          created_at?: string
+          distance_meters: number
+          duration_seconds: number
+          expires_at: string
+          route_key: string
+          source: string
+          travel_mode: string
+        }
+        Update: {
+          created_at?: string
+          distance_meters?: number
+          duration_seconds?: number
+          expires_at?: string
+          route_key?: string
+          source?: string
+          travel_mode?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       empresas_public: {
@@ -93,7 +387,26 @@ export type Database = {
       }
     }
     Functions: {
+      acquire_rate_slot: {
+        Args: {
+          p_capacity: number
+          p_key: string
+          p_max_wait_ms: number
+          p_rate_per_second: number
+        }
+        Returns: number
+      }
+      cleanup_expired_geocode_cache: { Args: never; Returns: undefined }
       cleanup_expired_rate_limits: { Args: never; Returns: undefined }
+      cleanup_expired_route_cache: { Args: never; Returns: undefined }
+      record_geocode_cache_lookup: {
+        Args: { p_cache_id: string; p_empresa_id: string }
+        Returns: undefined
+      }
+      replace_empresa_locations: {
+        Args: { p_empresa_id: string; p_locations: Json }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,148 @@
+/**
+ * Brazilian address normalization, applied before geocoding.
+ *
+ * Geocoders match full street names, so "R. Dr. João Moura" or "Av Brig Faria Lima"
+ * often miss. This expands the usual abbreviations, removes complements
+ * ("apto 12", "bloco B") and rewrites highway addresses ("Rod. SP 280 km 12").
+ */
+
+export interface NormalizedAddress {
+  street: string;
+  number: string;
+}
+
+// Street types, only expanded as the first word
+const STREET_TYPES: Record<string, string> = {
+  r: 'Rua',
+  av: 'Avenida',
+  tv: 'Travessa',
+  trav: 'Travessa',
+  al: 'Alameda',
+  'pç': 'Praça',
+  'pça': 'Praça',
+  pca: 'Praça',
+  rod: 'Rodovia',
+  estr: 'Estrada',
+  est: 'Estrada',
+  lg: 'Largo',
+};
+
+// Titles in street names, expanded anywhere
+const TITLES: Record<string, string> = {
+  dr: 'Doutor',
+  dra: 'Doutora',
+  brig: 'Brigadeiro',
+  cel: 'Coronel',
+  gov: 'Governador',
+  prof: 'Professor',
+  profa: 'Professora',
+  pres: 'Presidente',
+  mal: 'Marechal',
+  gen: 'General',
+  cap: 'Capitão',
+  ten: 'Tenente',
+  eng: 'Engenheiro',
+  sen: 'Senador',
+  dep: 'Deputado',
+  des: 'Desembargador',
+  com: 'Comendador',
+  pe: 'Padre',
+  sto: 'Santo',
+  sta: 'Santa',
+};
+
+// Titles that are also common words; only expanded when written with a dot
+const TITLES_REQUIRING_DOT = ['mal', 'gen', 'cap', 'ten', 'sen', 'dep', 'des', 'com', 'pe'];
+
+// "apto 12", "ap. 3", "bloco B", "casa 2", "sala 101", "lj 4"... followed by a short identifier,
+// so names like "Avenida Casa Verde" are kept
+const COMPLEMENT_PATTERN = /(?:^|[\s,;/-])(?:apto|apt|ap|apartamento|bloco|bl|casa|cs|sala|sl|andar|loja|lj|torre|unidade|box)\.?\s*(?:n[º°o]\.?\s*)?[0-9][0-9a-z]{0,5}\b|(?:^|[\s,;/-])(?:bloco|bl|torre)\.?\s+[a-z]\b|(?:^|[\s,;/-])(?:fundos|frente)\b/i;
+
+// Highway references: "SP 280", "sp280", "BR-116"
+const HIGHWAY_PATTERN = /\b(BR|AC|AL|AP|AM|BA|CE|DF|ES|GO|MA|MT|MS|MG|PA|PB|PR|PE|PI|RJ|RN|RS|RO|RR|SC|SP|SE|TO)\s*-?\s*(\d{3})\b/gi;
+
+// Kilometer markers: "km 12", "Km. 12,5"
+const HIGHWAY_KM_PATTERN = /[\s,-]*\bkm\.?\s*\d+(?:[.,]\d+)?\b/gi;
+
+// "s/n", "sn", "s/nº": no number
+const NO_NUMBER_PATTERN = /^s\.?\/?\s*n[º°o]?\.?$/i;
+
+const TRAILING_SEPARATORS = /[\s,;/–-]+$/;
+
+/**
+ * Removes apartment/complement text and everything after it.
+ */
+export function stripComplement(text: string): string {
+  const match = text.match(COMPLEMENT_PATTERN);
+  if (!match || match.index === undefined) return text.trim();
+  return text.slice(0, match.index).replace(TRAILING_SEPARATORS, '').trim();
+}
+
+/**
+ * Expands street type and title abbreviations: "R. Dr. João Moura" → "Rua Doutor João Moura".
+ */
+export function expandStreetAbbreviations(street: string): string {
+  const expanded = street
+    .replace(/\bN\.?\s*Sra\.?(?=\s|$)/gi, 'Nossa Senhora')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word, index) => {
+      const hasDot = word.endsWith('.');
+      const key = word.replace(/\.$/, '').toLowerCase();
+
+      if (index === 0 && STREET_TYPES[key]) {
+        return STREET_TYPES[key];
+      }
+      if (TITLES[key] && (hasDot || !TITLES_REQUIRING_DOT.includes(key))) {
+        return TITLES[key];
+      }
+      return word;
+    });
+
+  return expanded.join(' ');
+}
+
+/**
+ * Rewrites highway addresses for geocoding: the reference is written as providers
+ * expect ("SP-280") and the kilometer marker, which they cannot locate, is removed.
+ */
+function normalizeHighway(street: string): string {
+  if (!HIGHWAY_PATTERN.test(street)) return street;
+  HIGHWAY_PATTERN.lastIndex = 0;
+
+  return street
+    .replace(HIGHWAY_PATTERN, (_match, prefix: string, code: string) => `${prefix.toUpperCase()}-${code}`)
+    .replace(HIGHWAY_KM_PATTERN, '')
+    .replace(TRAILING_SEPARATORS, '')
+    .trim();
+}
+
+/**
+ * Normalizes the street and number fields of an address for geocoding.
+ */
+export function normalizeAddress(street: string, number: string): NormalizedAddress {
+  let normalizedStreet = stripComplement(street.trim());
+  let normalizedNumber = stripComplement(number.trim());
+
+  // "Rua X, 123" typed in the street field
+  if (!normalizedNumber) {
+    const match = normalizedStreet.match(/^(.*\D),\s*(\d+[a-z]?)$/i);
+    if (match) {
+      normalizedStreet = match[1].trim();
+      normalizedNumber = match[2];
+    }
+  }
+
+  if (NO_NUMBER_PATTERN.test(normalizedNumber)) {
+    normalizedNumber = '';
+  }
+
+  // A kilometer marker in the number field belongs to the highway, not to a building
+  if (/^km\b/i.test(normalizedNumber)) {
+    normalizedNumber = '';
+  }
+
+  normalizedStreet = normalizeHighway(expandStreetAbbreviations(normalizedStreet));
+
+  return { street: normalizedStreet, number: normalizedNumber };
+}
@@ -0,0 +1,124 @@
+// Batch geocoding of provider rows that only have an address
+import { supabase } from '@/integrations/supabase/client';
+import { geocodeAddress, type GeocodingResult, type GeocodingSource } from './geocoding';
+import { devLog } from './logger';
+import type { GeocodeOverrides, PendingGeocodeRow } from './spreadsheet';
+
+export interface BatchGeocodeResult {
+  row: PendingGeocodeRow;
+  result: GeocodingResult | null;
+  error?: string;
+}
+
+export interface BatchGeocodeOptions {
+  onProgress?: (done: number, total: number, latest: BatchGeocodeResult) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Geocodes rows one at a time with the empresa's geocoders; the geocode edge function
+ * queues requests to each provider according to its rate limit.
+ * Stops early (returning what was done) when the signal is aborted.
+ */
+export async function batchGeocode(
+  rows: PendingGeocodeRow[],
+  empresaId: string,
+  options: BatchGeocodeOptions = {}
+): Promise<BatchGeocodeResult[]> {
+  const results: BatchGeocodeResult[] = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    if (options.signal?.aborted) break;
+
+    const row = rows[i];
+    let entry: BatchGeocodeResult;
+
+    try {
+      const result = await geocodeAddress(
+        row.address ?? '',
+        row.number ?? '',
+        row.neighborhood ?? '',
+        row.city,
+        row.state,
+        row.cep ?? '',
+        empresaId
+      );
+      entry = { row, result };
+    } catch (error) {
+      devLog.error(`Batch geocoding failed for row ${row.row}:`, error);
+      entry = {
+        row,
+        result: null,
+        error: error instanceof Error ? error.message : 'Erro ao geocodificar endereço.',
+      };
+    }
+
+    results.push(entry);
+    options.onProgress?.(i + 1, rows.length, entry);
+  }
+
+  return results;
+}
+
+/**
+ * Loads the coordinates admins accepted for the empresa's address-only rows.
+ * Failures degrade to no overrides, so the sheet still loads its geocoded rows.
+ */
+export async function fetchAcceptedGeocodes(empresaId: string): Promise<GeocodeOverrides> {
+  try {
+    const { data, error } = await supabase.functions.invoke('sync-locations', {
+      body: { action: 'list-geocodes', empresa_id: empresaId },
+    });
+
+    if (error || !data?.success || !Array.isArray(data.geocodes)) {
+      devLog.error('Error loading accepted geocodes:', error);
+      return {};
+    }
+
+    const overrides: GeocodeOverrides = {};
+    for (const geocode of data.geocodes as { address_key: string; latitude: number; longitude: number; search_used: string; provider: GeocodingSource | null }[]) {
+      overrides[geocode.address_key] = {
+        latitude: geocode.latitude,
+        longitude: geocode.longitude,
+        searchUsed: geocode.search_used,
+        provider: geocode.provider ?? undefined,
+      };
+    }
+    return overrides;
+  } catch (error) {
+    devLog.error('Error loading accepted geocodes:', error);
+    return {};
+  }
+}
+
+/**
+ * Stores geocodes accepted in the Admin review. Requires the validated admin secret.
+ */
+export async function saveAcceptedGeocodes(
+  empresaId: string,
+  adminSecret: string,
+  results: BatchGeocodeResult[]
+): Promise<void> {
+  const geocodes = results
+    .filter((entry): entry is BatchGeocodeResult & { result: GeocodingResult } => entry.result !== null)
+    .map(({ row, result }) => ({
+      address_key: row.addressKey,
+      latitude: result.lat,
+      longitude: result.lon,
+      search_used: result.searchUsed,
+      provider: result.provider,
+    }));
+
+  const { data, error } = await supabase.functions.invoke('sync-locations', {
+    body: {
+      action: 'save-geocodes',
+      empresa_id: empresaId,
+      admin_secret: adminSecret,
+      geocodes,
+    },
+  });
+
+  if (error || !data?.success) {
+    throw new Error('Não foi possível salvar as coordenadas.');
+  }
+}
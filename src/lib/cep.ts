@@ -0,0 +1,58 @@
+// CEP lookup in the browser: ViaCEP first, BrasilAPI as fallback
+import { devLog } from './logger';
+import { buildViaCepUrl, buildBrasilApiCepUrl } from './urlValidation';
+
+export interface CepAddress {
+  street: string;
+  neighborhood: string;
+  city: string;
+  /** UF, e.g. "SP" */
+  state: string;
+}
+
+const CEP_TIMEOUT_MS = 3000;
+
+async function fetchWithTimeout(url: string): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CEP_TIMEOUT_MS);
+  try {
+    return await fetch(url, { signal: controller.signal });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Finds the address of a CEP. Returns null when the CEP has not 8 digits,
+ * does not exist or both services are unavailable.
+ */
+export async function lookupCep(cep: string): Promise<CepAddress | null> {
+  const cleanCep = cep.replace(/\D/g, '');
+  if (cleanCep.length !== 8) {
+    return null;
+  }
+
+  try {
+    const response = await fetchWithTimeout(buildViaCepUrl(cleanCep));
+    if (response.ok) {
+      const data = await response.json();
+      if (!data.erro) {
+        return { street: data.logradouro || '', neighborhood: data.bairro || '', city: data.localidade || '', state: data.uf || '' };
+      }
+    }
+  } catch {
+    devLog.log('ViaCEP failed, trying BrasilAPI fallback');
+  }
+
+  try {
+    const response = await fetchWithTimeout(buildBrasilApiCepUrl(cleanCep));
+    if (response.ok) {
+      const data = await response.json();
+      return { street: data.street || '', neighborhood: data.neighborhood || '', city: data.city || '', state: data.state || '' };
+    }
+  } catch {
+    devLog.log('BrasilAPI fallback also failed');
+  }
+
+  return null;
+}
@@ -0,0 +1,166 @@
+/**
+ * Provider contact fields: Brazilian phone normalization and contact links.
+ */
+import type { LocationData } from './spreadsheet';
+
+export interface PhoneParseResult {
+  /** National digits (DDD + number), or the full number for 0800-style lines; null when invalid */
+  digits: string | null;
+  error?: string;
+}
+
+export interface PhoneListParseResult {
+  phones: string[];
+  /** Entries that are not valid phone numbers, as written */
+  invalid: { value: string; error: string }[];
+}
+
+export interface LocationContacts {
+  phones: string[];
+  whatsapp?: string;
+  email?: string;
+}
+
+// Several numbers may share a cell: "(11) 3333-4444 / (11) 98888-7777"
+const PHONE_SEPARATOR = /[/;,|]|\s+ou\s+/i;
+
+// Toll-free and shared-cost lines have no DDD
+const NON_GEOGRAPHIC_PREFIX = /^0[3589]00/;
+
+// Cells that mark the phone number itself as WhatsApp
+const AFFIRMATIVE_VALUES = ['sim', 's', 'x', 'yes'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Normalizes a Brazilian phone number to DDD + number.
+ * Accepts the +55 country code and the 0 trunk prefix, and adds the 9th digit
+ * to mobile numbers still written with 8 digits.
+ */
+export function normalizeBrazilianPhone(raw: string): PhoneParseResult {
+  let digits = raw.replace(/\D/g, '');
+
+  if (!digits) {
+    return { digits: null, error: 'Telefone vazio' };
+  }
+
+  if (NON_GEOGRAPHIC_PREFIX.test(digits)) {
+    return digits.length === 11
+      ? { digits }
+      : { digits: null, error: 'Número 0800 deve conter 11 dígitos' };
+  }
+
+  if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) {
+    digits = digits.slice(2);
+  }
+  if ((digits.length === 11 || digits.length === 12) && digits.startsWith('0')) {
+    digits = digits.slice(1);
+  }
+
+  if (digits.length === 8 || digits.length === 9) {
+    return { digits: null, error: 'Telefone sem DDD' };
+  }
+
+  if (digits.length !== 10 && digits.length !== 11) {
+    return { digits: null, error: 'Telefone deve conter DDD e 8 ou 9 dígitos' };
+  }
+
+  if (!/^[1-9]{2}/.test(digits)) {
+    return { digits: null, error: 'DDD inválido' };
+  }
+
+  const local = digits.slice(2);
+  if (local.length === 9) {
+    return local.startsWith('9')
+      ? { digits }
+      : { digits: null, error: 'Celular com 9 dígitos deve começar com 9' };
+  }
+
+  // Mobile numbers (starting with 6-9) gained a leading 9 in every DDD
+  if (/^[6-9]/.test(local)) {
+    return { digits: `${digits.slice(0, 2)}9${local}` };
+  }
+
+  return /^[2-5]/.test(local)
+    ? { digits }
+    : { digits: null, error: 'Telefone fixo inválido' };
+}
+
+/**
+ * Parses a cell that may hold several phone numbers.
+ */
+export function parsePhoneList(raw: string | undefined): PhoneListParseResult {
+  const phones: string[] = [];
+  const invalid: PhoneListParseResult['invalid'] = [];
+
+  for (const value of (raw ?? '').split(PHONE_SEPARATOR).map(part => part.trim()).filter(Boolean)) {
+    const { digits, error } = normalizeBrazilianPhone(value);
+    if (!digits) {
+      invalid.push({ value, error: error ?? 'Telefone inválido' });
+    } else if (!phones.includes(digits)) {
+      phones.push(digits);
+    }
+  }
+
+  return { phones, invalid };
+}
+
+/**
+ * Formats normalized digits for display, e.g. "(11) 98765-4321" or "0800 123 4567".
+ */
+export function formatBrazilianPhone(digits: string): string {
+  if (NON_GEOGRAPHIC_PREFIX.test(digits)) {
+    return `${digits.slice(0, 4)} ${digits.slice(4, 7)} ${digits.slice(7)}`;
+  }
+  const local = digits.slice(2);
+  const split = local.length - 4;
+  return `(${digits.slice(0, 2)}) ${local.slice(0, split)}-${local.slice(split)}`;
+}
+
+export function isValidEmail(raw: string): boolean {
+  return EMAIL_PATTERN.test(raw.trim());
+}
+
+/**
+ * Checks whether a WhatsApp cell means "the phone number is WhatsApp" rather than holding a number.
+ */
+export function isAffirmativeWhatsApp(raw: string): boolean {
+  return AFFIRMATIVE_VALUES.includes(raw.trim().toLowerCase());
+}
+
+/**
+ * Resolves a location's contact columns into valid, normalized values.
+ * Invalid entries are dropped (they are reported when the sheet is imported).
+ */
+export function getLocationContacts(location: Pick<LocationData, 'phone' | 'whatsapp' | 'email'>): LocationContacts {
+  const { phones } = parsePhoneList(location.phone);
+
+  let whatsapp: string | undefined;
+  if (location.whatsapp && isAffirmativeWhatsApp(location.whatsapp)) {
+    // Prefer a mobile number when the cell lists several
+    const geographic = phones.filter(phone => !NON_GEOGRAPHIC_PREFIX.test(phone));
+    whatsapp = geographic.find(phone => phone.length === 11) ?? geographic[0];
+  } else if (location.whatsapp) {
+    whatsapp = parsePhoneList(location.whatsapp).phones.find(phone => !NON_GEOGRAPHIC_PREFIX.test(phone));
+  }
+
+  const email = location.email?.trim();
+
+  return {
+    phones,
+    whatsapp,
+    email: email && isValidEmail(email) ? email : undefined,
+  };
+}
+
+export function buildTelUrl(digits: string): string {
+  return NON_GEOGRAPHIC_PREFIX.test(digits) ? `tel:${digits}` : `tel:+55${digits}`;
+}
+
+export function buildWhatsAppUrl(digits: string, message: string): string {
+  return `https://wa.me/55${digits}?text=${encodeURIComponent(message)}`;
+}
+
+export function buildMailtoUrl(email: string, subject: string): string {
+  return `mailto:${email}?subject=${encodeURIComponent(subject)}`;
+}
@@ -1,84 +1,32 @@
-// Minimal CSV parser that supports:
-// - comma delimiter
-// - quoted fields
-// - escaped quotes ("")
-// - CRLF/LF newlines
-// Keeps everything as strings.
-
-export function parseCSV(text: string): string[][] {
-  const input = (text ?? '').replace(/^\uFEFF/, ''); // strip BOM
-
-  const rows: string[][] = [];
-  let row: string[] = [];
-  let field = '';
-  let inQuotes = false;
-
-  const pushField = () => {
-    row.push(field);
-    field = '';
-  };
-
-  const pushRow = () => {
-    // Ignore completely empty trailing rows
-    if (row.length === 1 && row[0] === '') {
-      row = [];
-      return;
+import type { CsvDelimiter } from '../../supabase/functions/_shared/csv.ts';
+
+export { detectDelimiter, parseCSV, type CsvDelimiter, type ParseCSVOptions } from '../../supabase/functions/_shared/csv.ts';
+
+/**
+ * Serializes rows to CSV text, quoting fields that contain the delimiter,
+ * quotes or line breaks. Defaults to semicolon, which Excel pt-BR opens as columns.
+ */
+export function toCSV(rows: string[][], delimiter: CsvDelimiter = ';'): string {
+  const escapeField = (field: string) => {
+    if (field.includes(delimiter) || field.includes('"') || field.includes('\n') || field.includes('\r')) {
+      return `"${field.replace(/"/g, '""')}"`;
     }
-    rows.push(row);
-    row = [];
+    return field;
   };
 
-  for (let i = 0; i < input.length; i++) {
-    const char = input[i];
-
-    if (inQuotes) {
-      if (char === '"') {
-        const next = input[i + 1];
-        // Escaped quote
-        if (next === '"') {
-          field += '"';
-          i++;
-          continue;
-        }
-        inQuotes = false;
-        continue;
-      }
-
-      field += char;
-      continue;
-    }
-
-    if (char === '"') {
-      inQuotes = true;
-      continue;
-    }
-
-    if (char === ',') {
-      pushField();
-      continue;
-    }
-
-    if (char === '\n') {
-      pushField();
-      pushRow();
-      continue;
-    }
-
-    if (char === '\r') {
-      // Handle CRLF by consuming the next \n
-      const next = input[i + 1];
-      if (next === '\n') i++;
-      pushField();
-      pushRow();
-      continue;
-    }
-
-    field += char;
-  }
-
-  // flush last field/row
-  pushField();
-  if (row.length > 0) pushRow();
+  return rows.map(row => row.map(escapeField).join(delimiter)).join('\n');
+}
 
-  return rows;
+/**
+ * Triggers a browser download of CSV text.
+ * Prepends a BOM so Excel detects UTF-8 and keeps accents intact.
+ */
+export function downloadCSV(csvContent: string, fileName: string): void {
+  const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 }
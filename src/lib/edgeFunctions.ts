@@ -0,0 +1,45 @@
+// Helpers shared by the clients of the Supabase edge functions
+
+/**
+ * An edge function refused the call for exceeding its rate limit (HTTP 429)
+ * or for being too busy to take it right now (HTTP 503).
+ */
+export class RateLimitError extends Error {
+  /** Delay the function asked for (Retry-After), or null when it sent none */
+  readonly retryAfterSeconds: number | null;
+
+  constructor(message: string, retryAfterSeconds: number | null) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+function getErrorResponse(error: unknown): Response | null {
+  const context = (error as { context?: unknown })?.context;
+  return context instanceof Response ? context : null;
+}
+
+/**
+ * Wraps a 429 or 503 response in a RateLimitError with the given message; null for other errors.
+ */
+export function getRateLimitError(error: unknown, message: string): RateLimitError | null {
+  const response = getErrorResponse(error);
+  if (response?.status !== 429 && response?.status !== 503) return null;
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return new RateLimitError(message, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null);
+}
+
+/**
+ * Extracts the error message sent by an edge function in a non-2xx response.
+ */
+export async function getFunctionErrorMessage(error: unknown): Promise<string | null> {
+  const context = getErrorResponse(error);
+  if (!context) return null;
+  try {
+    const body = await context.clone().json();
+    return typeof body?.error === 'string' ? body.error : null;
+  } catch {
+    return null;
+  }
+}
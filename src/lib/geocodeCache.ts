@@ -0,0 +1,22 @@
+// Shared geocoding cache statistics; the geocode edge function reads and fills the cache itself
+import { supabase } from '@/integrations/supabase/client';
+
+export interface GeocodeCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Loads the empresa's cache hit/miss counters. Requires the validated admin secret.
+ */
+export async function fetchGeocodeCacheStats(empresaId: string, adminSecret: string): Promise<GeocodeCacheStats> {
+  const { data, error } = await supabase.functions.invoke('geocode-cache', {
+    body: { action: 'stats', empresa_id: empresaId, admin_secret: adminSecret },
+  });
+
+  if (error || !data?.success) {
+    throw new Error('Não foi possível carregar as estatísticas do cache.');
+  }
+
+  return { hits: Number(data.hits), misses: Number(data.misses) };
+}
@@ -1,273 +1,210 @@
-// Geocoding utilities - Nominatim (OpenStreetMap) exclusive
+// Geocoding utilities - the geocode edge function queries the providers (Nominatim, Photon,
+// self-hosted Nominatim) and the shared cache; the browser never calls them directly
+import { supabase } from '@/integrations/supabase/client';
 import { devLog } from './logger';
+import { buildAddressKey } from './spreadsheet';
+import { getFunctionErrorMessage, getRateLimitError } from './edgeFunctions';
+import { normalizeAddress } from './addressNormalization';
 
-export interface GeocodingResult {
-  lat: number;
-  lon: number;
-  searchUsed: string; // Describes what search strategy was used
-}
-
-interface NominatimAddress {
-  suburb?: string;
-  neighbourhood?: string;
-  city?: string;
-  town?: string;
-  municipality?: string;
-  state?: string;
-  country?: string;
-}
-
-interface NominatimResponse {
-  lat: string;
-  lon: string;
-  display_name: string;
-  address?: NominatimAddress;
-}
-
-// Normalize strings for comparison (remove accents, lowercase)
-function normalizeString(str: string): string {
-  return str
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '');
-}
-
-// Simple in-memory cache for geocoding results
-const geocodingCache = new Map<string, GeocodingResult>();
+export type GeocoderId = 'nominatim' | 'photon' | 'self-hosted';
 
 /**
- * Fetch with exponential backoff retry for 429/503 responses.
- * Retries up to 3 times with delays of 1s, 2s, 4s.
+ * Per-empresa geocoder selection (empresas.geocoder_config), applied by the geocode edge function.
  */
-async function fetchWithRetry(url: string, options?: RequestInit, maxRetries = 3): Promise<Response> {
-  let lastError: Error | null = null;
+export interface GeocoderConfig {
+  /** Providers tried in this order for each search strategy */
+  order: GeocoderId[];
+  /** HTTPS base URL of the empresa's own Nominatim server, used by 'self-hosted' */
+  selfHostedUrl?: string;
+}
 
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    const response = await fetch(url, options);
+export const DEFAULT_GEOCODER_CONFIG: GeocoderConfig = { order: ['nominatim'] };
 
-    if (response.status === 429 || response.status === 503) {
-      const delayMs = Math.pow(2, attempt) * 1000; // 1s, 2s, 4s
-      devLog.log(`Geocoding: status ${response.status}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries})`);
-      await new Promise(resolve => setTimeout(resolve, delayMs));
-      lastError = new Error(`Serviço de geocodificação ocupado (HTTP ${response.status})`);
-      continue;
-    }
+export const GEOCODER_LABELS: Record<GeocoderId, string> = {
+  nominatim: 'Nominatim (OpenStreetMap)',
+  photon: 'Photon (Komoot)',
+  'self-hosted': 'Nominatim próprio',
+};
 
-    return response;
-  }
+/** Service that produced a result: a configurable geocoder, or BrasilAPI for CEP lookups */
+export type GeocodingSource = GeocoderId | 'brasilapi';
 
-  throw lastError || new Error('Serviço de geocodificação ocupado. Tente novamente em alguns segundos.');
-}
+export const GEOCODING_SOURCE_LABELS: Record<GeocodingSource, string> = {
+  ...GEOCODER_LABELS,
+  brasilapi: 'BrasilAPI (CEP)',
+};
 
 /**
- * Structured geocoding using Nominatim's structured query parameters.
- * This ensures results are restricted to the correct city/state.
+ * How precisely the coordinates locate the searched address, from finest to coarsest.
  */
-async function tryStructuredGeocode(params: {
-  street?: string;
-  city: string;
-  state: string;
-  country?: string;
-}): Promise<{ lat: number; lon: number } | null> {
-  try {
-    const searchParams = new URLSearchParams({
-      format: 'json',
-      limit: '1',
-      countrycodes: 'br',
-    });
-
-    if (params.street) {
-      searchParams.set('street', params.street);
-    }
-    searchParams.set('city', params.city);
-    searchParams.set('state', params.state);
-    if (params.country) {
-      searchParams.set('country', params.country);
-    }
-
-    const url = `https://nominatim.openstreetmap.org/search?${searchParams}`;
+export type GeocodingPrecision = 'rooftop' | 'street' | 'neighborhood' | 'cep' | 'city';
 
-    const response = await fetchWithRetry(url, {
-      headers: {
-        'User-Agent': 'LocalizAI/1.0',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Erro ao conectar com o serviço de geocodificação');
-    }
-
-    const data: NominatimResponse[] = await response.json();
-
-    if (data.length === 0) {
-      return null;
-    }
+/**
+ * Typical distance between the returned point and the real address, in meters.
+ * Grows with GeocodingPrecision: a CEP centroid is the fallback after the neighborhood
+ * search, and generic CEPs cover a whole district or small town.
+ */
+export const PRECISION_ERROR_RADIUS_M: Record<GeocodingPrecision, number> = {
+  rooftop: 30,
+  street: 300,
+  neighborhood: 1500,
+  cep: 2500,
+  city: 10000,
+};
+
+export const PRECISION_LABELS: Record<GeocodingPrecision, string> = {
+  rooftop: 'endereço exato',
+  street: 'rua',
+  neighborhood: 'bairro',
+  cep: 'centro do CEP',
+  city: 'centro da cidade',
+};
 
-    // Structured query already constrains results to the correct city/state,
-    // so we trust the result without additional display_name validation
-    // (which caused false negatives due to accent/abbreviation mismatches).
-    devLog.log(`Structured geocode result: ${data[0].display_name}`);
+export interface GeocodingResult {
+  lat: number;
+  lon: number;
+  searchUsed: string; // Describes what search strategy was used
+  provider: GeocodingSource; // Backend that produced the coordinates
+  precision: GeocodingPrecision;
+  errorRadiusMeters: number;
+  /**
+   * Ranked places the address matched, set only when they are distinct
+   * (e.g. the same street name in two neighborhoods). The first one is this result.
+   */
+  candidates?: GeocodingCandidate[];
+}
 
-    return {
-      lat: parseFloat(data[0].lat),
-      lon: parseFloat(data[0].lon),
-    };
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('ocupado')) {
-      throw error;
-    }
-    devLog.error('Structured geocoding error:', error);
-    return null;
-  }
+export interface GeocodingCandidate {
+  lat: number;
+  lon: number;
+  /** Provider's description of the place, shown to the user to pick from */
+  displayName: string;
+  precision: GeocodingPrecision;
+  errorRadiusMeters: number;
 }
 
+// Strategy labels stored before precision was recorded
+const SEARCH_USED_PRECISION: Record<string, GeocodingPrecision> = {
+  'endereço completo': 'rooftop',
+  'endereço sem número': 'street',
+  'busca textual': 'neighborhood',
+  'centro do CEP': 'cep',
+  'apenas cidade': 'city',
+};
+
 /**
- * Free-text geocoding as a fallback option.
- * Used only when structured queries fail.
- * Uses addressdetails=1 for structured validation of city/state.
+ * Infers the precision of a stored result from its strategy label.
+ * Unknown labels are treated as the coarsest level.
  */
-async function tryFreeTextGeocode(query: string, city?: string, state?: string): Promise<{ lat: number; lon: number } | null> {
-  try {
-    const encodedQuery = encodeURIComponent(query);
-    const url = `https://nominatim.openstreetmap.org/search?format=json&q=${encodedQuery}&countrycodes=br&limit=5&addressdetails=1`;
-
-    const response = await fetchWithRetry(url, {
-      headers: {
-        'User-Agent': 'LocalizAI/1.0',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Erro ao conectar com o serviço de geocodificação');
-    }
+export function precisionFromSearchUsed(searchUsed: string): GeocodingPrecision {
+  return SEARCH_USED_PRECISION[searchUsed] ?? 'city';
+}
 
-    const data: NominatimResponse[] = await response.json();
+export function isGeocodingPrecision(value: unknown): value is GeocodingPrecision {
+  return typeof value === 'string' && value in PRECISION_ERROR_RADIUS_M;
+}
 
-    if (data.length === 0) {
-      return null;
-    }
+/** Address fields found for a point, used to fill the search form */
+export interface ReverseGeocodeAddress {
+  street: string;
+  neighborhood: string;
+  city: string;
+  /** Full state name */
+  state: string;
+  /** Postcode as the provider wrote it, or '' */
+  cep: string;
+}
 
-    // If we have city/state context, try to find a result matching city/state
-    // Use relaxed matching (contains) to handle accent/abbreviation differences
-    if (city && state) {
-      const normalizedCity = normalizeString(city);
-      const normalizedState = normalizeString(state);
+interface GeocodeResponse {
+  lat: number;
+  lon: number;
+  searchUsed: string;
+  provider: GeocodingSource;
+  /** NULL for cache entries stored before precision was recorded */
+  precision: GeocodingPrecision | null;
+  candidates?: Omit<GeocodingCandidate, 'errorRadiusMeters'>[];
+}
 
-      for (const result of data) {
-        if (!result.address) continue;
+// In-memory cache in front of the server, for repeated searches in this session
+const geocodingCache = new Map<string, GeocodingResult>();
 
-        const resultCity = result.address.city || 
-                           result.address.town || 
-                           result.address.municipality;
-        const resultState = result.address.state;
+/**
+ * Calls the geocode edge function, turning error responses into user-facing messages.
+ * Rate-limited and busy responses throw a RateLimitError, so batch callers can wait and retry.
+ */
+async function invokeGeocode<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('geocode', { body });
 
-        if (resultCity && resultState) {
-          const normResultCity = normalizeString(resultCity);
-          const normResultState = normalizeString(resultState);
-          // Use contains-based matching to handle partial names and abbreviations
-          const cityMatch = normResultCity.includes(normalizedCity) || normalizedCity.includes(normResultCity);
-          const stateMatch = normResultState.includes(normalizedState) || normalizedState.includes(normResultState);
+  if (error) {
+    devLog.error('Error calling geocode:', error);
+    const message = (await getFunctionErrorMessage(error)) || 'Erro ao conectar com o serviço de geocodificação';
+    throw getRateLimitError(error, message) ?? new Error(message);
+  }
 
-          if (cityMatch && stateMatch) {
-            return {
-              lat: parseFloat(result.lat),
-              lon: parseFloat(result.lon),
-            };
-          }
-        }
-      }
-      // If no structured match, still use first result since the query already included city/state
-      devLog.log('Free-text: no structured address match, using first result');
-      return {
-        lat: parseFloat(data[0].lat),
-        lon: parseFloat(data[0].lon),
-      };
-    }
+  return data as T;
+}
 
-    // Fall back to first result if no validation needed
-    return {
-      lat: parseFloat(data[0].lat),
-      lon: parseFloat(data[0].lon),
-    };
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('ocupado')) {
-      throw error;
-    }
-    devLog.error('Free-text geocoding error:', error);
-    return null;
-  }
+function withErrorRadius<T extends { precision: GeocodingPrecision }>(place: T): T & { errorRadiusMeters: number } {
+  return { ...place, errorRadiusMeters: PRECISION_ERROR_RADIUS_M[place.precision] };
 }
 
+/**
+ * Geocodes an address with the empresa's geocoders. The street and number are normalized
+ * first (abbreviations, complements, highway km); the server then tries a structured
+ * street search, free text, the CEP and the city alone, and shares results in its cache.
+ */
 export async function geocodeAddress(
   street: string,
   number: string,
   neighborhood: string,
   city: string,
-  state: string
+  state: string,
+  cep: string,
+  empresaId: string
 ): Promise<GeocodingResult | null> {
-  // Build full address string for cache key
-  const fullAddress = `${street}, ${number}, ${neighborhood}, ${city}, ${state}, Brasil`;
+  const normalized = normalizeAddress(street, number);
+  const cacheKey = buildAddressKey({ address: normalized.street, number: normalized.number, neighborhood, city, state, cep });
 
-  // Check cache first
-  const cacheKey = fullAddress.toLowerCase().trim();
   if (geocodingCache.has(cacheKey)) {
     devLog.log('Cache hit for:', cacheKey);
     return geocodingCache.get(cacheKey)!;
   }
 
-  let result: { lat: number; lon: number } | null = null;
-  let searchUsed = '';
-
-  // Strategy 1: Structured geocode with street (sequential to respect Nominatim rate-limit)
-  if (street) {
-    const streetQuery = number ? `${number} ${street}` : street;
-    result = await tryStructuredGeocode({
-      street: streetQuery,
-      city,
-      state,
-      country: 'Brasil',
-    });
-    if (result) {
-      searchUsed = number ? 'endereço completo' : 'endereço sem número';
-    }
-  }
-
-  // Respect Nominatim's 1 req/s policy between strategies
-  // Strategy 2 (fallback): Free-text with full address
-  if (!result) {
-    // Wait 1.1s to respect Nominatim rate-limit (1 req/s)
-    if (street) {
-      await new Promise(resolve => setTimeout(resolve, 1100));
-    }
-    const parts = [street, number, neighborhood, city, state, 'Brasil'].filter(Boolean);
-    const freeTextQuery = parts.join(', ');
-    result = await tryFreeTextGeocode(freeTextQuery, city, state);
-    if (result) {
-      searchUsed = 'busca textual';
-    }
+  const data = await invokeGeocode<{ result: GeocodeResponse | null }>({
+    action: 'search',
+    empresaId,
+    street: normalized.street,
+    number: normalized.number,
+    neighborhood,
+    city,
+    state,
+    cep,
+  });
+
+  if (!data?.result) {
+    return null;
   }
 
-  // Strategy 3 (last resort): Just city + state
-  if (!result) {
-    await new Promise(resolve => setTimeout(resolve, 1100));
-    result = await tryStructuredGeocode({
-      city,
-      state,
-      country: 'Brasil',
-    });
-    if (result) {
-      searchUsed = 'apenas cidade';
-    }
-  }
+  const { precision, candidates, ...result } = data.result;
+  const geocodingResult: GeocodingResult = withErrorRadius({
+    ...result,
+    precision: isGeocodingPrecision(precision) ? precision : precisionFromSearchUsed(result.searchUsed),
+    candidates: candidates?.map(withErrorRadius),
+  });
 
-  if (result) {
-    const geocodingResult: GeocodingResult = {
-      ...result,
-      searchUsed,
-    };
-    geocodingCache.set(cacheKey, geocodingResult);
-    return geocodingResult;
-  }
+  geocodingCache.set(cacheKey, geocodingResult);
+  return geocodingResult;
+}
 
-  return null;
+/**
+ * Finds the address at a point (e.g. the user's current location).
+ */
+export async function reverseGeocode(lat: number, lon: number, empresaId: string): Promise<ReverseGeocodeAddress | null> {
+  const data = await invokeGeocode<{ address: ReverseGeocodeAddress | null }>({
+    action: 'reverse',
+    empresaId,
+    latitude: lat,
+    longitude: lon,
+  });
+  return data?.address ?? null;
 }
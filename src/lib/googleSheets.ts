@@ -2,6 +2,18 @@
  * Utilities for Google Sheets integration
  */
 import { isAllowedUrl } from '@/lib/urlValidation';
+import type { ColumnMapping, LocationField } from '@/lib/spreadsheet';
+
+/**
+ * A worksheet (tab) of a Google Sheets workbook, identified by its gid.
+ */
+export interface SheetTab {
+  gid: string;
+  name: string;
+}
+
+/** Tab read when the empresa has not selected any (the workbook's first tab) */
+export const DEFAULT_SHEET_TAB: SheetTab = { gid: '0', name: '' };
 
 /**
  * Extracts the CSV export URL from a Google Sheets URL
@@ -10,13 +22,21 @@ import { isAllowedUrl } from '@/lib/urlValidation';
  * - Published HTML URL: /pubhtml or /pub
  * - Edit URL: /edit or /view
  * - Direct spreadsheet URL with ID
+ * When gid is given, the URL points to that tab instead of the first one.
  */
-export function extractGoogleSheetsCsvUrl(url: string): string | null {
+export function extractGoogleSheetsCsvUrl(url: string, gid?: string): string | null {
   if (!url) return null;
   
   // If it's already a CSV export URL, return as-is
   if (url.includes('output=csv')) {
-    return url;
+    if (!gid) return url;
+    try {
+      const csvUrl = new URL(url);
+      csvUrl.searchParams.set('gid', gid);
+      return csvUrl.toString();
+    } catch {
+      return null;
+    }
   }
   
   // Try to extract the spreadsheet ID
@@ -40,13 +60,15 @@ export function extractGoogleSheetsCsvUrl(url: string): string | null {
     return null;
   }
   
+  const tabGid = encodeURIComponent(gid ?? DEFAULT_SHEET_TAB.gid);
+
   // Check if it's a published spreadsheet (2PACX format)
   if (spreadsheetId.startsWith('2PACX')) {
-    return `https://docs.google.com/spreadsheets/d/e/${spreadsheetId}/pub?gid=0&single=true&output=csv`;
+    return `https://docs.google.com/spreadsheets/d/e/${spreadsheetId}/pub?gid=${tabGid}&single=true&output=csv`;
   }
   
   // Standard spreadsheet ID
-  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv&gid=0`;
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv&gid=${tabGid}`;
 }
 
 /**
@@ -68,8 +90,8 @@ export function isValidGoogleSheetsUrl(url: string): boolean {
  * Fetches and validates a Google Sheets CSV
  * Returns the CSV content if valid, or throws an error with details
  */
-export async function fetchGoogleSheetsCsv(url: string): Promise<string> {
-  const csvUrl = extractGoogleSheetsCsvUrl(url);
+export async function fetchGoogleSheetsCsv(url: string, gid?: string): Promise<string> {
+  const csvUrl = extractGoogleSheetsCsvUrl(url, gid);
   
   if (!csvUrl) {
     throw new Error('URL inválida do Google Sheets. Verifique se o link está correto.');
@@ -105,30 +127,39 @@ export async function fetchGoogleSheetsCsv(url: string): Promise<string> {
 }
 
 /**
- * Validates if the CSV has the required columns for the application
+ * Validates if the CSV has the required columns for the application.
+ * Headers chosen in the empresa's column mapping count as found.
  */
-export function validateRequiredColumns(headers: string[]): { valid: boolean; missing: string[] } {
-  const normalizedHeaders = headers.map(h => 
-    h.toLowerCase()
+export function validateRequiredColumns(
+  headers: string[],
+  columnMapping?: ColumnMapping | null
+): { valid: boolean; missing: string[] } {
+  const normalize = (value: string) =>
+    value.toLowerCase()
       .normalize('NFD')
       .replace(/[\u0300-\u036f]/g, '')
-      .trim()
-  );
+      .trim();
+  const normalizedHeaders = headers.map(normalize);
   
-  const requiredMappings = {
-    nome: ['nome do local', 'nome', 'local', 'name', 'nome_clinica', 'clinica'],
-    latitude: ['latitude', 'lat'],
-    longitude: ['longitude', 'lon', 'long', 'lng'],
+  const requiredMappings: Record<string, { field: LocationField; aliases: string[] }> = {
+    nome: { field: 'name', aliases: ['nome do local', 'nome', 'local', 'name', 'nome_clinica', 'clinica'] },
+    latitude: { field: 'latitude', aliases: ['latitude', 'lat'] },
+    longitude: { field: 'longitude', aliases: ['longitude', 'lon', 'long', 'lng'] },
   };
   
   const missing: string[] = [];
   
-  for (const [field, aliases] of Object.entries(requiredMappings)) {
+  for (const [label, { field, aliases }] of Object.entries(requiredMappings)) {
+    const mappedHeader = columnMapping?.[field];
+    if (mappedHeader && normalizedHeaders.includes(normalize(mappedHeader))) {
+      continue;
+    }
+
     const found = aliases.some(alias => 
       normalizedHeaders.some(h => h.includes(alias) || alias.includes(h))
     );
     if (!found) {
-      missing.push(field);
+      missing.push(label);
     }
   }
   
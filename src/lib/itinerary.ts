@@ -0,0 +1,124 @@
+// Visit itinerary: the order in which to visit several providers in one trip from a start
+// point, e.g. an auditor going through a few clinics in the same day
+import { fetchRouteMatrix, DEFAULT_TRAVEL_MODE, type RouteSource, type TravelMode } from './routing';
+
+export interface ItineraryPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ItineraryStop extends ItineraryPoint {
+  name: string;
+  /** Full address, used in the directions link */
+  address: string;
+}
+
+export interface ItineraryLeg {
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+export interface Itinerary {
+  /** Stops in visiting order */
+  stops: ItineraryStop[];
+  /** legs[i] arrives at stops[i]; with returnToStart, the extra last leg goes back to the start */
+  legs: ItineraryLeg[];
+  totalDistanceKm: number;
+  totalDurationMinutes: number;
+  returnToStart: boolean;
+  travelMode: TravelMode;
+  source: RouteSource;
+  /** True when at least one leg is a straight-line estimate */
+  estimated: boolean;
+}
+
+// Google Maps directions links take up to 9 waypoints
+export const MAX_ITINERARY_STOPS = 9;
+
+function routeCost(cost: number[][], order: number[], returnToStart: boolean): number {
+  let total = 0;
+  let previous = 0;
+  for (const node of order) {
+    total += cost[previous][node];
+    previous = node;
+  }
+  return returnToStart ? total + cost[previous][0] : total;
+}
+
+/**
+ * Orders the stops of a cost matrix whose index 0 is the start: nearest neighbour from the
+ * start, then 2-opt segment reversals while any of them shortens the route. Each candidate
+ * order is costed in full, so asymmetric matrices (one-way streets) are handled.
+ * Returns the matrix indices of the stops, in visiting order.
+ */
+export function optimizeVisitOrder(cost: number[][], returnToStart: boolean): number[] {
+  const remaining = new Set(cost.map((_, index) => index).slice(1));
+  let order: number[] = [];
+  let current = 0;
+
+  while (remaining.size > 0) {
+    let next = -1;
+    for (const candidate of remaining) {
+      if (next === -1 || cost[current][candidate] < cost[current][next]) next = candidate;
+    }
+    order.push(next);
+    remaining.delete(next);
+    current = next;
+  }
+
+  let bestCost = routeCost(cost, order, returnToStart);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const candidateCost = routeCost(cost, candidate, returnToStart);
+        // The tolerance keeps rounding noise from swapping equivalent orders forever
+        if (candidateCost < bestCost - 1e-9) {
+          order = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Plans the visit of the stops from the start point, minimizing the total travel time.
+ */
+export async function planItinerary(
+  start: ItineraryPoint,
+  stops: ItineraryStop[],
+  empresaId: string,
+  options: { travelMode?: TravelMode; returnToStart?: boolean } = {}
+): Promise<Itinerary> {
+  if (stops.length === 0 || stops.length > MAX_ITINERARY_STOPS) {
+    throw new Error(`Selecione de 1 a ${MAX_ITINERARY_STOPS} locais para o roteiro.`);
+  }
+
+  const travelMode = options.travelMode ?? DEFAULT_TRAVEL_MODE;
+  const returnToStart = options.returnToStart ?? false;
+  const matrix = await fetchRouteMatrix([start, ...stops], empresaId, travelMode);
+  const order = optimizeVisitOrder(matrix.durationsMinutes, returnToStart);
+
+  const path = returnToStart ? [0, ...order, 0] : [0, ...order];
+  const legs = path.slice(1).map((to, index) => ({
+    distanceKm: matrix.distancesKm[path[index]][to],
+    durationMinutes: matrix.durationsMinutes[path[index]][to],
+  }));
+
+  return {
+    stops: order.map(index => stops[index - 1]),
+    legs,
+    totalDistanceKm: legs.reduce((total, leg) => total + leg.distanceKm, 0),
+    totalDurationMinutes: legs.reduce((total, leg) => total + leg.durationMinutes, 0),
+    returnToStart,
+    travelMode,
+    source: matrix.source,
+    estimated: matrix.estimated,
+  };
+}
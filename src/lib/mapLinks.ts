@@ -0,0 +1,56 @@
+// Directions links to navigation apps, opened from a result or an itinerary
+import type { TravelMode } from './routing';
+
+// Google Maps "travelmode" parameter
+const GOOGLE_TRAVEL_MODES: Record<TravelMode, string> = {
+  driving: 'driving',
+  walking: 'walking',
+  cycling: 'bicycling',
+};
+
+// Apple Maps "dirflg" parameter; Apple Maps has no cycling directions, so cycling opens walking
+const APPLE_DIRECTION_FLAGS: Record<TravelMode, string> = {
+  driving: 'd',
+  walking: 'w',
+  cycling: 'w',
+};
+
+export function buildGoogleMapsUrl(destination: string, travelMode: TravelMode, origin?: string): string {
+  const base = 'https://www.google.com/maps/dir/?api=1';
+  const dest = encodeURIComponent(destination + ', Brasil');
+  const originParam = origin ? `&origin=${encodeURIComponent(origin)}` : '';
+  return `${base}${originParam}&destination=${dest}&travelmode=${GOOGLE_TRAVEL_MODES[travelMode]}`;
+}
+
+export function buildWazeUrl(destination: string, lat?: number, lon?: number): string {
+  if (lat !== undefined && lon !== undefined) {
+    return `waze://?ll=${lat},${lon}&navigate=yes`;
+  }
+  return `waze://?q=${encodeURIComponent(destination + ', Brasil')}`;
+}
+
+export function buildAppleMapsUrl(destination: string, travelMode: TravelMode, lat?: number, lon?: number): string {
+  const dirflg = APPLE_DIRECTION_FLAGS[travelMode];
+  if (lat !== undefined && lon !== undefined) {
+    return `maps://?daddr=${lat},${lon}&dirflg=${dirflg}`;
+  }
+  return `maps://?daddr=${encodeURIComponent(destination + ', Brasil')}&dirflg=${dirflg}`;
+}
+
+/**
+ * Google Maps directions through several stops, in the given order. The last stop is the
+ * destination, or the origin when the route returns to it; the other stops are waypoints.
+ */
+export function buildGoogleMapsItineraryUrl(
+  stops: string[],
+  travelMode: TravelMode,
+  origin: string,
+  returnToStart: boolean
+): string {
+  const places = stops.map(stop => stop + ', Brasil');
+  const destination = returnToStart ? origin : places[places.length - 1];
+  const waypoints = returnToStart ? places : places.slice(0, -1);
+  const base = 'https://www.google.com/maps/dir/?api=1';
+  const waypointsParam = waypoints.length > 0 ? `&waypoints=${encodeURIComponent(waypoints.join('|'))}` : '';
+  return `${base}&origin=${encodeURIComponent(origin)}&destination=${encodeURIComponent(destination)}${waypointsParam}&travelmode=${GOOGLE_TRAVEL_MODES[travelMode]}`;
+}
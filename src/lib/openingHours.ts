@@ -0,0 +1,2 @@
+// The schedule format is shared with calculate-routes, which filters providers open at a given time
+export * from '../../supabase/functions/_shared/openingHours.ts';
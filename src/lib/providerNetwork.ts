@@ -0,0 +1,77 @@
+// The empresa's provider network as synced into the locations table by sync-locations,
+// read by the search page instead of downloading the Google Sheet
+import { supabase } from '@/integrations/supabase/client';
+import { devLog } from './logger';
+import { getFunctionErrorMessage } from './edgeFunctions';
+
+/** One tab of the workbook (one network) and what its providers offer */
+export interface NetworkSummary {
+  gid: string;
+  /** Tab name, or '' for the default tab */
+  name: string;
+  count: number;
+  /** Service ids offered by at least one provider of the tab */
+  services: string[];
+  hasOpeningHours: boolean;
+}
+
+export interface ProviderNetwork {
+  /** When the sheet was last synced; null when it never was */
+  syncedAt: Date | null;
+  networks: NetworkSummary[];
+}
+
+/** Provider columns listed for the download of the network */
+export interface NetworkLocation {
+  gid: string | null;
+  name: string;
+  cep: string | null;
+  address: string | null;
+  number: string | null;
+  neighborhood: string | null;
+  city: string | null;
+  state: string | null;
+}
+
+/**
+ * Loads the synced networks of an empresa, with their provider counts, services and
+ * whether opening hours are known.
+ */
+export async function fetchProviderNetwork(empresaId: string): Promise<ProviderNetwork> {
+  const { data, error } = await supabase.functions.invoke('sync-locations', {
+    body: { action: 'list-networks', empresa_id: empresaId },
+  });
+
+  if (error || !data?.success || !Array.isArray(data.networks)) {
+    devLog.error('Error loading provider network:', error);
+    throw new Error((await getFunctionErrorMessage(error)) || 'Erro ao carregar prestadores.');
+  }
+
+  return {
+    syncedAt: data.synced_at ? new Date(data.synced_at) : null,
+    networks: (data.networks as { gid: string; name: string; count: number; services: string[]; has_opening_hours: boolean }[])
+      .map(network => ({
+        gid: network.gid,
+        name: network.name,
+        count: network.count,
+        services: network.services,
+        hasOpeningHours: network.has_opening_hours,
+      })),
+  };
+}
+
+/**
+ * Lists the synced providers of an empresa, limited to some tabs (gids) when given.
+ */
+export async function fetchNetworkLocations(empresaId: string, gids?: string[]): Promise<NetworkLocation[]> {
+  const { data, error } = await supabase.functions.invoke('sync-locations', {
+    body: { action: 'list-locations', empresa_id: empresaId, gids },
+  });
+
+  if (error || !data?.success || !Array.isArray(data.locations)) {
+    devLog.error('Error listing providers:', error);
+    throw new Error((await getFunctionErrorMessage(error)) || 'Erro ao carregar prestadores.');
+  }
+
+  return data.locations as NetworkLocation[];
+}
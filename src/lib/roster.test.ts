@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import readXlsxFile from "read-excel-file";
+import { geocodeAddress } from "./geocoding";
+import { calculateRoutes, type RouteResult } from "./routing";
+import { lookupCep } from "./cep";
+import { RateLimitError } from "./edgeFunctions";
+import {
+  buildRosterCsv,
+  getPendingEntries,
+  parseRoster,
+  processRoster,
+  MAX_ROSTER_ROWS,
+  type RosterEntry,
+  type RosterJob,
+} from "./roster";
+
+vi.mock("read-excel-file", () => ({ default: vi.fn() }));
+vi.mock("./geocoding", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./geocoding")>()),
+  geocodeAddress: vi.fn(),
+}));
+vi.mock("./routing", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./routing")>()),
+  calculateRoutes: vi.fn(),
+}));
+vi.mock("./cep", () => ({ lookupCep: vi.fn() }));
+
+function csvFile(lines: string[], name = "funcionarios.csv"): File {
+  const content = lines.join("\n");
+  const file = new File([content], name, { type: "text/csv" });
+  // jsdom's File has no text()
+  Object.defineProperty(file, "text", { value: () => Promise.resolve(content) });
+  return file;
+}
+
+function entry(row: number, overrides: Partial<RosterEntry> = {}): RosterEntry {
+  return {
+    row,
+    name: `Pessoa ${row}`,
+    cep: "",
+    address: "Avenida Paulista",
+    number: "1000",
+    neighborhood: "Bela Vista",
+    city: "São Paulo",
+    state: "SP",
+    cells: [`Pessoa ${row}`, "São Paulo", "SP"],
+    ...overrides,
+  };
+}
+
+function job(entries: RosterEntry[], results: RosterJob["results"] = {}): RosterJob {
+  return {
+    fileName: "funcionarios.csv",
+    headers: ["Nome", "Cidade", "UF"],
+    entries,
+    options: { nearestCount: 1, travelMode: "driving" },
+    results,
+  };
+}
+
+const ROUTE: RouteResult = {
+  name: "Clínica Central",
+  distanceKm: 2.345,
+  durationMinutes: 7.6,
+  formattedDistance: "2.3 km",
+  formattedDuration: "8 min",
+  source: "osrm",
+  estimated: false,
+  latitude: -23.56,
+  longitude: -46.65,
+  address: "Rua Augusta",
+  number: "500",
+  neighborhood: "Consolação",
+  city: "São Paulo",
+  state: "SP",
+};
+
+describe("parseRoster", () => {
+  it("finds the name and address columns of a CSV by their aliases", async () => {
+    const result = await parseRoster(csvFile([
+      "Funcionário;CEP;Logradouro;Número;Bairro;Cidade;UF",
+      "Ana;1310100;Av. Paulista;1000;Bela Vista;São Paulo;SP",
+    ]));
+
+    expect(result.error).toBeUndefined();
+    expect(result.headers).toEqual(["Funcionário", "CEP", "Logradouro", "Número", "Bairro", "Cidade", "UF"]);
+    expect(result.entries).toEqual([{
+      row: 2,
+      name: "Ana",
+      cep: "01310100",
+      address: "Av. Paulista",
+      number: "1000",
+      neighborhood: "Bela Vista",
+      city: "São Paulo",
+      state: "SP",
+      cells: ["Ana", "1310100", "Av. Paulista", "1000", "Bela Vista", "São Paulo", "SP"],
+    }]);
+  });
+
+  it("reads Excel files, skipping empty rows and rows without a CEP or city", async () => {
+    vi.mocked(readXlsxFile).mockResolvedValueOnce([
+      ["Nome", "CEP", "Cidade", "Estado"],
+      ["Ana", 1310100, null, null],
+      [null, null, null, null],
+      ["Bruno", null, "Campinas", null],
+      ["Carla", null, "Campinas", "SP"],
+    ] as never);
+
+    const result = await parseRoster(new File([""], "funcionarios.xlsx"));
+
+    expect(result.entries.map(({ row, name, cep }) => ({ row, name, cep }))).toEqual([
+      { row: 2, name: "Ana", cep: "01310100" },
+      { row: 5, name: "Carla", cep: "" },
+    ]);
+    expect(result.skippedRows).toEqual([4]);
+  });
+
+  it("requires a name column and a CEP or city and state columns", async () => {
+    expect((await parseRoster(csvFile(["CEP,Cidade", "01310100,São Paulo"]))).error)
+      .toMatch(/Coluna de nome não encontrada/);
+    expect((await parseRoster(csvFile(["Nome,Cidade", "Ana,São Paulo"]))).error)
+      .toMatch(/coluna de CEP ou das colunas de cidade e estado/);
+  });
+
+  it(`rejects rosters with more than ${MAX_ROSTER_ROWS} people`, async () => {
+    const rows = Array.from({ length: MAX_ROSTER_ROWS + 1 }, (_, index) => `Pessoa ${index},01310100`);
+
+    const result = await parseRoster(csvFile(["Nome,CEP", ...rows]));
+
+    expect(result.entries).toEqual([]);
+    expect(result.error).toMatch(`${MAX_ROSTER_ROWS + 1} pessoas`);
+  });
+});
+
+describe("buildRosterCsv", () => {
+  it("appends the location, the nearest providers and the status to the uploaded columns", () => {
+    const csv = buildRosterCsv(job([entry(2), entry(3), entry(4)], {
+      2: {
+        status: "done",
+        latitude: -23.5614,
+        longitude: -46.6559,
+        precision: "rooftop",
+        providers: [{ name: "Clínica Central", address: "Rua Augusta, 500", distanceKm: 2.345, durationMinutes: 7.6, estimated: true }],
+      },
+      3: { status: "error", providers: [], error: "Falha no serviço" },
+    }));
+
+    expect(csv.split("\n")).toEqual([
+      "Nome;Cidade;UF;Latitude;Longitude;Precisão da localização;Prestador 1;Endereço do prestador 1;Distância 1 (km);Tempo 1 (min);Situação",
+      "Pessoa 2;São Paulo;SP;-23,561400;-46,655900;endereço exato;Clínica Central;Rua Augusta, 500;~2,3;~8;Concluído",
+      "Pessoa 3;São Paulo;SP;;;;;;;;Erro: Falha no serviço",
+      "Pessoa 4;São Paulo;SP;;;;;;;;Pendente",
+    ]);
+  });
+});
+
+describe("getPendingEntries", () => {
+  it("resumes rows never processed and rows that failed on a service error", () => {
+    const entries = [entry(2), entry(3), entry(4), entry(5)];
+
+    const pending = getPendingEntries(job(entries, {
+      2: { status: "done", providers: [] },
+      3: { status: "not-found", providers: [], error: "Endereço não localizado" },
+      4: { status: "error", providers: [], error: "Falha no serviço" },
+    }));
+
+    expect(pending.map((pendingEntry) => pendingEntry.row)).toEqual([4, 5]);
+  });
+});
+
+describe("processRoster", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(lookupCep).mockReset();
+    vi.mocked(geocodeAddress).mockReset().mockResolvedValue({
+      lat: -23.5614,
+      lon: -46.6559,
+      searchUsed: "endereço completo",
+      provider: "nominatim",
+      precision: "rooftop",
+      errorRadiusMeters: 30,
+    });
+    vi.mocked(calculateRoutes).mockReset().mockResolvedValue([ROUTE]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retries a row refused with 429 after the Retry-After delay", async () => {
+    vi.mocked(calculateRoutes).mockRejectedValueOnce(new RateLimitError("Muitas requisições", 30));
+    const onResult = vi.fn();
+
+    const run = processRoster(job([entry(2)]), "empresa-1", { onResult });
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(calculateRoutes).toHaveBeenCalledTimes(1);
+    await vi.runAllTimersAsync();
+    await run;
+
+    expect(calculateRoutes).toHaveBeenCalledTimes(2);
+    expect(onResult).toHaveBeenCalledTimes(1);
+    expect(onResult.mock.calls[0][1]).toMatchObject({
+      status: "done",
+      providers: [{ name: "Clínica Central", address: "Rua Augusta, 500 - Consolação - São Paulo/SP", distanceKm: 2.345 }],
+    });
+  });
+
+  it("retries a row whose geocoding is busy", async () => {
+    vi.mocked(geocodeAddress).mockRejectedValueOnce(new RateLimitError("Serviço de geocodificação ocupado", 5));
+    const onResult = vi.fn();
+
+    const run = processRoster(job([entry(2)]), "empresa-1", { onResult });
+    await vi.runAllTimersAsync();
+    await run;
+
+    expect(geocodeAddress).toHaveBeenCalledTimes(2);
+    expect(onResult.mock.calls[0][1].status).toBe("done");
+  });
+
+  it("marks the row as an error once the retries run out", async () => {
+    vi.mocked(calculateRoutes).mockRejectedValue(new RateLimitError("Muitas requisições", null));
+    const onResult = vi.fn();
+
+    const run = processRoster(job([entry(2)]), "empresa-1", { onResult });
+    await vi.runAllTimersAsync();
+    await run;
+
+    expect(calculateRoutes).toHaveBeenCalledTimes(6);
+    expect(onResult.mock.calls[0][1]).toEqual({ status: "error", providers: [], error: "Muitas requisições" });
+  });
+
+  it("marks other failures as errors without retrying", async () => {
+    vi.mocked(calculateRoutes).mockRejectedValueOnce(new Error("Erro ao calcular rotas."));
+    const onResult = vi.fn();
+
+    const run = processRoster(job([entry(2)]), "empresa-1", { onResult });
+    await vi.runAllTimersAsync();
+    await run;
+
+    expect(calculateRoutes).toHaveBeenCalledTimes(1);
+    expect(onResult.mock.calls[0][1]).toMatchObject({ status: "error", error: "Erro ao calcular rotas." });
+  });
+
+  it("stops before the next row when aborted", async () => {
+    const controller = new AbortController();
+    const onResult = vi.fn(() => controller.abort());
+
+    const run = processRoster(job([entry(2), entry(3)]), "empresa-1", { onResult, signal: controller.signal });
+    await vi.runAllTimersAsync();
+    await run;
+
+    expect(onResult).toHaveBeenCalledTimes(1);
+    expect(calculateRoutes).toHaveBeenCalledTimes(1);
+  });
+
+  it("marks CEP-only rows whose CEP is unknown as not found", async () => {
+    vi.mocked(lookupCep).mockResolvedValueOnce(null);
+    const onResult = vi.fn();
+
+    const run = processRoster(job([entry(2, { cep: "00000000", city: "", state: "" })]), "empresa-1", { onResult });
+    await vi.runAllTimersAsync();
+    await run;
+
+    expect(geocodeAddress).not.toHaveBeenCalled();
+    expect(onResult.mock.calls[0][1]).toEqual({ status: "not-found", providers: [], error: "CEP não encontrado" });
+  });
+});
@@ -0,0 +1,385 @@
+// Batch "nearest provider" search for a roster of people (e.g. an HR sheet of employees):
+// each address is geocoded and routed like a search typed in AddressForm
+import readXlsxFile from 'read-excel-file';
+import { parseCSV, toCSV } from './csv';
+import { devLog } from './logger';
+import { findColumn, resolveColumnIndex } from './spreadsheet';
+import { geocodeAddress, PRECISION_LABELS, type GeocodingPrecision } from './geocoding';
+import { calculateRoutes, DEFAULT_TRAVEL_MODE, type TravelMode } from './routing';
+import { RateLimitError } from './edgeFunctions';
+import { lookupCep } from './cep';
+import { brazilianStates } from './states';
+
+export interface RosterEntry {
+  /** Line in the uploaded sheet (1-based, header included) */
+  row: number;
+  name: string;
+  cep: string;
+  address: string;
+  number: string;
+  neighborhood: string;
+  city: string;
+  /** UF or full state name, as written in the sheet */
+  state: string;
+  /** Every cell of the row, copied to the result sheet */
+  cells: string[];
+}
+
+export interface RosterParseResult {
+  headers: string[];
+  entries: RosterEntry[];
+  /** Lines skipped for having neither a CEP nor a city and state */
+  skippedRows: number[];
+  error?: string;
+}
+
+export interface RosterOptions {
+  /** Providers listed per person, closest first */
+  nearestCount: number;
+  travelMode: TravelMode;
+}
+
+export const DEFAULT_ROSTER_OPTIONS: RosterOptions = { nearestCount: 3, travelMode: DEFAULT_TRAVEL_MODE };
+export const MAX_NEAREST_COUNT = 5;
+export const MAX_ROSTER_ROWS = 2000;
+
+/** "not-found": the address could not be located; "error": a service failed and the row can be retried */
+export type RosterRowStatus = 'done' | 'not-found' | 'error';
+
+export interface RosterProvider {
+  name: string;
+  address: string;
+  distanceKm: number;
+  durationMinutes: number;
+  /** Straight-line estimate, when no routing service reached the provider */
+  estimated: boolean;
+}
+
+export interface RosterRowResult {
+  status: RosterRowStatus;
+  latitude?: number;
+  longitude?: number;
+  precision?: GeocodingPrecision;
+  providers: RosterProvider[];
+  error?: string;
+}
+
+/**
+ * A roster being processed, saved in the browser after every row so an
+ * interrupted run (closed tab, network failure) resumes where it stopped.
+ */
+export interface RosterJob {
+  fileName: string;
+  headers: string[];
+  entries: RosterEntry[];
+  options: RosterOptions;
+  /** Results by entry row; rows without one are still pending */
+  results: Record<number, RosterRowResult>;
+}
+
+export interface ProcessRosterOptions {
+  onResult?: (entry: RosterEntry, result: RosterRowResult) => void;
+  signal?: AbortSignal;
+}
+
+const NAME_ALIASES = ['nome', 'nome completo', 'funcionário', 'funcionario', 'colaborador', 'empregado', 'name'];
+
+// Roster searches have their own calculate-routes limit (15 per minute per empresa);
+// one every 6 seconds leaves room for a second tab or a retry
+const ROUTING_INTERVAL_MS = 6000;
+// Wait after a 429 without Retry-After, doubled on each further 429 for the same row
+const RATE_LIMIT_BACKOFF_MS = 10000;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+const STORAGE_KEY_PREFIX = 'localiz_roster_';
+
+function cellText(value: unknown): string {
+  if (value instanceof Date) return value.toLocaleDateString('pt-BR');
+  return String(value ?? '').trim();
+}
+
+// Excel stores CEPs typed as numbers without the leading zero (01310-100 → 1310100)
+function normalizeCep(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 7 ? `0${digits}` : digits;
+}
+
+/**
+ * Reads a CSV or Excel roster. The first row holds the headers; the name column and either
+ * a CEP or city and state columns are required. Address columns use the same header
+ * aliases as the provider sheet.
+ */
+export async function parseRoster(file: File): Promise<RosterParseResult> {
+  let rows: unknown[][];
+  try {
+    rows = file.name.toLowerCase().endsWith('.csv')
+      ? parseCSV(await file.text())
+      : (await readXlsxFile(file)) as unknown[][];
+  } catch (error) {
+    devLog.error('Roster parse error:', error);
+    return { headers: [], entries: [], skippedRows: [], error: 'Erro ao processar a planilha. Verifique se o arquivo é um CSV ou Excel válido.' };
+  }
+
+  const headers = (rows[0] ?? []).map(cellText);
+  const nameIndex = findColumn(headers, NAME_ALIASES);
+  const column = {
+    cep: resolveColumnIndex(headers, 'cep'),
+    address: resolveColumnIndex(headers, 'address'),
+    number: resolveColumnIndex(headers, 'number'),
+    neighborhood: resolveColumnIndex(headers, 'neighborhood'),
+    city: resolveColumnIndex(headers, 'city'),
+    state: resolveColumnIndex(headers, 'state'),
+  };
+
+  if (nameIndex === -1) {
+    return { headers, entries: [], skippedRows: [], error: 'Coluna de nome não encontrada. Use um cabeçalho como "Nome" ou "Funcionário".' };
+  }
+  if (column.cep === -1 && (column.city === -1 || column.state === -1)) {
+    return { headers, entries: [], skippedRows: [], error: 'A planilha precisa de uma coluna de CEP ou das colunas de cidade e estado.' };
+  }
+
+  const entries: RosterEntry[] = [];
+  const skippedRows: number[] = [];
+
+  rows.slice(1).forEach((rawRow, index) => {
+    const cells = headers.map((_, cellIndex) => cellText(rawRow[cellIndex]));
+    if (cells.every(cell => !cell)) return;
+
+    const cellAt = (cellIndex: number) => (cellIndex === -1 ? '' : cells[cellIndex]);
+    const entry: RosterEntry = {
+      row: index + 2,
+      name: cellAt(nameIndex),
+      cep: normalizeCep(cellAt(column.cep)),
+      address: cellAt(column.address),
+      number: cellAt(column.number),
+      neighborhood: cellAt(column.neighborhood),
+      city: cellAt(column.city),
+      state: cellAt(column.state),
+      cells,
+    };
+
+    if (entry.cep.length === 8 || (entry.city && entry.state)) {
+      entries.push(entry);
+    } else {
+      skippedRows.push(entry.row);
+    }
+  });
+
+  if (entries.length > MAX_ROSTER_ROWS) {
+    return { headers, entries: [], skippedRows, error: `A planilha tem ${entries.length} pessoas. Divida-a em arquivos de até ${MAX_ROSTER_ROWS} linhas.` };
+  }
+
+  return { headers, entries, skippedRows };
+}
+
+/**
+ * Fills the city and state (and street, when missing) of a CEP-only entry.
+ */
+async function completeAddress(entry: RosterEntry): Promise<RosterEntry | null> {
+  if (entry.city && entry.state) return entry;
+
+  const cepAddress = await lookupCep(entry.cep);
+  if (!cepAddress?.city || !cepAddress.state) return null;
+
+  return {
+    ...entry,
+    address: entry.address || cepAddress.street,
+    neighborhood: entry.neighborhood || cepAddress.neighborhood,
+    city: cepAddress.city,
+    state: cepAddress.state,
+  };
+}
+
+function formatProviderAddress(route: { address?: string; number?: string; neighborhood?: string; city?: string; state?: string }): string {
+  const street = [route.address, route.number].filter(Boolean).join(', ');
+  const city = [route.city, route.state].filter(Boolean).join('/');
+  return [street, route.neighborhood, city].filter(Boolean).join(' - ');
+}
+
+/**
+ * Finds the nearest providers of one person.
+ */
+async function processEntry(entry: RosterEntry, empresaId: string, options: RosterOptions): Promise<RosterRowResult> {
+  const address = await completeAddress(entry);
+  if (!address) {
+    return { status: 'not-found', providers: [], error: 'CEP não encontrado' };
+  }
+
+  const stateName = brazilianStates.find(s => s.value === address.state.toUpperCase())?.label || address.state;
+  const coords = await geocodeAddress(
+    address.address,
+    address.number,
+    address.neighborhood,
+    address.city,
+    stateName,
+    address.cep,
+    empresaId
+  );
+  if (!coords) {
+    return { status: 'not-found', providers: [], error: 'Endereço não localizado' };
+  }
+
+  const routes = await calculateRoutes(coords.lat, coords.lon, empresaId, { travelMode: options.travelMode, batch: true });
+
+  return {
+    status: 'done',
+    latitude: coords.lat,
+    longitude: coords.lon,
+    precision: coords.precision,
+    providers: routes.slice(0, options.nearestCount).map(route => ({
+      name: route.name,
+      address: formatProviderAddress(route),
+      distanceKm: route.distanceKm,
+      durationMinutes: route.durationMinutes,
+      estimated: route.estimated,
+    })),
+  };
+}
+
+/** Rows still to process: never processed, or failed on a service error */
+export function getPendingEntries(job: RosterJob): RosterEntry[] {
+  return job.entries.filter(entry => {
+    const result = job.results[entry.row];
+    return !result || result.status === 'error';
+  });
+}
+
+// Resolves early when the signal is aborted
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Processes the job's pending rows one at a time. Routing is spaced to stay within the
+ * calculate-routes batch rate limit; a row whose geocoding or routing is refused with 429,
+ * or with 503 when the geocode queue is full, waits and is retried instead of failing.
+ * Stops before the next row when the signal is aborted.
+ */
+export async function processRoster(job: RosterJob, empresaId: string, options: ProcessRosterOptions = {}): Promise<void> {
+  let lastRoutingAt = 0;
+
+  for (const entry of getPendingEntries(job)) {
+    let result: RosterRowResult | null = null;
+
+    for (let attempt = 0; result === null; attempt++) {
+      if (options.signal?.aborted) return;
+
+      const wait = lastRoutingAt + ROUTING_INTERVAL_MS - Date.now();
+      if (wait > 0) {
+        await delay(wait, options.signal);
+        if (options.signal?.aborted) return;
+      }
+      lastRoutingAt = Date.now();
+
+      try {
+        result = await processEntry(entry, empresaId, job.options);
+      } catch (error) {
+        if (error instanceof RateLimitError && attempt < MAX_RATE_LIMIT_RETRIES) {
+          const backoffMs = error.retryAfterSeconds !== null
+            ? error.retryAfterSeconds * 1000
+            : RATE_LIMIT_BACKOFF_MS * 2 ** attempt;
+          devLog.log(`Rate limited on row ${entry.row}, retrying in ${backoffMs}ms`);
+          await delay(backoffMs, options.signal);
+          continue;
+        }
+
+        devLog.error(`Roster processing failed for row ${entry.row}:`, error);
+        result = {
+          status: 'error',
+          providers: [],
+          error: error instanceof Error ? error.message : 'Erro ao processar a linha.',
+        };
+      }
+    }
+
+    options.onResult?.(entry, result);
+  }
+}
+
+/**
+ * Loads the empresa's unfinished roster, if any.
+ */
+export function loadRosterJob(empresaId: string): RosterJob | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + empresaId);
+    return stored ? JSON.parse(stored) as RosterJob : null;
+  } catch (error) {
+    devLog.error('Error loading saved roster:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves the roster progress. Failures (e.g. storage full) only cost the ability to resume.
+ */
+export function saveRosterJob(empresaId: string, job: RosterJob): void {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + empresaId, JSON.stringify(job));
+  } catch (error) {
+    devLog.error('Error saving roster progress:', error);
+  }
+}
+
+/**
+ * Removes the saved roster, which holds people's addresses.
+ */
+export function clearRosterJob(empresaId: string): void {
+  localStorage.removeItem(STORAGE_KEY_PREFIX + empresaId);
+}
+
+function formatNumber(value: number, fractionDigits: number): string {
+  return value.toLocaleString('pt-BR', { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits, useGrouping: false });
+}
+
+/**
+ * Builds the result sheet: the uploaded columns followed by the located coordinates
+ * and, for each of the nearest providers, its name, address, distance and travel time.
+ */
+export function buildRosterCsv(job: RosterJob): string {
+  const providerHeaders = Array.from({ length: job.options.nearestCount }, (_, index) => [
+    `Prestador ${index + 1}`,
+    `Endereço do prestador ${index + 1}`,
+    `Distância ${index + 1} (km)`,
+    `Tempo ${index + 1} (min)`,
+  ]).flat();
+
+  const headers = [...job.headers, 'Latitude', 'Longitude', 'Precisão da localização', ...providerHeaders, 'Situação'];
+
+  const rows = job.entries.map(entry => {
+    const result = job.results[entry.row];
+    const providerCells = Array.from({ length: job.options.nearestCount }, (_, index) => {
+      const provider = result?.providers[index];
+      if (!provider) return ['', '', '', ''];
+      const approximate = provider.estimated ? '~' : '';
+      return [
+        provider.name,
+        provider.address,
+        approximate + formatNumber(provider.distanceKm, 1),
+        approximate + formatNumber(provider.durationMinutes, 0),
+      ];
+    }).flat();
+
+    const status = !result
+      ? 'Pendente'
+      : result.status === 'done'
+        ? 'Concluído'
+        : result.status === 'error' ? `Erro: ${result.error}` : result.error ?? '';
+
+    return [
+      ...entry.cells,
+      result?.latitude !== undefined ? formatNumber(result.latitude, 6) : '',
+      result?.longitude !== undefined ? formatNumber(result.longitude, 6) : '',
+      result?.precision ? PRECISION_LABELS[result.precision] : '',
+      ...providerCells,
+      status,
+    ];
+  });
+
+  return toCSV([headers, ...rows]);
+}
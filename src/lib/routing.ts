@@ -1,10 +1,47 @@
 import { supabase } from "@/integrations/supabase/client";
-import type { LocationData } from "./spreadsheet";
 import { devLog } from "./logger";
-import { calculateDistance } from "./haversine";
+import { getFunctionErrorMessage, getRateLimitError } from "./edgeFunctions";
+import type { ScheduleTime } from "./openingHours";
 
-// Maximum straight-line distance for pre-filtering (km)
-const MAX_HAVERSINE_DISTANCE_KM = 60;
+export type TravelMode = "driving" | "walking" | "cycling";
+
+export const DEFAULT_TRAVEL_MODE: TravelMode = "driving";
+
+export const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  driving: "De carro",
+  walking: "A pé",
+  cycling: "De bicicleta",
+};
+
+/** Order of the results: shortest distance or shortest travel time first */
+export type RouteSortOrder = "distance" | "duration";
+
+export const DEFAULT_ROUTE_SORT_ORDER: RouteSortOrder = "distance";
+
+export const ROUTE_SORT_ORDER_LABELS: Record<RouteSortOrder, string> = {
+  distance: "Menor distância",
+  duration: "Menor tempo",
+};
+
+export type RouterId = "ors" | "osrm" | "valhalla";
+
+/**
+ * Per-empresa routing service order (empresas.routing_config), applied by the calculate-routes
+ * edge function. NULL uses the order configured for the environment.
+ */
+export interface RoutingConfig {
+  /** Services tried in this order; server URLs and keys are set as edge function secrets */
+  order: RouterId[];
+}
+
+export const ROUTER_LABELS: Record<RouterId, string> = {
+  ors: "OpenRouteService",
+  osrm: "OSRM",
+  valhalla: "Valhalla",
+};
+
+/** Routing service behind a result; "haversine" marks a straight-line estimate */
+export type RouteSource = RouterId | "haversine";
 
 export interface RouteResult {
   name: string;
@@ -12,6 +49,9 @@ export interface RouteResult {
   durationMinutes: number;
   formattedDistance: string;
   formattedDuration: string;
+  source: RouteSource;
+  /** True when no routing service reached the provider and the values are estimated */
+  estimated: boolean;
   latitude?: number;
   longitude?: number;
   address?: string;
@@ -20,67 +60,78 @@ export interface RouteResult {
   city?: string;
   state?: string;
   services?: string;
+  openingHours?: string;
+  phone?: string;
+  whatsapp?: string;
+  email?: string;
+}
+
+export interface CalculateRoutesOptions {
+  /** Workbook tabs (gids) to search, e.g. the selected network; omit to search every tab */
+  networks?: string[];
+  /** Service ids every returned provider must offer (empresa vocabulary) */
+  services?: string[];
+  /** Only providers open at this São Paulo weekday and time */
+  openAt?: ScheduleTime;
+  /** Routing profile for distances and durations; driving when omitted */
+  travelMode?: TravelMode;
+  /** Order of the returned routes; shortest distance first when omitted. Estimated routes always come last */
+  sortBy?: RouteSortOrder;
+  /** Search radius in travel minutes: only routes within it are returned, or the first minResults when too few are */
+  maxMinutes?: number;
+  /** Counts against the batch rate limit, so roster processing does not use up interactive searches */
+  batch?: boolean;
 }
 
+/**
+ * Calculates routes from the origin to the empresa's nearest providers.
+ * Candidates are loaded server-side from the synced network, so only the origin is sent.
+ */
 export async function calculateRoutes(
   originLat: number,
   originLon: number,
-  locations: LocationData[],
-  empresaId: string
+  empresaId: string,
+  options: CalculateRoutesOptions = {}
 ): Promise<RouteResult[]> {
   // Validate empresaId is provided
   if (!empresaId || empresaId.trim().length === 0) {
     throw new Error("Identificação da empresa é obrigatória para calcular rotas.");
   }
 
-  // Pre-filter locations using Haversine distance to reduce payload
-  // Also sort by distance to prioritize closest locations
-  const nearbyLocations = locations
-    .map(loc => {
-      if (loc.latitude === undefined || loc.longitude === undefined) {
-        return null;
-      }
-      const haversineDistance = calculateDistance(
-        originLat,
-        originLon,
-        loc.latitude,
-        loc.longitude
-      );
-      return { ...loc, haversineDistance };
-    })
-    .filter((loc): loc is LocationData & { haversineDistance: number } => 
-      loc !== null && loc.haversineDistance <= MAX_HAVERSINE_DISTANCE_KM
-    )
-    .sort((a, b) => a.haversineDistance - b.haversineDistance)
-    .slice(0, 30);
-
-  if (nearbyLocations.length === 0) {
-    return []; // No locations within range
-  }
-
   try {
     const { data, error } = await supabase.functions.invoke("calculate-routes", {
       body: {
         empresaId,
         originLat,
         originLon,
-        locations: nearbyLocations,
+        networks: options.networks,
+        services: options.services,
+        openAt: options.openAt,
+        travelMode: options.travelMode ?? DEFAULT_TRAVEL_MODE,
+        sortBy: options.sortBy ?? DEFAULT_ROUTE_SORT_ORDER,
+        maxMinutes: options.maxMinutes,
+        batch: options.batch,
       },
     });
 
     if (error) {
       devLog.error("Error calling calculate-routes:", error);
-      throw new Error("Erro ao calcular rotas. Por favor, tente novamente.");
+      const message = (await getFunctionErrorMessage(error)) || "Erro ao calcular rotas. Por favor, tente novamente.";
+      throw getRateLimitError(error, message) ?? new Error(message);
     }
 
     if (!data?.routes || !Array.isArray(data.routes)) {
       throw new Error("Resposta inválida do servidor.");
     }
 
+    devLog.log(`Routes: ${data.routes.length} returned, ${data.cacheHits ?? 0} from the route cache`);
+
     return data.routes.map((route: { 
       name: string; 
       distanceKm: number; 
       durationMinutes: number;
+      source: RouteSource;
+      estimated: boolean;
       latitude?: number;
       longitude?: number;
       address?: string;
@@ -103,6 +154,77 @@ export async function calculateRoutes(
   }
 }
 
+/**
+ * Fetches the path from the origin to one provider, as [lat, lon] pairs.
+ * Returns null when no route is found.
+ */
+export async function fetchRouteGeometry(
+  origin: { latitude: number; longitude: number },
+  destination: { latitude: number; longitude: number },
+  empresaId: string,
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE
+): Promise<[number, number][] | null> {
+  const { data, error } = await supabase.functions.invoke("calculate-routes", {
+    body: {
+      action: "geometry",
+      empresaId,
+      originLat: origin.latitude,
+      originLon: origin.longitude,
+      destinationLat: destination.latitude,
+      destinationLon: destination.longitude,
+      travelMode,
+    },
+  });
+
+  if (error) {
+    devLog.error("Error fetching route geometry:", error);
+    const serverMessage = await getFunctionErrorMessage(error);
+    throw new Error(serverMessage || "Não foi possível carregar o trajeto.");
+  }
+
+  return Array.isArray(data?.geometry) ? data.geometry : null;
+}
+
+/** Travel between every pair of points, by [from][to] */
+export interface RouteMatrix {
+  distancesKm: number[][];
+  durationsMinutes: number[][];
+  source: RouteSource;
+  /** True when at least one pair is a straight-line estimate */
+  estimated: boolean;
+}
+
+/**
+ * Fetches distances and travel times between every pair of points, e.g. the stops of an itinerary.
+ * Pairs no routing service reached are estimated in a straight line.
+ */
+export async function fetchRouteMatrix(
+  points: { latitude: number; longitude: number }[],
+  empresaId: string,
+  travelMode: TravelMode = DEFAULT_TRAVEL_MODE
+): Promise<RouteMatrix> {
+  const { data, error } = await supabase.functions.invoke("calculate-routes", {
+    body: {
+      action: "matrix",
+      empresaId,
+      points: points.map((point) => ({ lat: point.latitude, lon: point.longitude })),
+      travelMode,
+    },
+  });
+
+  if (error) {
+    devLog.error("Error fetching route matrix:", error);
+    const serverMessage = await getFunctionErrorMessage(error);
+    throw new Error(serverMessage || "Não foi possível calcular o roteiro.");
+  }
+
+  if (!Array.isArray(data?.distancesKm) || !Array.isArray(data?.durationsMinutes)) {
+    throw new Error("Resposta inválida do servidor.");
+  }
+
+  return data as RouteMatrix;
+}
+
 function formatDistance(distanceKm: number): string {
   if (distanceKm < 1) {
     return `${Math.round(distanceKm * 1000)} m`;
@@ -110,7 +232,7 @@ function formatDistance(distanceKm: number): string {
   return `${distanceKm.toFixed(1)} km`;
 }
 
-function formatDuration(minutes: number): string {
+export function formatDuration(minutes: number): string {
   if (minutes < 60) {
     return `${Math.round(minutes)} min`;
   }
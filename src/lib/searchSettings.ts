@@ -0,0 +1,2 @@
+// The search limits are shared with calculate-routes and validate-empresa, which enforce them
+export * from '../../supabase/functions/_shared/searchSettings.ts';
@@ -1,15 +1,7 @@
 import type { LocationData } from './spreadsheet';
+import { normalizeSearchText } from '../../supabase/functions/_shared/text.ts';
 
-/**
- * Normalizes text for accent-insensitive, case-insensitive search
- */
-export function normalizeSearchText(text: string): string {
-  return text
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '') // Remove accents
-    .trim();
-}
+export { normalizeSearchText };
 
 /**
  * Checks if a normalized search term matches any part of the text
@@ -0,0 +1,2 @@
+// The services taxonomy is shared with calculate-routes, which filters providers by service
+export * from '../../supabase/functions/_shared/services.ts';
@@ -1,8 +1,18 @@
 import readXlsxFile from 'read-excel-file';
 import { parseCSV } from './csv';
+import { buildAddressKey } from '../../supabase/functions/_shared/addressKey.ts';
+import { LOCATION_FIELD_ALIASES, type LocationField } from '../../supabase/functions/_shared/locationFields.ts';
 import { devLog } from './logger';
+import type { SheetTab } from './googleSheets';
+import type { GeocodingSource } from './geocoding';
+import { parseOpeningHours } from './openingHours';
+import { formatBrazilianPhone, isAffirmativeWhatsApp, isValidEmail, parsePhoneList } from './contacts';
 
 export interface LocationData {
+  /** Identifies the source row: the sheet line, prefixed with the tab gid ("<gid>:<line>") once tagged */
+  sourceKey?: string;
+  /** Name of the workbook tab (network) the row came from */
+  sourceTab?: string;
   name: string;
   latitude: number;
   longitude: number;
@@ -13,6 +23,94 @@ export interface LocationData {
   city?: string;
   state?: string;
   services?: string;
+  /** Weekly schedule in the compact format documented in openingHours.ts */
+  openingHours?: string;
+  /** One or more phone numbers, separated by " / " */
+  phone?: string;
+  /** A phone number, or an affirmative value ("sim") meaning the phone is WhatsApp */
+  whatsapp?: string;
+  email?: string;
+}
+
+export type { LocationField };
+
+/**
+ * Maps a LocationData field to the spreadsheet header that holds it.
+ * Fields left out fall back to the default header aliases.
+ */
+export type ColumnMapping = Partial<Record<LocationField, string>>;
+
+export interface LocationFieldDefinition {
+  field: LocationField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}
+
+export const LOCATION_FIELDS: LocationFieldDefinition[] = [
+  { field: 'name', label: 'Nome do local', required: true, aliases: LOCATION_FIELD_ALIASES.name },
+  { field: 'latitude', label: 'Latitude', required: true, aliases: LOCATION_FIELD_ALIASES.latitude },
+  { field: 'longitude', label: 'Longitude', required: true, aliases: LOCATION_FIELD_ALIASES.longitude },
+  { field: 'cep', label: 'CEP', aliases: LOCATION_FIELD_ALIASES.cep },
+  { field: 'address', label: 'Endereço', aliases: LOCATION_FIELD_ALIASES.address },
+  { field: 'number', label: 'Número', aliases: LOCATION_FIELD_ALIASES.number },
+  { field: 'neighborhood', label: 'Bairro', aliases: LOCATION_FIELD_ALIASES.neighborhood },
+  { field: 'city', label: 'Cidade', aliases: LOCATION_FIELD_ALIASES.city },
+  { field: 'state', label: 'Estado (UF)', aliases: LOCATION_FIELD_ALIASES.state },
+  { field: 'status', label: 'Situação', aliases: LOCATION_FIELD_ALIASES.status },
+  { field: 'services', label: 'Serviços', aliases: LOCATION_FIELD_ALIASES.services },
+  { field: 'openingHours', label: 'Horário de funcionamento', aliases: LOCATION_FIELD_ALIASES.openingHours },
+  { field: 'phone', label: 'Telefone', aliases: LOCATION_FIELD_ALIASES.phone },
+  { field: 'whatsapp', label: 'WhatsApp', aliases: LOCATION_FIELD_ALIASES.whatsapp },
+  { field: 'email', label: 'E-mail', aliases: LOCATION_FIELD_ALIASES.email },
+];
+
+export type ParseIssueSeverity = 'error' | 'warning';
+
+/**
+ * A problem found in a single spreadsheet row.
+ * Errors drop the row; warnings keep it but flag a value to fix in the source sheet.
+ */
+export interface ParseIssue {
+  /** Line number as shown by the spreadsheet app (1-based, header included) */
+  row: number;
+  /** Workbook tab of the row, when several tabs are loaded */
+  tab?: string;
+  column?: string;
+  value?: string;
+  severity: ParseIssueSeverity;
+  reason: string;
+}
+
+/**
+ * Coordinates accepted by an admin for a row that only has an address.
+ */
+export interface AcceptedGeocode {
+  latitude: number;
+  longitude: number;
+  /** Geocoding strategy that produced the coordinates (GeocodingResult.searchUsed) */
+  searchUsed: string;
+  /** Backend that produced the coordinates; unknown for geocodes accepted before it was tracked */
+  provider?: GeocodingSource;
+}
+
+/** Accepted geocodes indexed by buildAddressKey */
+export type GeocodeOverrides = Record<string, AcceptedGeocode>;
+
+/**
+ * A row without coordinates whose address is complete enough to be geocoded.
+ */
+export interface PendingGeocodeRow {
+  row: number;
+  tab?: string;
+  name: string;
+  addressKey: string;
+  cep?: string;
+  address?: string;
+  number?: string;
+  neighborhood?: string;
+  city: string;
+  state: string;
 }
 
 export interface ParseResult {
@@ -20,6 +118,9 @@ export interface ParseResult {
   data: LocationData[];
   error?: string;
   sheetName?: string;
+  issues: ParseIssue[];
+  /** Rows skipped only because they lack coordinates */
+  pendingGeocodes: PendingGeocodeRow[];
 }
 
 function normalizeColumnName(name: string): string {
@@ -41,7 +142,12 @@ function parseCoordinate(value: unknown): number {
   return parseFloat(normalized);
 }
 
-function findColumn(headers: string[], possibleNames: string[]): number {
+export { buildAddressKey };
+
+/**
+ * Index of the first header matching one of the names (case and accent insensitive), or -1.
+ */
+export function findColumn(headers: string[], possibleNames: string[]): number {
   for (const name of possibleNames) {
     const normalizedName = name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
     const index = headers.findIndex(h => normalizeColumnName(h) === normalizedName);
@@ -50,12 +156,40 @@ function findColumn(headers: string[], possibleNames: string[]): number {
   return -1;
 }
 
-function parseRows(jsonData: unknown[][]): ParseResult {
+/**
+ * Resolves the column index for a field, preferring the header chosen in the
+ * empresa's column mapping and falling back to the default aliases.
+ */
+export function resolveColumnIndex(headers: string[], field: LocationField, columnMapping?: ColumnMapping | null): number {
+  const mappedHeader = columnMapping?.[field];
+  if (mappedHeader) {
+    const index = findColumn(headers, [mappedHeader]);
+    if (index !== -1) return index;
+  }
+
+  const definition = LOCATION_FIELDS.find(f => f.field === field);
+  return definition ? findColumn(headers, definition.aliases) : -1;
+}
+
+/**
+ * Parses header + data rows into locations.
+ * rowOffset is the number of sheet lines above the header (e.g. 1 when A1 holds the sheet name),
+ * so reported row numbers match the source spreadsheet.
+ * Rows without coordinates use the accepted geocode for their address, if any.
+ */
+function parseRows(
+  jsonData: unknown[][],
+  columnMapping?: ColumnMapping | null,
+  rowOffset: number = 0,
+  geocodes?: GeocodeOverrides | null
+): ParseResult {
   if (jsonData.length < 2) {
     return {
       success: false,
       data: [],
       error: 'A planilha deve conter pelo menos uma linha de cabeçalho e uma linha de dados.',
+      issues: [],
+      pendingGeocodes: [],
     };
   }
 
@@ -64,32 +198,40 @@ function parseRows(jsonData: unknown[][]): ParseResult {
   const headers = headersRow.map((h) => String(h || ''));
 
   // Find column indexes
-  const nameColIndex = findColumn(headers, ['clinica', 'nome do local', 'nome', 'local', 'name']);
-  const latColIndex = findColumn(headers, ['latitude', 'lat']);
-  const lonColIndex = findColumn(headers, ['longitude', 'lon', 'long', 'lng']);
-  const cepColIndex = findColumn(headers, ['cep']);
-  const addressColIndex = findColumn(headers, ['endereço (logradouro)', 'endereço', 'endereco', 'address', 'rua', 'logradouro']);
-  const numberColIndex = findColumn(headers, ['número', 'numero', 'number', 'num']);
-  const neighborhoodColIndex = findColumn(headers, ['bairro', 'neighborhood']);
-  const cityColIndex = findColumn(headers, ['cidade', 'city']);
-  const stateColIndex = findColumn(headers, ['uf', 'estado', 'state', 'estado (uf)']);
-  const statusColIndex = findColumn(headers, ['situação', 'situacao', 'status']);
-  const servicesColIndex = findColumn(headers, ['serviços', 'servicos', 'services']);
+  const nameColIndex = resolveColumnIndex(headers, 'name', columnMapping);
+  const latColIndex = resolveColumnIndex(headers, 'latitude', columnMapping);
+  const lonColIndex = resolveColumnIndex(headers, 'longitude', columnMapping);
+  const cepColIndex = resolveColumnIndex(headers, 'cep', columnMapping);
+  const addressColIndex = resolveColumnIndex(headers, 'address', columnMapping);
+  const numberColIndex = resolveColumnIndex(headers, 'number', columnMapping);
+  const neighborhoodColIndex = resolveColumnIndex(headers, 'neighborhood', columnMapping);
+  const cityColIndex = resolveColumnIndex(headers, 'city', columnMapping);
+  const stateColIndex = resolveColumnIndex(headers, 'state', columnMapping);
+  const statusColIndex = resolveColumnIndex(headers, 'status', columnMapping);
+  const servicesColIndex = resolveColumnIndex(headers, 'services', columnMapping);
+  const openingHoursColIndex = resolveColumnIndex(headers, 'openingHours', columnMapping);
+  const phoneColIndex = resolveColumnIndex(headers, 'phone', columnMapping);
+  const whatsappColIndex = resolveColumnIndex(headers, 'whatsapp', columnMapping);
+  const emailColIndex = resolveColumnIndex(headers, 'email', columnMapping);
 
   if (nameColIndex === -1 || latColIndex === -1 || lonColIndex === -1) {
     return {
       success: false,
       data: [],
       error: 'Colunas obrigatórias não encontradas. A planilha deve conter: Nome do local, Latitude, Longitude.',
+      issues: [],
+      pendingGeocodes: [],
     };
   }
 
   // Parse data rows
   const locations: LocationData[] = [];
-  const errors: string[] = [];
+  const issues: ParseIssue[] = [];
+  const pendingGeocodes: PendingGeocodeRow[] = [];
 
   for (let i = 1; i < jsonData.length; i++) {
     const row = jsonData[i] as unknown[];
+    const rowNumber = i + 1 + rowOffset;
 
     if (!row || row.length === 0) continue;
 
@@ -109,33 +251,137 @@ function parseRows(jsonData: unknown[][]): ParseResult {
     const lonValue = row[lonColIndex];
 
     if (!name) {
-      errors.push(`Linha ${i + 1}: Nome do local vazio`);
+      issues.push({
+        row: rowNumber,
+        column: headers[nameColIndex],
+        value: '',
+        severity: 'error',
+        reason: 'Nome do local vazio',
+      });
       continue;
     }
 
-    const latitude = parseCoordinate(latValue);
-    const longitude = parseCoordinate(lonValue);
+    // Extract optional address fields
+    const cep = cepColIndex !== -1 ? String(row[cepColIndex] || '').trim() : undefined;
+    const address = addressColIndex !== -1 ? String(row[addressColIndex] || '').trim() : undefined;
+    const number = numberColIndex !== -1 ? String(row[numberColIndex] || '').trim() : undefined;
+    const neighborhood = neighborhoodColIndex !== -1 ? String(row[neighborhoodColIndex] || '').trim() : undefined;
+    const city = cityColIndex !== -1 ? String(row[cityColIndex] || '').trim() : undefined;
+    const state = stateColIndex !== -1 ? String(row[stateColIndex] || '').trim() : undefined;
+    const services = servicesColIndex !== -1 ? String(row[servicesColIndex] || '').trim() : undefined;
+    let openingHours = openingHoursColIndex !== -1 ? String(row[openingHoursColIndex] || '').trim() : undefined;
+    const rawPhone = phoneColIndex !== -1 ? String(row[phoneColIndex] || '').trim() : '';
+    const rawWhatsapp = whatsappColIndex !== -1 ? String(row[whatsappColIndex] || '').trim() : '';
+    const rawEmail = emailColIndex !== -1 ? String(row[emailColIndex] || '').trim() : '';
+
+    let latitude = parseCoordinate(latValue);
+    let longitude = parseCoordinate(lonValue);
+
+    // Rows with an address but no coordinates can be geocoded by an admin
+    const hasNoCoordinates = !String(latValue ?? '').trim() && !String(lonValue ?? '').trim();
+    if (hasNoCoordinates && city && state) {
+      const addressKey = buildAddressKey({ address, number, neighborhood, city, state, cep });
+      const accepted = geocodes?.[addressKey];
+
+      if (accepted) {
+        latitude = accepted.latitude;
+        longitude = accepted.longitude;
+      } else {
+        pendingGeocodes.push({
+          row: rowNumber,
+          name,
+          addressKey,
+          cep: cep || undefined,
+          address: address || undefined,
+          number: number || undefined,
+          neighborhood: neighborhood || undefined,
+          city,
+          state,
+        });
+        issues.push({
+          row: rowNumber,
+          column: headers[latColIndex],
+          value: '',
+          severity: 'error',
+          reason: `Sem coordenadas para "${name}" (geocodificação pendente)`,
+        });
+        continue;
+      }
+    }
 
     if (isNaN(latitude) || isNaN(longitude)) {
-      errors.push(`Linha ${i + 1}: Coordenadas inválidas para "${name}"`);
+      const invalidColIndex = isNaN(latitude) ? latColIndex : lonColIndex;
+      issues.push({
+        row: rowNumber,
+        column: headers[invalidColIndex],
+        value: String(row[invalidColIndex] ?? ''),
+        severity: 'error',
+        reason: `Coordenadas inválidas para "${name}"`,
+      });
       continue;
     }
 
     if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
-      errors.push(`Linha ${i + 1}: Coordenadas fora do intervalo válido para "${name}"`);
+      const latOutOfRange = latitude < -90 || latitude > 90;
+      issues.push({
+        row: rowNumber,
+        column: headers[latOutOfRange ? latColIndex : lonColIndex],
+        value: String(latOutOfRange ? latitude : longitude),
+        severity: 'error',
+        reason: `Coordenadas fora do intervalo válido para "${name}"`,
+      });
       continue;
     }
 
-    // Extract optional address fields
-    const cep = cepColIndex !== -1 ? String(row[cepColIndex] || '').trim() : undefined;
-    const address = addressColIndex !== -1 ? String(row[addressColIndex] || '').trim() : undefined;
-    const number = numberColIndex !== -1 ? String(row[numberColIndex] || '').trim() : undefined;
-    const neighborhood = neighborhoodColIndex !== -1 ? String(row[neighborhoodColIndex] || '').trim() : undefined;
-    const city = cityColIndex !== -1 ? String(row[cityColIndex] || '').trim() : undefined;
-    const state = stateColIndex !== -1 ? String(row[stateColIndex] || '').trim() : undefined;
-    const services = servicesColIndex !== -1 ? String(row[servicesColIndex] || '').trim() : undefined;
+    // A malformed CEP does not block routing, but is flagged for correction
+    if (cep && cep.replace(/\D/g, '').length !== 8) {
+      issues.push({
+        row: rowNumber,
+        column: headers[cepColIndex],
+        value: cep,
+        severity: 'warning',
+        reason: 'CEP deve conter 8 dígitos',
+      });
+    }
+
+    // Unreadable hours are dropped so the provider is treated as having no schedule
+    if (openingHours) {
+      const parsedHours = parseOpeningHours(openingHours);
+      if (!parsedHours.hours) {
+        issues.push({
+          row: rowNumber,
+          column: headers[openingHoursColIndex],
+          value: openingHours,
+          severity: 'warning',
+          reason: parsedHours.error,
+        });
+        openingHours = undefined;
+      }
+    }
+
+    // Invalid contacts are dropped individually; the row itself is kept
+    const { phones, invalid: invalidPhones } = parsePhoneList(rawPhone);
+    for (const { value, error } of invalidPhones) {
+      issues.push({ row: rowNumber, column: headers[phoneColIndex], value, severity: 'warning', reason: error });
+    }
+
+    let whatsapp: string | undefined;
+    if (rawWhatsapp && isAffirmativeWhatsApp(rawWhatsapp)) {
+      whatsapp = rawWhatsapp;
+    } else if (rawWhatsapp) {
+      const { phones: whatsappPhones, invalid: invalidWhatsapp } = parsePhoneList(rawWhatsapp);
+      for (const { value, error } of invalidWhatsapp) {
+        issues.push({ row: rowNumber, column: headers[whatsappColIndex], value, severity: 'warning', reason: error });
+      }
+      whatsapp = whatsappPhones.length > 0 ? formatBrazilianPhone(whatsappPhones[0]) : undefined;
+    }
+
+    if (rawEmail && !isValidEmail(rawEmail)) {
+      issues.push({ row: rowNumber, column: headers[emailColIndex], value: rawEmail, severity: 'warning', reason: 'E-mail inválido' });
+    }
 
     locations.push({
+      sourceKey: String(rowNumber),
       name,
       latitude,
       longitude,
@@ -146,27 +392,110 @@ function parseRows(jsonData: unknown[][]): ParseResult {
       city: city || undefined,
       state: state || undefined,
       services: services || undefined,
+      openingHours: openingHours || undefined,
+      phone: phones.length > 0 ? phones.map(formatBrazilianPhone).join(' / ') : undefined,
+      whatsapp,
+      email: rawEmail && isValidEmail(rawEmail) ? rawEmail : undefined,
     });
   }
 
+  const errorIssues = issues.filter(issue => issue.severity === 'error');
+
   if (locations.length === 0) {
     return {
       success: false,
       data: [],
       error:
-        errors.length > 0
-          ? `Nenhum local válido encontrado. Erros: ${errors.slice(0, 3).join('; ')}`
+        errorIssues.length > 0
+          ? `Nenhum local válido encontrado. Erros: ${errorIssues.slice(0, 3).map(issue => `Linha ${issue.row}: ${issue.reason}`).join('; ')}`
           : 'Nenhum local válido encontrado na planilha.',
+      issues,
+      pendingGeocodes,
     };
   }
 
   return {
     success: true,
     data: locations,
-    error: errors.length > 0 ? `${locations.length} locais carregados. ${errors.length} linhas com erro.` : undefined,
+    error: errorIssues.length > 0 ? `${locations.length} locais carregados. ${errorIssues.length} linhas com erro.` : undefined,
+    issues,
+    pendingGeocodes,
   };
 }
 
+/**
+ * Tags a tab's parse result with its tab, so rows from several tabs can be merged.
+ * Source keys become "<gid>:<line>", matching the keys stored by sync-locations.
+ */
+export function tagParseResult(result: ParseResult, tab: SheetTab): ParseResult {
+  const tabName = tab.name || undefined;
+  const issues = result.issues.map(issue => ({ ...issue, tab: tabName }));
+
+  // A tab that fails as a whole (e.g. missing columns) is reported as an issue of its own
+  if (!result.success && result.issues.length === 0 && result.error) {
+    issues.push({ row: 1, tab: tabName, severity: 'error', reason: result.error });
+  }
+
+  return {
+    ...result,
+    data: result.data.map(location => ({
+      ...location,
+      sourceKey: `${tab.gid}:${location.sourceKey}`,
+      sourceTab: tabName,
+    })),
+    issues,
+    pendingGeocodes: result.pendingGeocodes.map(row => ({ ...row, tab: tabName })),
+  };
+}
+
+/**
+ * Merges the parse results of several tabs into one network.
+ */
+export function mergeParseResults(results: ParseResult[]): ParseResult {
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const data = results.flatMap(result => result.data);
+  const issues = results.flatMap(result => result.issues);
+  const pendingGeocodes = results.flatMap(result => result.pendingGeocodes);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  if (data.length === 0) {
+    return {
+      success: false,
+      data: [],
+      error: results.find(result => result.error)?.error ?? 'Nenhum local válido encontrado na planilha.',
+      sheetName: results[0]?.sheetName,
+      issues,
+      pendingGeocodes,
+    };
+  }
+
+  return {
+    success: true,
+    data,
+    error: errorCount > 0 ? `${data.length} locais carregados. ${errorCount} linhas com erro.` : undefined,
+    sheetName: results[0]?.sheetName,
+    issues,
+    pendingGeocodes,
+  };
+}
+
+/**
+ * Returns the header row of CSV text, skipping the name row (A1) when present.
+ */
+export function extractHeaders(csvText: string, hasNameRow: boolean = false): string[] {
+  try {
+    const rows = parseCSV(csvText);
+    const headerRow = rows[hasNameRow ? 1 : 0] ?? [];
+    const headers = headerRow.map(h => String(h).trim()).filter(Boolean);
+    return Array.from(new Set(headers));
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Extracts the sheet name from the first line (cell A1) of CSV text.
  * This is a lightweight function for fetching just the name without parsing all data.
@@ -184,7 +513,12 @@ export function extractSheetName(csvText: string): string | null {
   }
 }
 
-export function parseSpreadsheetText(csvText: string, hasNameRow: boolean = false): ParseResult {
+export function parseSpreadsheetText(
+  csvText: string,
+  hasNameRow: boolean = false,
+  columnMapping?: ColumnMapping | null,
+  geocodes?: GeocodeOverrides | null
+): ParseResult {
   try {
     const rows = parseCSV(csvText);
     
@@ -194,22 +528,24 @@ export function parseSpreadsheetText(csvText: string, hasNameRow: boolean = fals
         ? String(rows[0][0]).trim() 
         : undefined;
       const dataRows = rows.slice(1); // Skip the name row
-      const result = parseRows(dataRows as unknown[][]);
+      const result = parseRows(dataRows as unknown[][], columnMapping, 1, geocodes);
       return { ...result, sheetName };
     }
     
-    return parseRows(rows as unknown[][]);
+    return parseRows(rows as unknown[][], columnMapping, 0, geocodes);
   } catch (error) {
     devLog.error('Parse error:', error);
     return {
       success: false,
       data: [],
       error: 'Erro ao processar a planilha. Verifique se o CSV é válido.',
+      issues: [],
+      pendingGeocodes: [],
     };
   }
 }
 
-export async function parseSpreadsheet(file: File): Promise<ParseResult> {
+export async function parseSpreadsheet(file: File, columnMapping?: ColumnMapping | null): Promise<ParseResult> {
   try {
     let jsonData: unknown[][];
 
@@ -225,13 +561,15 @@ export async function parseSpreadsheet(file: File): Promise<ParseResult> {
       jsonData = rows as unknown[][];
     }
 
-    return parseRows(jsonData);
+    return parseRows(jsonData, columnMapping);
   } catch (error) {
     devLog.error('Parse error:', error);
     return {
       success: false,
       data: [],
       error: 'Erro ao processar a planilha. Verifique se o arquivo é um CSV ou Excel válido.',
+      issues: [],
+      pendingGeocodes: [],
     };
   }
 }
@@ -7,10 +7,12 @@ const ALLOWED_HOSTS = [
   'docs.google.com',
   'viacep.com.br',
   'brasilapi.com.br',
-  'nominatim.openstreetmap.org',
   'servicodados.ibge.gov.br',
 ] as const;
 
+// Servers configured by empresa admins are fetched by edge functions; only public HTTPS hosts are accepted
+export { isPublicHttpsUrl } from '../../supabase/functions/_shared/publicUrl.ts';
+
 /**
  * Validates that a URL belongs to an allowed host and uses HTTPS.
  */
@@ -47,16 +49,6 @@ export function buildBrasilApiCepUrl(cep: string): string {
   return `https://brasilapi.com.br/api/cep/v1/${encodeURIComponent(clean)}`;
 }
 
-/**
- * Builds a validated Nominatim reverse geocoding URL.
- */
-export function buildNominatimReverseUrl(lat: number, lon: number): string {
-  if (lat < -90 || lat > 90 || lon < -180 || lon > 180) {
-    throw new Error('Invalid coordinates');
-  }
-  return `https://nominatim.openstreetmap.org/reverse?format=json&lat=${encodeURIComponent(lat)}&lon=${encodeURIComponent(lon)}&addressdetails=1`;
-}
-
 /**
  * Builds a validated IBGE municipalities URL.
  */
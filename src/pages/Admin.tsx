@@ -2,14 +2,29 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { useEmpresa } from '@/hooks/useEmpresa';
+import type { Empresa } from '@/contexts/EmpresaContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Save, Loader2, AlertCircle, CheckCircle2, Settings, Link2, Eye, EyeOff } from 'lucide-react';
-import { isValidGoogleSheetsUrl, fetchGoogleSheetsCsv, validateRequiredColumns } from '@/lib/googleSheets';
+import { ArrowLeft, Save, Loader2, AlertCircle, CheckCircle2, Settings, Link2, Eye, EyeOff, Columns3, FileWarning, RefreshCw, MapPinned, Layers, ListChecks, Globe, Radar, Route } from 'lucide-react';
+import { isValidGoogleSheetsUrl, fetchGoogleSheetsCsv, validateRequiredColumns, DEFAULT_SHEET_TAB, type SheetTab } from '@/lib/googleSheets';
 import { parseCSV } from '@/lib/csv';
 import { devLog } from '@/lib/logger';
+import { parseSpreadsheetText, tagParseResult, mergeParseResults, type ColumnMapping, type ParseIssue, type ParseResult, type PendingGeocodeRow } from '@/lib/spreadsheet';
+import { fetchAcceptedGeocodes, saveAcceptedGeocodes, type BatchGeocodeResult } from '@/lib/batchGeocoding';
+import { DEFAULT_SERVICE_VOCABULARY, formatServiceVocabulary, parseServiceVocabulary, parseServices, resolveServiceVocabulary, type ServiceVocabulary } from '@/lib/services';
+import { DEFAULT_GEOCODER_CONFIG, GEOCODER_LABELS, type GeocoderConfig, type GeocoderId } from '@/lib/geocoding';
+import { fetchGeocodeCacheStats, type GeocodeCacheStats } from '@/lib/geocodeCache';
+import { isPublicHttpsUrl } from '@/lib/urlValidation';
+import { DEFAULT_SEARCH_SETTINGS, SEARCH_SETTINGS_LIMITS, SEARCH_SETTINGS_MINIMUMS, isValidSearchSettings, resolveSearchSettings, type SearchSettings } from '@/lib/searchSettings';
+import { ROUTER_LABELS, type RoutingConfig, type RouterId } from '@/lib/routing';
+import { ColumnMappingEditor } from '@/components/ColumnMappingEditor';
+import { ImportIssuesReport } from '@/components/ImportIssuesReport';
+import { BatchGeocodingPanel } from '@/components/BatchGeocodingPanel';
+import { ProviderOrderList } from '@/components/ProviderOrderList';
 
 export default function Admin() {
   const { empresa, isAdminValidated, setAdminValidated, setEmpresa } = useEmpresa();
@@ -25,6 +40,23 @@ export default function Admin() {
   const [isSaving, setIsSaving] = useState(false);
   const [isTestingSheet, setIsTestingSheet] = useState(false);
   const [sheetTestResult, setSheetTestResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [sheetHeaders, setSheetHeaders] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [importIssues, setImportIssues] = useState<ParseIssue[]>([]);
+  const [pendingGeocodes, setPendingGeocodes] = useState<PendingGeocodeRow[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncResult, setSyncResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [availableTabs, setAvailableTabs] = useState<SheetTab[]>([]);
+  const [selectedTabs, setSelectedTabs] = useState<SheetTab[]>([]);
+  const [isLoadingTabs, setIsLoadingTabs] = useState(false);
+  const [tabsMessage, setTabsMessage] = useState<string | null>(null);
+  const [serviceVocabularyText, setServiceVocabularyText] = useState('');
+  const [unrecognizedServices, setUnrecognizedServices] = useState<string[]>([]);
+  const [geocoderOrder, setGeocoderOrder] = useState<GeocoderId[]>(DEFAULT_GEOCODER_CONFIG.order);
+  const [selfHostedUrl, setSelfHostedUrl] = useState('');
+  const [cacheStats, setCacheStats] = useState<GeocodeCacheStats | null>(null);
+  const [searchSettings, setSearchSettings] = useState<SearchSettings>(DEFAULT_SEARCH_SETTINGS);
+  const [routingOrder, setRoutingOrder] = useState<RouterId[]>([]);
   
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -33,8 +65,31 @@ export default function Admin() {
     if (empresa?.google_sheets_url) {
       setGoogleSheetsUrl(empresa.google_sheets_url);
     }
+    setColumnMapping(empresa?.column_mapping ?? {});
+    setSelectedTabs(empresa?.sheet_tabs ?? []);
+    setServiceVocabularyText(formatServiceVocabulary(resolveServiceVocabulary(empresa?.service_vocabulary)));
+    setGeocoderOrder(empresa?.geocoder_config?.order ?? DEFAULT_GEOCODER_CONFIG.order);
+    setSelfHostedUrl(empresa?.geocoder_config?.selfHostedUrl ?? '');
+    setSearchSettings(resolveSearchSettings(empresa?.search_settings));
+    setRoutingOrder(empresa?.routing_config?.order ?? []);
   }, [empresa]);
 
+  // The default vocabulary is stored as null so it keeps following app updates
+  const getServiceVocabularyToSave = (): ServiceVocabulary | null => {
+    const vocabulary = parseServiceVocabulary(serviceVocabularyText);
+    if (vocabulary.length === 0) return null;
+    return formatServiceVocabulary(vocabulary) === formatServiceVocabulary(DEFAULT_SERVICE_VOCABULARY)
+      ? null
+      : vocabulary;
+  };
+
+  useEffect(() => {
+    if (!validatedAdminSecret || !empresa?.id) return;
+    fetchGeocodeCacheStats(empresa.id, validatedAdminSecret)
+      .then(setCacheStats)
+      .catch((error) => devLog.error('Cache stats error:', error));
+  }, [validatedAdminSecret, empresa?.id]);
+
   // Redirect if no empresa
   useEffect(() => {
     if (!empresa) {
@@ -100,32 +155,72 @@ export default function Admin() {
 
     setIsTestingSheet(true);
     setSheetTestResult(null);
+    setImportIssues([]);
+    setPendingGeocodes([]);
+    setUnrecognizedServices([]);
 
     try {
-      const csvContent = await fetchGoogleSheetsCsv(googleSheetsUrl);
-      const lines = csvContent.trim().split('\n');
-      
-      // Get headers (might be line 1 or line 2 depending on format)
-      let headerLine = lines[0];
-      if (lines.length > 1 && !headerLine.toLowerCase().includes('nome') && !headerLine.toLowerCase().includes('latitude')) {
-        headerLine = lines[1];
+      const tabs = selectedTabs.length > 0 ? selectedTabs : [DEFAULT_SHEET_TAB];
+      const [csvContents, geocodes] = await Promise.all([
+        Promise.all(tabs.map(tab => fetchGoogleSheetsCsv(googleSheetsUrl, tab.gid))),
+        empresa ? fetchAcceptedGeocodes(empresa.id) : Promise.resolve({}),
+      ]);
+
+      const allHeaders: string[] = [];
+      const tabResults: ParseResult[] = [];
+
+      for (let i = 0; i < tabs.length; i++) {
+        const csvContent = csvContents[i];
+        const lines = csvContent.trim().split('\n');
+
+        // Get headers (might be line 1 or line 2 depending on format)
+        let headerLine = lines[0];
+        if (lines.length > 1 && !headerLine.toLowerCase().includes('nome') && !headerLine.toLowerCase().includes('latitude')) {
+          headerLine = lines[1];
+        }
+
+        const hasNameRow = headerLine !== lines[0];
+        const headers = parseCSV(headerLine)[0] || [];
+        allHeaders.push(...headers.map(h => h.trim()).filter(Boolean));
+        const validation = validateRequiredColumns(headers, columnMapping);
+
+        if (!validation.valid) {
+          setSheetHeaders(Array.from(new Set(allHeaders)));
+          const tabLabel = tabs[i].name ? ` na aba "${tabs[i].name}"` : '';
+          setSheetTestResult({
+            success: false,
+            message: `Colunas obrigatórias não encontradas${tabLabel}: ${validation.missing.join(', ')}`,
+          });
+          return;
+        }
+
+        tabResults.push(tagParseResult(parseSpreadsheetText(csvContent, hasNameRow, columnMapping, geocodes), tabs[i]));
       }
-      
-      const headers = parseCSV(headerLine)[0] || [];
-      const validation = validateRequiredColumns(headers);
 
-      if (!validation.valid) {
+      setSheetHeaders(Array.from(new Set(allHeaders)));
+      const result = mergeParseResults(tabResults);
+      setImportIssues(result.issues);
+      setPendingGeocodes(result.pendingGeocodes);
+
+      // Checked against the vocabulary being edited, so changes can be tested before saving
+      const vocabulary = parseServiceVocabulary(serviceVocabularyText);
+      setUnrecognizedServices(Array.from(new Set(
+        result.data.flatMap(location => parseServices(location.services, vocabulary).unrecognized)
+      )).sort((a, b) => a.localeCompare(b, 'pt-BR')));
+
+      if (!result.success) {
         setSheetTestResult({
           success: false,
-          message: `Colunas obrigatórias não encontradas: ${validation.missing.join(', ')}`,
+          message: result.error || 'Nenhum local válido encontrado na planilha.',
         });
         return;
       }
 
-      const dataRows = lines.length - (lines[0].toLowerCase().includes('nome') ? 1 : 2);
       setSheetTestResult({
         success: true,
-        message: `Planilha válida! ${dataRows} locais encontrados.`,
+        message: result.error
+          ? `Planilha válida! ${result.error}`
+          : `Planilha válida! ${result.data.length} locais encontrados.`,
       });
     } catch (error) {
       setSheetTestResult({
@@ -137,6 +232,148 @@ export default function Admin() {
     }
   };
 
+  const handleAcceptGeocodes = async (accepted: BatchGeocodeResult[]) => {
+    if (!validatedAdminSecret || !empresa) {
+      setAdminValidated(false);
+      return;
+    }
+
+    try {
+      await saveAcceptedGeocodes(empresa.id, validatedAdminSecret, accepted);
+      toast({
+        title: 'Sucesso',
+        description: `${accepted.length} coordenadas salvas.`,
+      });
+    } catch (error) {
+      devLog.error('Save geocodes error:', error);
+      toast({
+        title: 'Erro',
+        description: 'Não foi possível salvar as coordenadas.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Accepted rows now parse with coordinates: refresh the network and the report
+    await handleSyncLocations();
+    await handleTestSheet();
+  };
+
+  const handleLoadTabs = async () => {
+    if (!validatedAdminSecret || !empresa) {
+      setAdminValidated(false);
+      return;
+    }
+
+    if (!isValidGoogleSheetsUrl(googleSheetsUrl)) {
+      setTabsMessage('URL inválida. Use um link do Google Sheets.');
+      return;
+    }
+
+    setIsLoadingTabs(true);
+    setTabsMessage(null);
+
+    try {
+      const { data: responseData, error: fnError } = await supabase.functions.invoke('sync-locations', {
+        body: {
+          action: 'list-tabs',
+          empresa_id: empresa.id,
+          admin_secret: validatedAdminSecret,
+          google_sheets_url: googleSheetsUrl.trim(),
+        },
+      });
+
+      if (fnError || !responseData?.success || !Array.isArray(responseData.tabs)) {
+        throw new Error('Failed to list tabs');
+      }
+
+      const tabs: SheetTab[] = responseData.tabs;
+      setAvailableTabs(tabs);
+      // Keep only selections that still exist in the workbook
+      setSelectedTabs(prev => prev.filter(selected => tabs.some(tab => tab.gid === selected.gid)));
+      if (tabs.length === 0) {
+        setTabsMessage('A planilha possui apenas uma aba.');
+      }
+    } catch (error) {
+      devLog.error('List tabs error:', error);
+      setTabsMessage('Não foi possível carregar as abas. Verifique se a planilha está publicada na web.');
+    } finally {
+      setIsLoadingTabs(false);
+    }
+  };
+
+  const toggleTab = (tab: SheetTab, checked: boolean) => {
+    setSelectedTabs(prev => checked
+      ? [...prev.filter(selected => selected.gid !== tab.gid), tab]
+      : prev.filter(selected => selected.gid !== tab.gid));
+    setSheetTestResult(null);
+  };
+
+  // Copies the sheet into the locations table used by route calculation
+  const handleSyncLocations = async (currentEmpresa: Empresa | null = empresa) => {
+    if (!validatedAdminSecret || !currentEmpresa) {
+      setAdminValidated(false);
+      return;
+    }
+
+    setIsSyncing(true);
+    setSyncResult(null);
+
+    try {
+      const { data: responseData, error: fnError } = await supabase.functions.invoke('sync-locations', {
+        body: {
+          action: 'sync',
+          empresa_id: currentEmpresa.id,
+          admin_secret: validatedAdminSecret,
+        },
+      });
+
+      if (fnError || !responseData?.success) {
+        throw new Error('Failed to sync locations');
+      }
+
+      const skippedText = responseData.skipped > 0
+        ? ` ${responseData.skipped} linha(s) ignorada(s).`
+        : '';
+      setSyncResult({
+        success: true,
+        message: `${responseData.imported} prestadores sincronizados.${skippedText}`,
+      });
+      setEmpresa({ ...currentEmpresa, locations_synced_at: new Date().toISOString() });
+    } catch (error) {
+      devLog.error('Sync error:', error);
+      setSyncResult({
+        success: false,
+        message: 'Não foi possível sincronizar os prestadores. Verifique a planilha e tente novamente.',
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Only the public Nominatim is stored as null, the default
+  const getGeocoderConfigToSave = (): GeocoderConfig | null => {
+    if (geocoderOrder.length === 1 && geocoderOrder[0] === 'nominatim') return null;
+    return geocoderOrder.includes('self-hosted')
+      ? { order: geocoderOrder, selfHostedUrl: selfHostedUrl.trim() }
+      : { order: geocoderOrder };
+  };
+
+  // The default limits are stored as null so they keep following app updates
+  const getSearchSettingsToSave = (): SearchSettings | null => {
+    const isDefault = (Object.keys(DEFAULT_SEARCH_SETTINGS) as (keyof SearchSettings)[])
+      .every((key) => searchSettings[key] === DEFAULT_SEARCH_SETTINGS[key]);
+    return isDefault ? null : searchSettings;
+  };
+
+  // No service selected is stored as null: the server uses the environment's order
+  const getRoutingConfigToSave = (): RoutingConfig | null =>
+    routingOrder.length > 0 ? { order: routingOrder } : null;
+
+  const updateSearchSetting = (key: keyof SearchSettings, value: string) => {
+    setSearchSettings(prev => ({ ...prev, [key]: value === '' ? NaN : Number(value) }));
+  };
+
   const handleSave = async () => {
     if (!googleSheetsUrl.trim()) {
       toast({
@@ -156,7 +393,30 @@ export default function Admin() {
       return;
     }
 
+    if (geocoderOrder.includes('self-hosted') && !isPublicHttpsUrl(selfHostedUrl.trim())) {
+      toast({
+        title: 'Erro',
+        description: 'Informe uma URL HTTPS pública para o Nominatim próprio. Endereços IP, localhost e nomes de rede interna não são aceitos.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!isValidSearchSettings(searchSettings)) {
+      toast({
+        title: 'Erro',
+        description: `Limites de busca inválidos. Use um raio de ${SEARCH_SETTINGS_MINIMUMS.radiusKm} a ${SEARCH_SETTINGS_LIMITS.radiusKm} km, até ${SEARCH_SETTINGS_LIMITS.maxCandidates} prestadores por busca e no máximo ${SEARCH_SETTINGS_LIMITS.minResults} resultados mínimos, sem ultrapassar os prestadores por busca.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsSaving(true);
+    let savedEmpresa: Empresa | null = null;
+    const serviceVocabulary = getServiceVocabularyToSave();
+    const geocoderConfig = getGeocoderConfigToSave();
+    const searchSettingsToSave = getSearchSettingsToSave();
+    const routingConfig = getRoutingConfigToSave();
 
     try {
       // Use admin secret from memory (not sessionStorage) for security
@@ -177,6 +437,12 @@ export default function Admin() {
           empresa_id: empresa?.id,
           admin_secret: validatedAdminSecret,
           google_sheets_url: googleSheetsUrl.trim(),
+          column_mapping: Object.keys(columnMapping).length > 0 ? columnMapping : null,
+          sheet_tabs: selectedTabs.length > 0 ? selectedTabs : null,
+          service_vocabulary: serviceVocabulary,
+          geocoder_config: geocoderConfig,
+          search_settings: searchSettingsToSave,
+          routing_config: routingConfig,
         },
       });
 
@@ -186,10 +452,17 @@ export default function Admin() {
 
       // Update local context
       if (empresa) {
-        setEmpresa({
+        savedEmpresa = {
           ...empresa,
           google_sheets_url: googleSheetsUrl.trim(),
-        });
+          column_mapping: Object.keys(columnMapping).length > 0 ? columnMapping : null,
+          sheet_tabs: selectedTabs.length > 0 ? selectedTabs : null,
+          service_vocabulary: serviceVocabulary,
+          geocoder_config: geocoderConfig,
+          search_settings: searchSettingsToSave,
+          routing_config: routingConfig,
+        };
+        setEmpresa(savedEmpresa);
       }
 
       toast({
@@ -203,9 +476,15 @@ export default function Admin() {
         description: 'Não foi possível salvar as configurações.',
         variant: 'destructive',
       });
+      return;
     } finally {
       setIsSaving(false);
     }
+
+    // Refresh the stored network so searches use the saved sheet and mapping
+    if (savedEmpresa) {
+      await handleSyncLocations(savedEmpresa);
+    }
   };
 
   if (!empresa) {
@@ -330,6 +609,11 @@ export default function Admin() {
                   onChange={(e) => {
                     setGoogleSheetsUrl(e.target.value);
                     setSheetTestResult(null);
+                    setSheetHeaders([]);
+                    setImportIssues([]);
+                    setPendingGeocodes([]);
+                    setAvailableTabs([]);
+                    setTabsMessage(null);
                   }}
                 />
                 <p className="text-xs text-muted-foreground">
@@ -337,6 +621,38 @@ export default function Admin() {
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <label className="text-sm font-medium flex items-center gap-2">
+                    <Layers className="h-4 w-4" />
+                    Abas (redes de prestadores)
+                  </label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleLoadTabs}
+                    disabled={isLoadingTabs || !googleSheetsUrl.trim()}
+                  >
+                    {isLoadingTabs ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Carregar abas'}
+                  </Button>
+                </div>
+                {(availableTabs.length > 0 ? availableTabs : selectedTabs).map((tab) => (
+                  <label key={tab.gid} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedTabs.some(selected => selected.gid === tab.gid)}
+                      onCheckedChange={(checked) => toggleTab(tab, checked === true)}
+                    />
+                    {tab.name}
+                  </label>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  {tabsMessage ?? (selectedTabs.length > 0
+                    ? `${selectedTabs.length} ${selectedTabs.length === 1 ? 'aba selecionada' : 'abas selecionadas'}. Cada aba é uma rede que o usuário pode escolher na busca.`
+                    : 'Sem abas selecionadas, apenas a primeira aba da planilha é usada.')}
+                </p>
+              </div>
+
               {sheetTestResult && (
                 <div
                   className={`flex items-center gap-2 text-sm p-3 rounded-md ${
@@ -393,6 +709,314 @@ export default function Admin() {
             </CardContent>
           </Card>
 
+          {/* Column Mapping */}
+          <Card className="rounded-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Columns3 className="h-5 w-5" />
+                Mapeamento de Colunas
+              </CardTitle>
+              <CardDescription>
+                Indique qual coluna da planilha corresponde a cada campo. Campos em "Automático" usam os nomes de coluna padrão.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {sheetHeaders.length > 0 ? (
+                <ColumnMappingEditor
+                  headers={sheetHeaders}
+                  value={columnMapping}
+                  onChange={(mapping) => {
+                    setColumnMapping(mapping);
+                    setSheetTestResult(null);
+                  }}
+                  disabled={isSaving}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Clique em "Testar Planilha" para carregar as colunas disponíveis.
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                O mapeamento é aplicado para todos os usuários da empresa após salvar.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Services Vocabulary */}
+          <Card className="rounded-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ListChecks className="h-5 w-5" />
+                Serviços
+              </CardTitle>
+              <CardDescription>
+                Um serviço por linha, no formato "Nome: sinônimo, sinônimo". Os sinônimos são as grafias aceitas na coluna de serviços da planilha.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={serviceVocabularyText}
+                onChange={(e) => setServiceVocabularyText(e.target.value)}
+                disabled={isSaving}
+                rows={10}
+                className="font-mono text-xs"
+              />
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setServiceVocabularyText(formatServiceVocabulary(DEFAULT_SERVICE_VOCABULARY))}
+                  disabled={isSaving}
+                >
+                  Restaurar padrão
+                </Button>
+              </div>
+              {unrecognizedServices.length > 0 && (
+                <div className="text-sm p-3 rounded-md text-destructive bg-destructive/10">
+                  <p className="font-medium">Serviços não reconhecidos no último teste:</p>
+                  <p>{unrecognizedServices.join(', ')}</p>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Os serviços são aplicados para todos os usuários da empresa após salvar.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Geocoders */}
+          <Card className="rounded-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Globe className="h-5 w-5" />
+                Serviços de Geocodificação
+              </CardTitle>
+              <CardDescription>
+                Serviços usados para localizar endereços, na ordem em que são consultados. O próximo é usado quando o anterior não encontra o endereço ou está indisponível.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ProviderOrderList
+                labels={GEOCODER_LABELS}
+                value={geocoderOrder}
+                onChange={setGeocoderOrder}
+                idPrefix="geocoder"
+                disabled={isSaving}
+              />
+              {geocoderOrder.includes('self-hosted') && (
+                <div className="space-y-2">
+                  <label htmlFor="self-hosted-url" className="text-sm font-medium">
+                    URL do Nominatim próprio
+                  </label>
+                  <Input
+                    id="self-hosted-url"
+                    type="url"
+                    placeholder="https://nominatim.suaempresa.com.br"
+                    value={selfHostedUrl}
+                    onChange={(e) => setSelfHostedUrl(e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+              )}
+              {cacheStats && (
+                <p className="text-sm text-muted-foreground">
+                  Cache de endereços: {cacheStats.hits.toLocaleString('pt-BR')} {cacheStats.hits === 1 ? 'acerto' : 'acertos'}
+                  {' · '}{cacheStats.misses.toLocaleString('pt-BR')} {cacheStats.misses === 1 ? 'consulta externa' : 'consultas externas'}
+                  {cacheStats.hits + cacheStats.misses > 0 && ` (${Math.round((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100)}% de acertos)`}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                A configuração é aplicada para todos os usuários da empresa após salvar.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Search Limits */}
+          <Card className="rounded-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Radar className="h-5 w-5" />
+                Limites de Busca
+              </CardTitle>
+              <CardDescription>
+                Área e quantidade de prestadores consideradas em cada busca. Empresas com rede em áreas rurais costumam precisar de um raio maior.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <label htmlFor="search-radius" className="text-sm font-medium">
+                    Raio máximo (km)
+                  </label>
+                  <Input
+                    id="search-radius"
+                    type="number"
+                    min={SEARCH_SETTINGS_MINIMUMS.radiusKm}
+                    max={SEARCH_SETTINGS_LIMITS.radiusKm}
+                    value={Number.isNaN(searchSettings.radiusKm) ? '' : searchSettings.radiusKm}
+                    onChange={(e) => updateSearchSetting('radiusKm', e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="search-max-candidates" className="text-sm font-medium">
+                    Prestadores por busca
+                  </label>
+                  <Input
+                    id="search-max-candidates"
+                    type="number"
+                    min={SEARCH_SETTINGS_MINIMUMS.maxCandidates}
+                    max={SEARCH_SETTINGS_LIMITS.maxCandidates}
+                    value={Number.isNaN(searchSettings.maxCandidates) ? '' : searchSettings.maxCandidates}
+                    onChange={(e) => updateSearchSetting('maxCandidates', e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="search-min-results" className="text-sm font-medium">
+                    Resultados mínimos
+                  </label>
+                  <Input
+                    id="search-min-results"
+                    type="number"
+                    min={SEARCH_SETTINGS_MINIMUMS.minResults}
+                    max={SEARCH_SETTINGS_LIMITS.minResults}
+                    value={Number.isNaN(searchSettings.minResults) ? '' : searchSettings.minResults}
+                    onChange={(e) => updateSearchSetting('minResults', e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Quando a busca encontra menos prestadores que o mínimo, o raio é ampliado automaticamente (até {SEARCH_SETTINGS_LIMITS.radiusKm} km). Mais prestadores por busca deixam a busca mais lenta.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Routing Services */}
+          <Card className="rounded-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Route className="h-5 w-5" />
+                Serviços de Rotas
+              </CardTitle>
+              <CardDescription>
+                Serviços usados para calcular distâncias e tempos de deslocamento, na ordem em que são consultados. O próximo é usado quando o anterior falha ou não encontra a rota.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ProviderOrderList
+                labels={ROUTER_LABELS}
+                value={routingOrder}
+                onChange={setRoutingOrder}
+                idPrefix="router"
+                minEnabled={0}
+                disabled={isSaving}
+              />
+              <p className="text-xs text-muted-foreground">
+                Sem nenhum serviço marcado, é usada a ordem padrão do servidor. Os endereços dos servidores e as chaves de acesso são configurados no servidor.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Provider Network Sync */}
+          <Card className="rounded-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <RefreshCw className="h-5 w-5" />
+                Rede de Prestadores
+              </CardTitle>
+              <CardDescription>
+                As buscas usam a cópia sincronizada da planilha. Sincronize sempre que a planilha for alterada.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {empresa.locations_synced_at
+                  ? `Última sincronização: ${new Date(empresa.locations_synced_at).toLocaleString('pt-BR')}`
+                  : 'A rede ainda não foi sincronizada.'}
+              </p>
+
+              {syncResult && (
+                <div
+                  className={`flex items-center gap-2 text-sm p-3 rounded-md ${
+                    syncResult.success
+                      ? 'text-emerald bg-emerald/10'
+                      : 'text-destructive bg-destructive/10'
+                  }`}
+                >
+                  {syncResult.success ? (
+                    <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  )}
+                  <span>{syncResult.message}</span>
+                </div>
+              )}
+
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleSyncLocations()}
+                disabled={isSyncing || isSaving || !empresa.google_sheets_url}
+                className="w-full"
+              >
+                {isSyncing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sincronizando...
+                  </>
+                ) : (
+                  <>
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Sincronizar prestadores
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Batch Geocoding */}
+          {pendingGeocodes.length > 0 && (
+            <Card className="rounded-xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPinned className="h-5 w-5" />
+                  Geocodificação de Endereços
+                </CardTitle>
+                <CardDescription>
+                  Linhas sem latitude/longitude podem ser localizadas pelo endereço. Revise a precisão antes de aceitar.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <BatchGeocodingPanel
+                  rows={pendingGeocodes}
+                  onAccept={handleAcceptGeocodes}
+                  empresaId={empresa.id}
+                  disabled={isSaving || isSyncing}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Import Report */}
+          {importIssues.length > 0 && (
+            <Card className="rounded-xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileWarning className="h-5 w-5" />
+                  Relatório de Importação
+                </CardTitle>
+                <CardDescription>
+                  Linhas com problemas encontradas no último teste. Corrija-as na planilha de origem.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ImportIssuesReport issues={importIssues} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Company Info */}
           <Card className="rounded-xl">
             <CardHeader>
@@ -1,15 +1,25 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Header } from '@/components/Header';
 import { AddressForm, type SearchResult } from '@/components/AddressForm';
 import { ResultsList } from '@/components/ResultsList';
 import { useEmpresa } from '@/hooks/useEmpresa';
-import { useSheetData } from '@/hooks/useSheetData';
+import { useProviderNetwork } from '@/hooks/useProviderNetwork';
 import { Loader2, AlertCircle, FileSpreadsheet, RefreshCw, Clock, Download, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { toCSV, downloadCSV } from '@/lib/csv';
+import { fetchNetworkLocations, type NetworkLocation } from '@/lib/providerNetwork';
+import { devLog } from '@/lib/logger';
 
 const formatRelativeTime = (date: Date): string => {
   const now = new Date();
@@ -27,23 +37,53 @@ const formatRelativeTime = (date: Date): string => {
   return date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
 };
 
+const ALL_NETWORKS = '__all__';
+
 const Index = () => {
   const { empresa } = useEmpresa();
   const queryClient = useQueryClient();
   
-  const { data: sheetData, isLoading: isLoadingSheet, isFetching: isFetchingSheet, error: sheetQueryError, dataUpdatedAt } = useSheetData(empresa?.google_sheets_url);
+  // The providers are read from the network synced by the admin, never from the sheet itself
+  const { data: providerNetwork, isLoading: isLoadingSheet, isFetching: isFetchingSheet, error: sheetQueryError } = useProviderNetwork(empresa?.id);
+
+  const allNetworks = useMemo(() => providerNetwork?.networks ?? [], [providerNetwork]);
+  const networks = useMemo(() => allNetworks.filter(network => network.name), [allNetworks]);
+  const [selectedNetwork, setSelectedNetwork] = useState<string>(ALL_NETWORKS);
+
+  // Fall back to all networks when the selected tab is no longer synced
+  useEffect(() => {
+    if (selectedNetwork !== ALL_NETWORKS && !networks.some(network => network.gid === selectedNetwork)) {
+      setSelectedNetwork(ALL_NETWORKS);
+    }
+  }, [networks, selectedNetwork]);
 
-  const locations = sheetData?.locations ?? [];
-  const sheetName = sheetData?.sheetName ?? null;
-  const totalCount = locations.length;
+  const searchedNetworks = useMemo(
+    () => selectedNetwork === ALL_NETWORKS
+      ? allNetworks
+      : allNetworks.filter(network => network.gid === selectedNetwork),
+    [allNetworks, selectedNetwork]
+  );
+  // The server filters the synced locations by tab, so only the selected tab's gid is sent
+  const searchNetworks = useMemo(
+    () => selectedNetwork === ALL_NETWORKS ? undefined : [selectedNetwork],
+    [selectedNetwork]
+  );
+  const offeredServices = useMemo(
+    () => [...new Set(searchedNetworks.flatMap(network => network.services))],
+    [searchedNetworks]
+  );
+  const hasOpeningHours = searchedNetworks.some(network => network.hasOpeningHours);
+  const totalCount = searchedNetworks.reduce((sum, network) => sum + network.count, 0);
   const sheetError = !empresa?.google_sheets_url
     ? 'Nenhuma planilha configurada. Acesse as configurações para vincular uma planilha.'
     : sheetQueryError instanceof Error
       ? sheetQueryError.message
       : sheetQueryError
-        ? 'Erro ao carregar planilha.'
-        : null;
-  const lastSyncTime = dataUpdatedAt ? new Date(dataUpdatedAt) : null;
+        ? 'Erro ao carregar prestadores.'
+        : providerNetwork && !providerNetwork.syncedAt
+          ? 'Rede de prestadores não sincronizada. Peça ao administrador para sincronizar a planilha.'
+          : null;
+  const lastSyncTime = providerNetwork?.syncedAt ?? null;
 
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -52,15 +92,18 @@ const Index = () => {
   const [searchStep, setSearchStep] = useState<'idle' | 'geocoding' | 'routing' | 'finished'>('idle');
   const resultsRef = useRef<HTMLDivElement>(null);
 
-  // Reset search when locations change
-  const prevLocationsRef = useRef(locations);
+  // Reset search when the network changes: another tab is selected or the sheet was synced again
+  // (the first load of the summary does not count, a search may already be running)
+  const syncedAtMs = lastSyncTime?.getTime() ?? null;
+  const prevNetworkRef = useRef({ selectedNetwork, syncedAtMs });
   useEffect(() => {
-    if (prevLocationsRef.current !== locations && prevLocationsRef.current.length > 0 && locations.length > 0) {
+    const prev = prevNetworkRef.current;
+    if (prev.selectedNetwork !== selectedNetwork || (prev.syncedAtMs !== null && prev.syncedAtMs !== syncedAtMs)) {
       setResults([]);
       setHasSearched(false);
     }
-    prevLocationsRef.current = locations;
-  }, [locations]);
+    prevNetworkRef.current = { selectedNetwork, syncedAtMs };
+  }, [selectedNetwork, syncedAtMs]);
 
   const [refreshDone, setRefreshDone] = useState(false);
   const wasFetchingRef = useRef(false);
@@ -70,7 +113,7 @@ const Index = () => {
     if (wasFetchingRef.current && !isFetchingSheet && !isLoadingSheet) {
       wasFetchingRef.current = false;
       setRefreshDone(true);
-      toast.success('Planilha atualizada com sucesso!');
+      toast.success('Prestadores atualizados com sucesso!');
       const timer = setTimeout(() => setRefreshDone(false), 2000);
       return () => clearTimeout(timer);
     }
@@ -79,11 +122,25 @@ const Index = () => {
   const handleRefresh = useCallback(() => {
     if (isFetchingSheet) return; // prevent multiple clicks
     wasFetchingRef.current = true;
-    queryClient.refetchQueries({ queryKey: ['locations', empresa?.google_sheets_url] });
-  }, [isFetchingSheet, queryClient, empresa?.google_sheets_url]);
+    queryClient.refetchQueries({ queryKey: ['provider-network', empresa?.id] });
+  }, [isFetchingSheet, queryClient, empresa?.id]);
+
+  const [isDownloading, setIsDownloading] = useState(false);
 
-  const handleDownloadCSV = () => {
-    if (!locations.length) return;
+  const handleDownloadCSV = async () => {
+    if (!empresa?.id || !totalCount || isDownloading) return;
+
+    setIsDownloading(true);
+    let locations: NetworkLocation[];
+    try {
+      locations = await fetchNetworkLocations(empresa.id, searchNetworks);
+    } catch (error) {
+      devLog.error('Error downloading providers:', error);
+      toast.error(error instanceof Error ? error.message : 'Erro ao carregar prestadores.');
+      return;
+    } finally {
+      setIsDownloading(false);
+    }
 
     const headers = ['Clínica', 'CEP', 'Endereço (logradouro)', 'Número', 'Bairro', 'Cidade', 'Estado (UF)'];
     const rows = locations.map(loc => [
@@ -96,25 +153,7 @@ const Index = () => {
       loc.state ?? '',
     ]);
 
-    const escapeField = (field: string) => {
-      if (field.includes(';') || field.includes('"') || field.includes('\n')) {
-        return `"${field.replace(/"/g, '""')}"`;
-      }
-      return field;
-    };
-
-    const csvContent = [
-      headers.map(escapeField).join(';'),
-      ...rows.map(row => row.map(escapeField).join(';')),
-    ].join('\n');
-
-    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = 'prestadores_ativos.csv';
-    link.click();
-    URL.revokeObjectURL(url);
+    downloadCSV(toCSV([headers, ...rows]), 'prestadores_ativos.csv');
 
     toast.success('Download iniciado! Apenas prestadores ativos foram incluídos.');
   };
@@ -192,12 +231,12 @@ const Index = () => {
                     <FileSpreadsheet className="h-5 w-5 text-emerald" />
                     <div>
                       <p className="font-medium">
-                        {sheetName || 'Planilha de Prestadores'}
+                        Planilha de Prestadores
                       </p>
                       <p className="text-sm text-muted-foreground">
                         {totalCount} {totalCount === 1 ? 'prestador disponível' : 'prestadores disponíveis'}
                       </p>
-                      {lastSyncTime && dataUpdatedAt > 0 && (
+                      {lastSyncTime && (
                         <p className="text-xs text-muted-foreground flex items-center gap-1 mt-0.5">
                           <Clock className="h-3 w-3" />
                           Última sincronização: {formatRelativeTime(lastSyncTime)}
@@ -213,8 +252,9 @@ const Index = () => {
                             variant="ghost"
                             size="icon"
                             onClick={handleDownloadCSV}
+                            disabled={isDownloading}
                           >
-                            <Download className="h-4 w-4" />
+                            {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
                           </Button>
                         </TooltipTrigger>
                         <TooltipContent>
@@ -227,13 +267,30 @@ const Index = () => {
             </CardContent>
           </Card>
 
-          {/* Address Form - Only show when sheet is loaded */}
-          {!isLoadingSheet && !sheetError && totalCount > 0 && <section>
+          {/* Address Form - the search runs on the server, so it does not wait for the network summary */}
+          {!sheetError && <section>
               <h3 className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-2">
                 <span className="h-6 w-6 rounded-full bg-navy text-primary-foreground flex items-center justify-center text-xs font-bold">1</span>
                 Informe o endereço
               </h3>
-              <AddressForm locations={locations} onResults={handleResults} onError={handleError} onSearchStart={handleSearchStart} />
+              {networks.length > 1 && (
+                <div className="mb-3">
+                  <Select value={selectedNetwork} onValueChange={setSelectedNetwork}>
+                    <SelectTrigger className="bg-background" aria-label="Rede de prestadores">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_NETWORKS}>Todas as redes</SelectItem>
+                      {networks.map(network => (
+                        <SelectItem key={network.gid} value={network.gid}>
+                          {network.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <AddressForm offeredServices={offeredServices} hasOpeningHours={hasOpeningHours} networks={searchNetworks} onResults={handleResults} onError={handleError} onSearchStart={handleSearchStart} />
             </section>}
 
           {/* Results */}
@@ -56,6 +56,13 @@ export default function Login() {
         nome: data.nome,
         access_key: data.access_key,
         google_sheets_url: data.google_sheets_url,
+        column_mapping: data.column_mapping ?? null,
+        sheet_tabs: data.sheet_tabs ?? null,
+        service_vocabulary: data.service_vocabulary ?? null,
+        geocoder_config: data.geocoder_config ?? null,
+        search_settings: data.search_settings ?? null,
+        routing_config: data.routing_config ?? null,
+        locations_synced_at: data.locations_synced_at ?? null,
         is_active: data.is_active
       });
       navigate('/');
@@ -0,0 +1,411 @@
+import { useState, useEffect, useRef, type ChangeEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Upload, Loader2, AlertCircle, Play, Square, Download, Trash2, Users } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TravelModeIcon } from '@/components/TravelModeIcon';
+import { useEmpresa } from '@/hooks/useEmpresa';
+import { useToast } from '@/hooks/use-toast';
+import { downloadCSV } from '@/lib/csv';
+import { TRAVEL_MODE_LABELS, type TravelMode } from '@/lib/routing';
+import {
+  buildRosterCsv,
+  clearRosterJob,
+  DEFAULT_ROSTER_OPTIONS,
+  getPendingEntries,
+  loadRosterJob,
+  MAX_NEAREST_COUNT,
+  parseRoster,
+  processRoster,
+  saveRosterJob,
+  type RosterJob,
+  type RosterOptions,
+  type RosterRowResult,
+} from '@/lib/roster';
+
+// Seconds per person: routing is spaced to respect the calculate-routes rate limit
+const SECONDS_PER_ENTRY = 3;
+
+function formatEstimate(entries: number): string {
+  const minutes = Math.ceil((entries * SECONDS_PER_ENTRY) / 60);
+  return minutes <= 1 ? 'cerca de 1 minuto' : `cerca de ${minutes} minutos`;
+}
+
+function ResultStatus({ result }: { result?: RosterRowResult }) {
+  if (!result) {
+    return <span className="text-muted-foreground">Pendente</span>;
+  }
+  if (result.status === 'done') {
+    const nearest = result.providers[0];
+    if (!nearest) {
+      return <span className="text-muted-foreground">Nenhum prestador na região</span>;
+    }
+    return (
+      <>
+        <p className="font-medium">{nearest.name}</p>
+        <p className="text-muted-foreground">
+          {nearest.estimated && '~'}{nearest.distanceKm.toFixed(1)} km · {nearest.estimated && '~'}{Math.round(nearest.durationMinutes)} min
+        </p>
+      </>
+    );
+  }
+  return <span className="text-destructive">{result.error}</span>;
+}
+
+export default function Roster() {
+  const { empresa } = useEmpresa();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [job, setJob] = useState<RosterJob | null>(null);
+  const [options, setOptions] = useState<RosterOptions>(DEFAULT_ROSTER_OPTIONS);
+  const [skippedRows, setSkippedRows] = useState<number[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const jobRef = useRef<RosterJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateJob = (next: RosterJob | null) => {
+    jobRef.current = next;
+    setJob(next);
+  };
+
+  // Resume an unfinished roster from an earlier visit
+  useEffect(() => {
+    if (!empresa) return;
+    const saved = loadRosterJob(empresa.id);
+    if (saved) {
+      jobRef.current = saved;
+      setJob(saved);
+      setOptions(saved.options);
+    }
+  }, [empresa]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  if (!empresa) return null;
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsParsing(true);
+    setParseError(null);
+    try {
+      const parsed = await parseRoster(file);
+      setSkippedRows(parsed.skippedRows);
+      if (parsed.error) {
+        setParseError(parsed.error);
+        return;
+      }
+      if (parsed.entries.length === 0) {
+        setParseError('Nenhuma pessoa com CEP ou cidade e estado foi encontrada na planilha.');
+        return;
+      }
+
+      const next: RosterJob = { fileName: file.name, headers: parsed.headers, entries: parsed.entries, options, results: {} };
+      updateJob(next);
+      saveRosterJob(empresa.id, next);
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!jobRef.current) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    // Options can only change before the first row is processed
+    const started: RosterJob = { ...jobRef.current, options };
+    updateJob(started);
+
+    await processRoster(started, empresa.id, {
+      signal: controller.signal,
+      onResult: (entry, result) => {
+        const current = jobRef.current;
+        if (!current) return;
+        const next = { ...current, results: { ...current.results, [entry.row]: result } };
+        updateJob(next);
+        saveRosterJob(empresa.id, next);
+      },
+    });
+
+    if (abortRef.current === controller) {
+      setIsRunning(false);
+      const pending = jobRef.current ? getPendingEntries(jobRef.current).length : 0;
+      if (!controller.signal.aborted) {
+        toast({
+          title: pending > 0 ? 'Processamento concluído com falhas' : 'Processamento concluído',
+          description: pending > 0
+            ? `${pending} ${pending === 1 ? 'linha falhou' : 'linhas falharam'}. Use "Continuar" para tentar novamente.`
+            : 'Baixe a planilha com os prestadores mais próximos.',
+          variant: pending > 0 ? 'destructive' : 'default',
+        });
+      }
+    }
+  };
+
+  // The row being processed still finishes; the loop stops before the next one
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleDownload = () => {
+    if (!job) return;
+    const baseName = job.fileName.replace(/\.[^.]+$/, '');
+    downloadCSV(buildRosterCsv(job), `${baseName}_prestadores_proximos.csv`);
+  };
+
+  const handleDiscard = () => {
+    clearRosterJob(empresa.id);
+    updateJob(null);
+    setSkippedRows([]);
+    setParseError(null);
+  };
+
+  const results = job ? Object.values(job.results) : [];
+  const processedCount = results.filter(result => result.status !== 'error').length;
+  const notFoundCount = results.filter(result => result.status === 'not-found').length;
+  const errorCount = results.filter(result => result.status === 'error').length;
+  const pendingCount = job ? getPendingEntries(job).length : 0;
+  const hasStarted = results.length > 0;
+  const progress = job && job.entries.length > 0 ? (processedCount / job.entries.length) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="bg-background border-b border-border">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="sm" onClick={() => navigate('/')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Voltar
+              </Button>
+              <h1 className="text-xl font-semibold text-heading">Busca em Lote</h1>
+            </div>
+            <span className="text-sm text-muted-foreground">{empresa.nome}</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {/* Roster Upload */}
+          <Card className="rounded-xl">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Planilha de Pessoas
+              </CardTitle>
+              <CardDescription>
+                Envie um CSV ou Excel com uma coluna de nome e o endereço ou CEP de cada pessoa. Os prestadores mais próximos de cada uma são adicionados à planilha.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              {job ? (
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{job.fileName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {job.entries.length} {job.entries.length === 1 ? 'pessoa' : 'pessoas'}
+                      {skippedRows.length > 0 && ` · ${skippedRows.length} ${skippedRows.length === 1 ? 'linha ignorada' : 'linhas ignoradas'} sem CEP nem cidade e estado (${skippedRows.slice(0, 10).join(', ')}${skippedRows.length > 10 ? '…' : ''})`}
+                    </p>
+                  </div>
+                  <Button type="button" variant="outline" size="sm" onClick={handleDiscard} disabled={isRunning}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Descartar
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isParsing}
+                >
+                  {isParsing ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="h-4 w-4 mr-2" />
+                  )}
+                  Selecionar planilha
+                </Button>
+              )}
+              {parseError && (
+                <div className="flex items-center gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md" role="alert">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>{parseError}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {job && (
+            <>
+              {/* Options */}
+              <Card className="rounded-xl">
+                <CardHeader>
+                  <CardTitle className="text-base">Opções</CardTitle>
+                  <CardDescription>
+                    {hasStarted
+                      ? 'As opções não podem ser alteradas depois de iniciado o processamento.'
+                      : 'Quantidade de prestadores listados por pessoa e meio de transporte usado nas rotas.'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Prestadores por pessoa</label>
+                    <Select
+                      value={String(options.nearestCount)}
+                      onValueChange={(value) => setOptions(prev => ({ ...prev, nearestCount: Number(value) }))}
+                      disabled={isRunning || hasStarted}
+                    >
+                      <SelectTrigger className="bg-background" aria-label="Prestadores por pessoa">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: MAX_NEAREST_COUNT }, (_, index) => index + 1).map(count => (
+                          <SelectItem key={count} value={String(count)}>
+                            {count === 1 ? 'O mais próximo' : `Os ${count} mais próximos`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Meio de transporte</label>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      size="sm"
+                      value={options.travelMode}
+                      onValueChange={(value) => value && setOptions(prev => ({ ...prev, travelMode: value as TravelMode }))}
+                      disabled={isRunning || hasStarted}
+                      className="flex-wrap justify-start"
+                    >
+                      {(Object.keys(TRAVEL_MODE_LABELS) as TravelMode[]).map((mode) => (
+                        <ToggleGroupItem
+                          key={mode}
+                          value={mode}
+                          className="text-xs data-[state=on]:bg-navy data-[state=on]:text-primary-foreground"
+                        >
+                          <TravelModeIcon mode={mode} className="h-3.5 w-3.5 mr-1" />
+                          {TRAVEL_MODE_LABELS[mode]}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Progress */}
+              <Card className="rounded-xl">
+                <CardContent className="space-y-4 pt-6">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm text-muted-foreground">
+                      {processedCount} de {job.entries.length} processadas
+                      {pendingCount > 0 && ` · ${formatEstimate(pendingCount)} restantes`}
+                    </p>
+                    <div className="flex gap-2">
+                      {isRunning ? (
+                        <Button type="button" variant="outline" size="sm" onClick={handleStop}>
+                          <Square className="h-4 w-4 mr-2" />
+                          Parar
+                        </Button>
+                      ) : pendingCount > 0 && (
+                        <Button type="button" size="sm" onClick={handleStart}>
+                          <Play className="h-4 w-4 mr-2" />
+                          {hasStarted ? 'Continuar' : 'Iniciar'}
+                        </Button>
+                      )}
+                      <Button type="button" variant="outline" size="sm" onClick={handleDownload} disabled={!hasStarted}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Baixar resultado
+                      </Button>
+                    </div>
+                  </div>
+                  <Progress value={progress} className="h-2" />
+                  {(notFoundCount > 0 || errorCount > 0) && (
+                    <div className="flex flex-wrap gap-2">
+                      {notFoundCount > 0 && (
+                        <Badge variant="secondary">
+                          {notFoundCount} {notFoundCount === 1 ? 'endereço não localizado' : 'endereços não localizados'}
+                        </Badge>
+                      )}
+                      {errorCount > 0 && (
+                        <Badge variant="destructive">
+                          {errorCount} {errorCount === 1 ? 'falha' : 'falhas'} a tentar novamente
+                        </Badge>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Results */}
+              <ScrollArea className="h-96 rounded-md border bg-background">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Linha</TableHead>
+                      <TableHead>Pessoa</TableHead>
+                      <TableHead>Prestador mais próximo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {job.entries.map(entry => (
+                      <TableRow key={entry.row}>
+                        <TableCell className="font-mono text-xs">{entry.row}</TableCell>
+                        <TableCell className="text-xs">
+                          <p className="font-medium">{entry.name || '—'}</p>
+                          <p className="text-muted-foreground">
+                            {[entry.address, entry.number, entry.city, entry.state].filter(Boolean).join(', ') || `CEP ${entry.cep}`}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          <ResultStatus result={job.results[entry.row]} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
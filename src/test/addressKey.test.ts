@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { buildAddressKey } from "../../supabase/functions/_shared/addressKey.ts";
+import { parseSpreadsheetText } from "@/lib/spreadsheet";
+
+const LONG_ADDRESS = `Avenida ${"Muito Comprida ".repeat(20).trim()}`;
+
+function sheet(address: string): string {
+  return [
+    "Rede Teste",
+    "Nome do local,Latitude,Longitude,CEP,Endereço,Número,Bairro,Cidade,UF",
+    `Clínica Central,,,01310-100,"${address}",1000,Bela Vista,São Paulo,SP`,
+  ].join("\n");
+}
+
+describe("buildAddressKey", () => {
+  it("ignores case, accents, extra whitespace and CEP formatting", () => {
+    expect(
+      buildAddressKey({ address: "  Avenida  Paulista ", number: "1000", neighborhood: "Bela Vista", city: "São Paulo", state: "SP", cep: "01310-100" })
+    ).toBe(
+      buildAddressKey({ address: "avenida paulista", number: "1000", neighborhood: "bela vista", city: "SAO PAULO", state: "sp", cep: "01310100" })
+    );
+  });
+
+  it("treats missing and null parts as empty", () => {
+    expect(buildAddressKey({ city: "Campinas", state: "SP" })).toBe("|||campinas|sp|");
+    expect(buildAddressKey({ address: null, city: "Campinas", state: "SP", cep: null })).toBe("|||campinas|sp|");
+  });
+
+  it("matches the key the app reports for a pending row, long addresses included", () => {
+    expect(LONG_ADDRESS.length).toBeGreaterThan(200);
+
+    const result = parseSpreadsheetText(sheet(LONG_ADDRESS), true);
+
+    expect(result.pendingGeocodes).toHaveLength(1);
+    expect(result.pendingGeocodes[0].addressKey).toBe(
+      buildAddressKey({ address: LONG_ADDRESS, number: "1000", neighborhood: "Bela Vista", city: "São Paulo", state: "SP", cep: "01310-100" })
+    );
+  });
+
+  it("applies an accepted geocode stored under that key", () => {
+    const key = parseSpreadsheetText(sheet(LONG_ADDRESS), true).pendingGeocodes[0].addressKey;
+
+    const result = parseSpreadsheetText(sheet(LONG_ADDRESS), true, null, {
+      [key]: { latitude: -23.561, longitude: -46.656, searchUsed: "full" },
+    });
+
+    expect(result.pendingGeocodes).toHaveLength(0);
+    expect(result.data[0]).toMatchObject({ latitude: -23.561, longitude: -46.656 });
+  });
+});
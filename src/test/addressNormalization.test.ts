@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { expandStreetAbbreviations, normalizeAddress, stripComplement } from "@/lib/addressNormalization";
+
+describe("expandStreetAbbreviations", () => {
+  it("expands the street type and titles", () => {
+    expect(expandStreetAbbreviations("R. Dr. João Moura")).toBe("Rua Doutor João Moura");
+    expect(expandStreetAbbreviations("Av Brig Faria Lima")).toBe("Avenida Brigadeiro Faria Lima");
+    expect(expandStreetAbbreviations("Pça N. Sra. Aparecida")).toBe("Praça Nossa Senhora Aparecida");
+  });
+
+  it("only expands street types as the first word", () => {
+    expect(expandStreetAbbreviations("Travessa R")).toBe("Travessa R");
+  });
+
+  it("only expands titles that are common words when written with a dot", () => {
+    expect(expandStreetAbbreviations("Rua Mal. Deodoro")).toBe("Rua Marechal Deodoro");
+    expect(expandStreetAbbreviations("Rua Com Vista")).toBe("Rua Com Vista");
+  });
+});
+
+describe("stripComplement", () => {
+  it("removes the complement and everything after it", () => {
+    expect(stripComplement("Rua das Flores, apto 12")).toBe("Rua das Flores");
+    expect(stripComplement("Rua das Flores - Bloco B, ap. 3")).toBe("Rua das Flores");
+    expect(stripComplement("100 fundos")).toBe("100");
+  });
+
+  it("keeps street names that contain a complement word", () => {
+    expect(stripComplement("Avenida Casa Verde")).toBe("Avenida Casa Verde");
+  });
+});
+
+describe("normalizeAddress", () => {
+  it("expands abbreviations and strips complements from both fields", () => {
+    expect(normalizeAddress(" R. Dr. João Moura ", "1000 sala 12")).toEqual({
+      street: "Rua Doutor João Moura",
+      number: "1000",
+    });
+  });
+
+  it("takes the number from the street field when the number is empty", () => {
+    expect(normalizeAddress("Av. Paulista, 1578", "")).toEqual({ street: "Avenida Paulista", number: "1578" });
+  });
+
+  it("treats s/n as no number", () => {
+    expect(normalizeAddress("Rua das Flores", "s/n")).toEqual({ street: "Rua das Flores", number: "" });
+    expect(normalizeAddress("Rua das Flores", "S/Nº").number).toBe("");
+  });
+
+  it("rewrites highway references and drops the kilometer marker", () => {
+    expect(normalizeAddress("Rod. sp280 km 12,5", "")).toEqual({ street: "Rodovia SP-280", number: "" });
+    expect(normalizeAddress("Rodovia BR 116", "Km 30")).toEqual({ street: "Rodovia BR-116", number: "" });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeBrazilianPhone,
+  parsePhoneList,
+  formatBrazilianPhone,
+  getLocationContacts,
+  isAffirmativeWhatsApp,
+  isValidEmail,
+} from "@/lib/contacts";
+
+describe("normalizeBrazilianPhone", () => {
+  it("keeps DDD + number for landlines and mobiles", () => {
+    expect(normalizeBrazilianPhone("(11) 3333-4444")).toEqual({ digits: "1133334444" });
+    expect(normalizeBrazilianPhone("(11) 98765-4321")).toEqual({ digits: "11987654321" });
+  });
+
+  it("drops the country code and the trunk prefix", () => {
+    expect(normalizeBrazilianPhone("+55 11 98765-4321").digits).toBe("11987654321");
+    expect(normalizeBrazilianPhone("0 11 3333-4444").digits).toBe("1133334444");
+  });
+
+  it("adds the 9th digit to mobiles written with 8 digits", () => {
+    expect(normalizeBrazilianPhone("(19) 8765-4321").digits).toBe("19987654321");
+  });
+
+  it("keeps toll-free numbers without a DDD", () => {
+    expect(normalizeBrazilianPhone("0800 123 4567").digits).toBe("08001234567");
+    expect(normalizeBrazilianPhone("0800 123 456").error).toBe("Número 0800 deve conter 11 dígitos");
+  });
+
+  it("rejects numbers without a valid DDD or prefix", () => {
+    expect(normalizeBrazilianPhone("").error).toBe("Telefone vazio");
+    expect(normalizeBrazilianPhone("3333-4444").error).toBe("Telefone sem DDD");
+    expect(normalizeBrazilianPhone("(01) 3333-4444").error).toBe("DDD inválido");
+    expect(normalizeBrazilianPhone("(11) 88765-4321").error).toBe("Celular com 9 dígitos deve começar com 9");
+    expect(normalizeBrazilianPhone("(11) 1333-4444").error).toBe("Telefone fixo inválido");
+  });
+});
+
+describe("parsePhoneList", () => {
+  it("splits a cell with several numbers, dropping duplicates", () => {
+    expect(parsePhoneList("(11) 3333-4444 / (11) 98765-4321 ou 11 3333-4444")).toEqual({
+      phones: ["1133334444", "11987654321"],
+      invalid: [],
+    });
+  });
+
+  it("reports invalid entries as written", () => {
+    expect(parsePhoneList("(11) 3333-4444; 3333-5555")).toEqual({
+      phones: ["1133334444"],
+      invalid: [{ value: "3333-5555", error: "Telefone sem DDD" }],
+    });
+  });
+
+  it("returns nothing for an empty cell", () => {
+    expect(parsePhoneList(undefined)).toEqual({ phones: [], invalid: [] });
+  });
+});
+
+describe("formatBrazilianPhone", () => {
+  it("formats landlines, mobiles and toll-free numbers", () => {
+    expect(formatBrazilianPhone("1133334444")).toBe("(11) 3333-4444");
+    expect(formatBrazilianPhone("11987654321")).toBe("(11) 98765-4321");
+    expect(formatBrazilianPhone("08001234567")).toBe("0800 123 4567");
+  });
+});
+
+describe("contact fields", () => {
+  it("recognizes affirmative WhatsApp cells", () => {
+    expect(isAffirmativeWhatsApp(" Sim ")).toBe(true);
+    expect(isAffirmativeWhatsApp("X")).toBe(true);
+    expect(isAffirmativeWhatsApp("não")).toBe(false);
+    expect(isAffirmativeWhatsApp("(11) 98765-4321")).toBe(false);
+  });
+
+  it("validates e-mail addresses", () => {
+    expect(isValidEmail(" contato@clinica.com.br ")).toBe(true);
+    expect(isValidEmail("contato@clinica")).toBe(false);
+    expect(isValidEmail("contato clinica@exemplo.com")).toBe(false);
+  });
+
+  it("uses the mobile number for WhatsApp when the cell only says yes", () => {
+    expect(
+      getLocationContacts({ phone: "0800 123 4567 / (11) 3333-4444 / (11) 98765-4321", whatsapp: "sim", email: "email inválido" })
+    ).toEqual({
+      phones: ["08001234567", "1133334444", "11987654321"],
+      whatsapp: "11987654321",
+      email: undefined,
+    });
+  });
+});
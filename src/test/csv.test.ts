@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { detectDelimiter, parseCSV } from "@/lib/csv";
+
+describe("detectDelimiter", () => {
+  it("picks the most frequent delimiter on the header row", () => {
+    expect(detectDelimiter("Nome;Endereço;Cidade\nClínica A;Rua 1, 100;Campinas")).toBe(";");
+    expect(detectDelimiter("Nome\tEndereço\tCidade\n")).toBe("\t");
+    expect(detectDelimiter("Nome|Endereço|Cidade")).toBe("|");
+    expect(detectDelimiter("Nome,Endereço,Cidade")).toBe(",");
+  });
+
+  it("ignores delimiters inside quoted fields", () => {
+    expect(detectDelimiter('"Rua A; Rua B; Rua C",Campinas,SP')).toBe(",");
+  });
+
+  it("skips a title row without delimiters", () => {
+    expect(detectDelimiter("Rede Teste\nNome;Latitude;Longitude")).toBe(";");
+  });
+
+  it("defaults to comma on a tie or without any delimiter", () => {
+    expect(detectDelimiter("a,b;c")).toBe(",");
+    expect(detectDelimiter("apenas uma célula")).toBe(",");
+    expect(detectDelimiter("")).toBe(",");
+  });
+
+  it("ignores a leading BOM", () => {
+    expect(detectDelimiter("\uFEFFNome;Cidade")).toBe(";");
+  });
+});
+
+describe("parseCSV", () => {
+  it("splits rows on the detected delimiter", () => {
+    expect(parseCSV("Nome;Cidade\r\nClínica A;Campinas\n")).toEqual([
+      ["Nome", "Cidade"],
+      ["Clínica A", "Campinas"],
+    ]);
+  });
+
+  it("keeps quoted delimiters, line breaks and escaped quotes", () => {
+    expect(parseCSV('Nome,Obs\n"Clínica ""A""","Rua 1, 100\nfundos"')).toEqual([
+      ["Nome", "Obs"],
+      ['Clínica "A"', "Rua 1, 100\nfundos"],
+    ]);
+  });
+
+  it("uses an explicit delimiter instead of detecting it", () => {
+    expect(parseCSV("a;b,c", { delimiter: "," })).toEqual([["a;b", "c"]]);
+  });
+});
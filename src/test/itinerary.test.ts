@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { optimizeVisitOrder } from "@/lib/itinerary";
+
+// Travel cost between points on a line, by their positions
+function lineCosts(positions: number[]): number[][] {
+  return positions.map((from) => positions.map((to) => Math.abs(from - to)));
+}
+
+describe("optimizeVisitOrder", () => {
+  it("visits the stops from the start outwards", () => {
+    expect(optimizeVisitOrder(lineCosts([0, 3, 1, 2]), false)).toEqual([2, 3, 1]);
+  });
+
+  it("improves on the nearest neighbour order", () => {
+    // Nearest neighbour goes -1, 2, -3 (cost 9); finishing on the far side costs 8
+    expect(optimizeVisitOrder(lineCosts([0, -1, 2, -3]), false)).toEqual([1, 3, 2]);
+  });
+
+  it("counts the way back when returning to the start", () => {
+    // Going back from stop 2 to the start is slow (one-way streets), so it is visited first
+    const cost = [
+      [0, 1, 2],
+      [1, 0, 1],
+      [10, 1, 0],
+    ];
+
+    expect(optimizeVisitOrder(cost, false)).toEqual([1, 2]);
+    expect(optimizeVisitOrder(cost, true)).toEqual([2, 1]);
+  });
+
+  it("handles a single stop and no stops", () => {
+    expect(optimizeVisitOrder(lineCosts([0, 5]), true)).toEqual([1]);
+    expect(optimizeVisitOrder(lineCosts([0]), false)).toEqual([]);
+  });
+});
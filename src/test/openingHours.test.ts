@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDayHours,
+  isLocationOpenAt,
+  isOpenAt,
+  parseOpeningHours,
+  parseScheduleDateTime,
+  scheduleTimeAt,
+} from "@/lib/openingHours";
+
+const SUNDAY = 0;
+const MONDAY = 1;
+const FRIDAY = 5;
+const SATURDAY = 6;
+
+function at(day: number, time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return { day, minutes: hours * 60 + minutes };
+}
+
+describe("parseOpeningHours", () => {
+  it("reads day ranges, lists and several intervals per day", () => {
+    const { hours } = parseOpeningHours("seg-sex 07:00-12:00 13:30-18:00; sab 8h-12h");
+
+    expect(hours?.[MONDAY]).toEqual([
+      { start: 420, end: 720 },
+      { start: 810, end: 1080 },
+    ]);
+    expect(hours?.[SATURDAY]).toEqual([{ start: 480, end: 720 }]);
+    expect(hours?.[SUNDAY]).toEqual([]);
+  });
+
+  it("accepts full day names, accents and week-wrapping ranges", () => {
+    const { hours } = parseOpeningHours("Sábado-Segunda 24h");
+
+    expect(hours?.[SATURDAY]).toEqual([{ start: 0, end: 1440 }]);
+    expect(hours?.[SUNDAY]).toEqual([{ start: 0, end: 1440 }]);
+    expect(hours?.[MONDAY]).toEqual([{ start: 0, end: 1440 }]);
+    expect(hours?.[FRIDAY]).toEqual([]);
+  });
+
+  it("keeps intervals that run past midnight", () => {
+    const { hours, error } = parseOpeningHours("seg-dom 22:00-06:00");
+
+    expect(error).toBeUndefined();
+    expect(hours?.[FRIDAY]).toEqual([{ start: 1320, end: 360 }]);
+  });
+
+  it("reports unreadable cells", () => {
+    expect(parseOpeningHours("").error).toMatch(/vazio/);
+    expect(parseOpeningHours("feriados 08:00-12:00").error).toMatch(/Dias inválidos/);
+    expect(parseOpeningHours("seg-sex").error).toMatch(/Horário ausente/);
+    expect(parseOpeningHours("seg 25:00-26:00").error).toMatch(/Horário inválido/);
+    expect(parseOpeningHours("seg 08:00-08:00").hours).toBeNull();
+  });
+});
+
+describe("isOpenAt", () => {
+  const { hours: daytime } = parseOpeningHours("seg-sex 07:00-17:00");
+  const { hours: overnight } = parseOpeningHours("sex-sab 22:00-06:00");
+
+  it("includes the start and excludes the end of an interval", () => {
+    expect(isOpenAt(daytime!, at(MONDAY, "07:00"))).toBe(true);
+    expect(isOpenAt(daytime!, at(MONDAY, "16:59"))).toBe(true);
+    expect(isOpenAt(daytime!, at(MONDAY, "17:00"))).toBe(false);
+    expect(isOpenAt(daytime!, at(SATURDAY, "10:00"))).toBe(false);
+  });
+
+  it("carries overnight intervals into the next day", () => {
+    expect(isOpenAt(overnight!, at(FRIDAY, "21:59"))).toBe(false);
+    expect(isOpenAt(overnight!, at(FRIDAY, "23:30"))).toBe(true);
+    expect(isOpenAt(overnight!, at(SATURDAY, "05:59"))).toBe(true);
+    expect(isOpenAt(overnight!, at(SUNDAY, "05:59"))).toBe(true);
+    expect(isOpenAt(overnight!, at(SUNDAY, "06:00"))).toBe(false);
+    expect(isOpenAt(overnight!, at(FRIDAY, "03:00"))).toBe(false);
+  });
+
+  it("never treats locations without valid hours as open", () => {
+    expect(isLocationOpenAt({}, at(MONDAY, "10:00"))).toBe(false);
+    expect(isLocationOpenAt({ openingHours: "sempre" }, at(MONDAY, "10:00"))).toBe(false);
+    expect(isLocationOpenAt({ openingHours: "seg 08:00-12:00" }, at(MONDAY, "10:00"))).toBe(true);
+  });
+});
+
+describe("schedule time", () => {
+  it("reads moments in São Paulo time", () => {
+    // 02:30 UTC on a Saturday is still Friday 23:30 in São Paulo (UTC-3)
+    expect(scheduleTimeAt(new Date("2026-10-17T02:30:00Z"))).toEqual(at(FRIDAY, "23:30"));
+    expect(scheduleTimeAt(new Date("2026-10-19T15:00:00Z"))).toEqual(at(MONDAY, "12:00"));
+  });
+
+  it("reads datetime-local values as São Paulo wall time", () => {
+    expect(parseScheduleDateTime("2026-10-19T08:15")).toEqual(at(MONDAY, "08:15"));
+    expect(parseScheduleDateTime("2026-10-18T00:00")).toEqual(at(SUNDAY, "00:00"));
+    expect(parseScheduleDateTime("")).toBeNull();
+    expect(parseScheduleDateTime("2026-13-01T08:00")).toBeNull();
+  });
+});
+
+describe("formatDayHours", () => {
+  it("formats intervals, full days and closed days", () => {
+    const { hours } = parseOpeningHours("seg 08:00-12:00 13:00-17:00; ter 24h; sex 22:00-06:00");
+
+    expect(formatDayHours(hours!, MONDAY)).toBe("08:00–12:00, 13:00–17:00");
+    expect(formatDayHours(hours!, 2)).toBe("24 horas");
+    expect(formatDayHours(hours!, FRIDAY)).toBe("22:00–06:00");
+    expect(formatDayHours(hours!, SUNDAY)).toBe("Fechado");
+  });
+});
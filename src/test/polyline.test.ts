@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { decodePolyline } from "../../supabase/functions/_shared/polyline.ts";
+
+describe("decodePolyline", () => {
+  it("decodes Valhalla's six-decimal polylines into [lat, lon] pairs", () => {
+    expect(decodePolyline("jka}k@pws~wAfoBucB")).toEqual([
+      [-23.561414, -46.655881],
+      [-23.56321, -46.65427],
+    ]);
+  });
+
+  it("decodes five-decimal polylines when asked", () => {
+    const coordinates = decodePolyline("_p~iF~ps|U_ulLnnqC_mqNvxq`@", 5);
+
+    expect(coordinates).toHaveLength(3);
+    [[38.5, -120.2], [40.7, -120.95], [43.252, -126.453]].forEach(([lat, lon], index) => {
+      expect(coordinates[index][0]).toBeCloseTo(lat, 5);
+      expect(coordinates[index][1]).toBeCloseTo(lon, 5);
+    });
+  });
+
+  it("returns no points for an empty polyline", () => {
+    expect(decodePolyline("")).toEqual([]);
+  });
+});
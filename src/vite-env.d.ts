@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Map tile URL template ({z}/{x}/{y}), e.g. a local tile server; defaults to OpenStreetMap */
+  readonly VITE_MAP_TILE_URL?: string;
+  /** Attribution shown on the map for the configured tiles */
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+}
@@ -0,0 +1,30 @@
+export interface AddressKeyParts {
+  address?: string | null;
+  number?: string | null;
+  neighborhood?: string | null;
+  city?: string | null;
+  state?: string | null;
+  cep?: string | null;
+}
+
+function normalizeKeyPart(value: string): string {
+  return value.toLowerCase().trim().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/\s+/g, " ");
+}
+
+/**
+ * Builds the key that identifies an address across syncs, independent of row order:
+ * lowercase, accent-free parts joined by "|", with the CEP reduced to its digits.
+ * Keys accepted geocodes (location_geocodes) and the shared geocode_cache.
+ */
+export function buildAddressKey(parts: AddressKeyParts): string {
+  return [
+    parts.address,
+    parts.number,
+    parts.neighborhood,
+    parts.city,
+    parts.state,
+    (parts.cep ?? "").replace(/\D/g, ""),
+  ]
+    .map((part) => normalizeKeyPart(part ?? ""))
+    .join("|");
+}
@@ -0,0 +1,23 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import * as bcrypt from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
+
+/**
+ * Securely verify admin secret against stored bcrypt hash.
+ */
+export async function verifyAdminSecret(supabase: SupabaseClient, empresaId: string, adminSecret: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("empresas")
+    .select("admin_secret_hash")
+    .eq("id", empresaId)
+    .single();
+
+  if (error || !data?.admin_secret_hash) {
+    return false;
+  }
+
+  try {
+    return bcrypt.compareSync(adminSecret, data.admin_secret_hash as string);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,33 @@
+// CORS configuration - allowlist for production and preview domains
+const ALLOWED_ORIGINS = [
+  "https://localiza-i.lovable.app",
+  "http://localhost:5173",
+  "http://localhost:8080",
+];
+
+// Pattern for Lovable preview domains
+const LOVABLE_PREVIEW_PATTERN = /^https:\/\/[a-z0-9-]+\.lovableproject\.com$/;
+const LOVABLE_PREVIEW_ID_PATTERN = /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/;
+
+function isAllowedOrigin(origin: string | null): boolean {
+  if (!origin) return false;
+  if (ALLOWED_ORIGINS.includes(origin)) return true;
+  if (LOVABLE_PREVIEW_PATTERN.test(origin)) return true;
+  if (LOVABLE_PREVIEW_ID_PATTERN.test(origin)) return true;
+  return false;
+}
+
+/**
+ * CORS headers for a request. Only known origins are allowed; unknown ones get an empty origin.
+ */
+export function getCorsHeaders(origin: string | null): Record<string, string> {
+  const allowedOrigin = isAllowedOrigin(origin) ? origin : "";
+  return {
+    "Access-Control-Allow-Origin": allowedOrigin || "",
+    "Access-Control-Allow-Headers":
+      "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    // Lets clients read how long to wait after a 429
+    "Access-Control-Expose-Headers": "Retry-After",
+  };
+}
@@ -0,0 +1,153 @@
+// Minimal CSV parser that supports:
+// - comma, semicolon, tab and pipe delimiters (auto-detected or explicit)
+// - quoted fields
+// - escaped quotes ("")
+// - CRLF/LF newlines
+// Keeps everything as strings.
+// Shared by the app (src/lib/csv.ts) and the sync-locations function.
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export interface ParseCSVOptions {
+  /** Forces a delimiter instead of detecting it from the header row */
+  delimiter?: CsvDelimiter;
+}
+
+// Order matters: on a tie the first candidate wins, keeping comma as the default
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+
+// Lines inspected when the first ones have no delimiter at all (e.g. a lone title cell)
+const MAX_DETECTION_LINES = 5;
+
+/**
+ * Detects the delimiter by counting candidates outside quoted fields on the
+ * header row. Falls back to the next lines when the header has a single cell.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const input = (text ?? '').replace(/^\uFEFF/, '');
+
+  const counts = new Map<CsvDelimiter, number>();
+  let inQuotes = false;
+  let linesInspected = 0;
+
+  const pickBest = (): CsvDelimiter | null => {
+    let best: CsvDelimiter | null = null;
+    let bestCount = 0;
+    for (const candidate of CANDIDATE_DELIMITERS) {
+      const count = counts.get(candidate) ?? 0;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    }
+    return best;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === '"') {
+      // An escaped quote ("") toggles twice, leaving the state unchanged
+      inQuotes = !inQuotes;
+      continue;
+    }
+
+    if (inQuotes) continue;
+
+    if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      const best = pickBest();
+      if (best) return best;
+      counts.clear();
+      linesInspected++;
+      if (linesInspected >= MAX_DETECTION_LINES) break;
+      continue;
+    }
+
+    if ((CANDIDATE_DELIMITERS as string[]).includes(char)) {
+      const delimiter = char as CsvDelimiter;
+      counts.set(delimiter, (counts.get(delimiter) ?? 0) + 1);
+    }
+  }
+
+  return pickBest() ?? ',';
+}
+
+export function parseCSV(text: string, options: ParseCSVOptions = {}): string[][] {
+  const input = (text ?? '').replace(/^\uFEFF/, ''); // strip BOM
+  const delimiter = options.delimiter ?? detectDelimiter(input);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const pushField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const pushRow = () => {
+    // Ignore completely empty trailing rows
+    if (row.length === 1 && row[0] === '') {
+      row = [];
+      return;
+    }
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        const next = input[i + 1];
+        // Escaped quote
+        if (next === '"') {
+          field += '"';
+          i++;
+          continue;
+        }
+        inQuotes = false;
+        continue;
+      }
+
+      field += char;
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+      continue;
+    }
+
+    if (char === delimiter) {
+      pushField();
+      continue;
+    }
+
+    if (char === '\n') {
+      pushField();
+      pushRow();
+      continue;
+    }
+
+    if (char === '\r') {
+      // Handle CRLF by consuming the next \n
+      const next = input[i + 1];
+      if (next === '\n') i++;
+      pushField();
+      pushRow();
+      continue;
+    }
+
+    field += char;
+  }
+
+  // flush last field/row
+  pushField();
+  if (row.length > 0) pushRow();
+
+  return rows;
+}
@@ -0,0 +1,39 @@
+// Location columns of the empresa sheets, shared by the app (src/lib/spreadsheet.ts) and sync-locations
+export type LocationField =
+  | "name"
+  | "latitude"
+  | "longitude"
+  | "cep"
+  | "address"
+  | "number"
+  | "neighborhood"
+  | "city"
+  | "state"
+  | "status"
+  | "services"
+  | "openingHours"
+  | "phone"
+  | "whatsapp"
+  | "email";
+
+/**
+ * Default headers of each field, matched case and accent insensitive.
+ * An empresa's column mapping takes precedence over them.
+ */
+export const LOCATION_FIELD_ALIASES: Record<LocationField, string[]> = {
+  name: ["clinica", "nome do local", "nome", "local", "name"],
+  latitude: ["latitude", "lat"],
+  longitude: ["longitude", "lon", "long", "lng"],
+  cep: ["cep"],
+  address: ["endereço (logradouro)", "endereço", "endereco", "address", "rua", "logradouro"],
+  number: ["número", "numero", "number", "num"],
+  neighborhood: ["bairro", "neighborhood"],
+  city: ["cidade", "city"],
+  state: ["uf", "estado", "state", "estado (uf)"],
+  status: ["situação", "situacao", "status"],
+  services: ["serviços", "servicos", "services"],
+  openingHours: ["horário de funcionamento", "horario de funcionamento", "horário", "horario", "funcionamento", "opening hours"],
+  phone: ["telefone", "telefones", "fone", "tel", "phone"],
+  whatsapp: ["whatsapp", "whats", "wpp", "zap"],
+  email: ["e-mail", "email", "mail"],
+};
@@ -0,0 +1,12 @@
+// Environment check - suppress verbose logs in production
+const isDev = Deno.env.get("DENO_ENV") === "development" || Deno.env.get("FUNCTIONS_ENV") === "development";
+
+// Development-only logging
+export const devLog = {
+  error: (message: string, ...args: unknown[]) => {
+    if (isDev) console.error(message, ...args);
+  },
+  log: (message: string, ...args: unknown[]) => {
+    if (isDev) console.log(message, ...args);
+  },
+};
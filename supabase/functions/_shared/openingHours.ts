@@ -0,0 +1,226 @@
+/**
+ * Opening hours column: compact weekly schedule per provider.
+ *
+ * Format: entries separated by ";", each with days followed by one or more time ranges.
+ *   "seg-sex 07:00-17:00; sab 07:00-12:00"
+ *   "seg,qua,sex 08:00-12:00 13:30-18:00"
+ *   "seg-dom 24h"
+ * Days: dom, seg, ter, qua, qui, sex, sab (full names and accents are accepted).
+ * Ranges may be combined with "," between days; days not listed are closed.
+ * A range ending at or before its start runs past midnight: "sex-sab 22:00-06:00".
+ * Schedules are read in São Paulo time (SCHEDULE_TIME_ZONE), whatever the browser's zone.
+ * Shared by the app (src/lib/openingHours.ts) and calculate-routes, which filters open providers.
+ */
+import { normalizeSearchText } from './text.ts';
+
+export interface OpeningInterval {
+  /** Minutes since midnight */
+  start: number;
+  /** Minutes since midnight, up to 1440 (24:00); before start when the interval ends the next day */
+  end: number;
+}
+
+/** A weekday and time of day in the schedules' time zone */
+export interface ScheduleTime {
+  /** Like Date.getDay() (0 = domingo) */
+  day: number;
+  /** Minutes since midnight */
+  minutes: number;
+}
+
+/** Intervals per weekday, indexed like Date.getDay() (0 = domingo) */
+export type OpeningHours = OpeningInterval[][];
+
+export interface OpeningHoursParseResult {
+  /** null when the cell could not be read */
+  hours: OpeningHours | null;
+  error?: string;
+}
+
+const DAY_PREFIXES = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sab'];
+
+export const DAY_LABELS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const SCHEDULE_TIME_ZONE = 'America/Sao_Paulo';
+
+const SCHEDULE_CLOCK = new Intl.DateTimeFormat('en-US', {
+  timeZone: SCHEDULE_TIME_ZONE,
+  weekday: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+const CLOCK_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// datetime-local input value: "2026-10-19T14:30"
+const DATETIME_LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/;
+
+// "07:00", "7:00", "07h", "07h30"
+const TIME_PATTERN = /^(\d{1,2})(?::(\d{2})|h(\d{2})?)$/;
+
+function parseDay(token: string): number {
+  // Accepts the prefix or the full name ("seg", "segunda"), without "-feira"
+  const normalized = normalizeSearchText(token);
+  return DAY_PREFIXES.findIndex(prefix => normalized.startsWith(prefix) && normalized.length <= 7);
+}
+
+function parseDays(spec: string): number[] | null {
+  const days = new Set<number>();
+
+  for (const part of spec.split(',').filter(Boolean)) {
+    const [from, to, ...rest] = part.split('-');
+    if (rest.length > 0) return null;
+
+    const start = parseDay(from);
+    const end = to === undefined ? start : parseDay(to);
+    if (start === -1 || end === -1) return null;
+
+    // Ranges wrap around the week, e.g. "sex-seg"
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) break;
+    }
+  }
+
+  return days.size > 0 ? Array.from(days) : null;
+}
+
+function parseTime(token: string): number | null {
+  const match = token.match(TIME_PATTERN);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? match[3] ?? 0);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+
+  return hours * 60 + minutes;
+}
+
+function parseInterval(token: string): OpeningInterval | null {
+  if (token === '24h') {
+    return { start: 0, end: MINUTES_PER_DAY };
+  }
+
+  const [from, to, ...rest] = token.split('-');
+  if (to === undefined || rest.length > 0) return null;
+
+  const start = parseTime(from);
+  const end = parseTime(to);
+  // Equal ends are ambiguous (closed or 24h), and an interval cannot start at 24:00
+  if (start === null || end === null || end === start || start === MINUTES_PER_DAY) return null;
+
+  return { start, end };
+}
+
+/**
+ * Parses an opening hours cell. Errors are in Portuguese, ready for the import report.
+ */
+export function parseOpeningHours(raw: string): OpeningHoursParseResult {
+  const hours: OpeningHours = Array.from({ length: 7 }, () => []);
+  const entries = raw.toLowerCase().split(';').map(entry => entry.trim()).filter(Boolean);
+
+  if (entries.length === 0) {
+    return { hours: null, error: 'Horário de funcionamento vazio' };
+  }
+
+  for (const entry of entries) {
+    const [daySpec, ...intervalTokens] = entry.split(/\s+/);
+    const days = parseDays(daySpec);
+    if (!days) {
+      return { hours: null, error: `Dias inválidos em "${entry}" (use seg, ter, qua, qui, sex, sab, dom)` };
+    }
+
+    const tokens = intervalTokens.join(' ').split(/[\s,]+/).filter(Boolean);
+    if (tokens.length === 0) {
+      return { hours: null, error: `Horário ausente em "${entry}" (ex.: seg-sex 07:00-17:00)` };
+    }
+
+    for (const token of tokens) {
+      const interval = parseInterval(token);
+      if (!interval) {
+        return { hours: null, error: `Horário inválido "${token}" (use HH:MM-HH:MM)` };
+      }
+      for (const day of days) {
+        hours[day].push(interval);
+      }
+    }
+  }
+
+  for (const dayIntervals of hours) {
+    dayIntervals.sort((a, b) => a.start - b.start);
+  }
+
+  return { hours };
+}
+
+/**
+ * Weekday and time of a moment in São Paulo, where the schedules are kept.
+ */
+export function scheduleTimeAt(date: Date): ScheduleTime {
+  const parts = SCHEDULE_CLOCK.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    day: CLOCK_WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * Reads a datetime-local value as São Paulo wall time. Returns null for malformed values.
+ */
+export function parseScheduleDateTime(value: string): ScheduleTime | null {
+  const match = value.match(DATETIME_LOCAL_PATTERN);
+  if (!match) return null;
+
+  const [, year, month, dayOfMonth, hours, minutes] = match.map(Number);
+  if (month < 1 || month > 12 || dayOfMonth < 1 || dayOfMonth > 31 || hours > 23 || minutes > 59) return null;
+
+  return {
+    day: new Date(Date.UTC(year, month - 1, dayOfMonth)).getUTCDay(),
+    minutes: hours * 60 + minutes,
+  };
+}
+
+function endsNextDay(interval: OpeningInterval): boolean {
+  return interval.end < interval.start;
+}
+
+/**
+ * Checks whether the provider is open at the given time, counting intervals
+ * that started the day before and run past midnight.
+ */
+export function isOpenAt(hours: OpeningHours, time: ScheduleTime): boolean {
+  const previousDay = (time.day + 6) % 7;
+  return hours[time.day].some(interval =>
+    time.minutes >= interval.start && (endsNextDay(interval) || time.minutes < interval.end)
+  ) || hours[previousDay].some(interval => endsNextDay(interval) && time.minutes < interval.end);
+}
+
+/**
+ * Checks a location's schedule. Locations without (valid) hours are never considered open.
+ */
+export function isLocationOpenAt(location: { openingHours?: string }, time: ScheduleTime): boolean {
+  if (!location.openingHours) return false;
+  const { hours } = parseOpeningHours(location.openingHours);
+  return !!hours && isOpenAt(hours, time);
+}
+
+function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Formats one weekday's intervals, e.g. "07:00–12:00, 13:00–17:00" or "Fechado".
+ */
+export function formatDayHours(hours: OpeningHours, day: number): string {
+  const intervals = hours[day];
+  if (intervals.length === 0) return 'Fechado';
+  if (intervals.length === 1 && intervals[0].start === 0 && intervals[0].end === MINUTES_PER_DAY) {
+    return '24 horas';
+  }
+  return intervals.map(interval => `${formatTime(interval.start)}–${formatTime(interval.end)}`).join(', ');
+}
@@ -0,0 +1,29 @@
+/**
+ * Decodes an encoded polyline (Valhalla uses 6 decimal places) into [lat, lon] pairs.
+ */
+export function decodePolyline(encoded: string, precision = 6): [number, number][] {
+  const factor = Math.pow(10, precision);
+  const coordinates: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lon = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lon += nextValue();
+    coordinates.push([lat / factor, lon / factor]);
+  }
+  return coordinates;
+}
@@ -0,0 +1,68 @@
+// Checks for server URLs entered by empresa admins (e.g. a self-hosted Nominatim), which
+// edge functions fetch: only public HTTPS hosts are accepted, never the function's own network.
+// Shared by the app (src/lib/urlValidation.ts), validate-empresa and geocode.
+
+// Names that only resolve inside a private network
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata endpoints
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) || // IETF protocol assignments
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224; // multicast and reserved
+}
+
+/**
+ * Checks whether an IP address (v4 or v6, without brackets) is loopback, private,
+ * link-local or otherwise not reachable on the public internet.
+ */
+export function isPrivateIpAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const ipv6 = address.toLowerCase();
+  // IPv4-mapped addresses (::ffff:10.0.0.1) are checked as IPv4
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIpAddress(mapped[1]);
+
+  return ipv6 === '::' ||
+    ipv6 === '::1' ||
+    /^::ffff:/.test(ipv6) ||
+    /^f[cd]/.test(ipv6) || // unique local, fc00::/7
+    /^fe[89ab]/.test(ipv6) || // link-local, fe80::/10
+    /^ff/.test(ipv6); // multicast
+}
+
+/**
+ * Checks that a URL uses HTTPS and names a public host: IP literals, localhost and
+ * private-network names are rejected. The host's DNS records are not checked here.
+ */
+export function isPublicHttpsUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:' || parsed.username || parsed.password) return false;
+
+  // The URL parser turns numeric hosts (e.g. 2130706433) into dotted IPv4, and keeps IPv6 in brackets
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (parseIPv4(hostname) || hostname.startsWith('[')) return false;
+
+  return hostname.includes('.') &&
+    !PRIVATE_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix));
+}
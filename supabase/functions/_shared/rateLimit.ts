@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Database-based rate limiter using the rate_limits table.
+ * Uses service_role to bypass RLS.
+ */
+export async function checkRateLimit(
+  supabase: SupabaseClient,
+  identifier: string,
+  endpoint: string,
+  maxAttempts: number,
+  windowSeconds: number
+): Promise<{ allowed: boolean; retryAfterSeconds?: number }> {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - windowSeconds * 1000);
+
+  const { data: existing } = await supabase
+    .from("rate_limits")
+    .select("attempt_count, window_start")
+    .eq("identifier", identifier)
+    .eq("endpoint", endpoint)
+    .single();
+
+  if (!existing) {
+    await supabase.from("rate_limits").upsert({ identifier, endpoint, attempt_count: 1, window_start: now.toISOString() });
+    return { allowed: true };
+  }
+
+  // Window expired — reset
+  const entryWindowStart = new Date(existing.window_start);
+  if (entryWindowStart < windowStart) {
+    await supabase.from("rate_limits").upsert({ identifier, endpoint, attempt_count: 1, window_start: now.toISOString() });
+    return { allowed: true };
+  }
+
+  if (existing.attempt_count >= maxAttempts) {
+    const retryAfterSeconds = Math.ceil((entryWindowStart.getTime() + windowSeconds * 1000 - now.getTime()) / 1000);
+    return { allowed: false, retryAfterSeconds: Math.max(retryAfterSeconds, 1) };
+  }
+
+  await supabase
+    .from("rate_limits")
+    .update({ attempt_count: existing.attempt_count + 1 })
+    .eq("identifier", identifier)
+    .eq("endpoint", endpoint);
+
+  return { allowed: true };
+}
@@ -0,0 +1,65 @@
+/**
+ * Per-empresa provider search limits (empresas.search_settings), enforced by the calculate-routes edge function.
+ * Shared by the app (src/lib/searchSettings.ts), calculate-routes and validate-empresa.
+ */
+
+export interface SearchSettings {
+  /** Straight-line radius around the origin in which providers are considered, in km */
+  radiusKm: number;
+  /** Closest providers routed per search */
+  maxCandidates: number;
+  /** Below this many results the radius is widened automatically */
+  minResults: number;
+}
+
+export const DEFAULT_SEARCH_SETTINGS: SearchSettings = {
+  radiusKm: 60,
+  maxCandidates: 20,
+  minResults: 3,
+};
+
+/** Safe ceilings for each setting */
+export const SEARCH_SETTINGS_LIMITS: SearchSettings = {
+  radiusKm: 200,
+  maxCandidates: 50,
+  minResults: 10,
+};
+
+/** Lower bounds accepted for each setting */
+export const SEARCH_SETTINGS_MINIMUMS: SearchSettings = {
+  radiusKm: 5,
+  maxCandidates: 1,
+  minResults: 0,
+};
+
+/** Bounds of a search radius in travel minutes, chosen per search instead of kilometers */
+export const MIN_SEARCH_MINUTES = 5;
+export const MAX_SEARCH_MINUTES = 120;
+
+/**
+ * Returns the empresa's settings with missing values filled from the defaults.
+ */
+export function resolveSearchSettings(settings?: Partial<SearchSettings> | null): SearchSettings {
+  return { ...DEFAULT_SEARCH_SETTINGS, ...settings };
+}
+
+/**
+ * Checks that the value holds exactly the settings, each an integer within its bounds,
+ * and that the minimum number of results fits in the candidate limit.
+ */
+export function isValidSearchSettings(value: unknown): value is SearchSettings {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+  const settings = value as Record<string, unknown>;
+  const keys = Object.keys(DEFAULT_SEARCH_SETTINGS) as (keyof SearchSettings)[];
+  if (Object.keys(settings).length !== keys.length) return false;
+
+  const withinBounds = keys.every((key) => {
+    const setting = settings[key];
+    return typeof setting === 'number' &&
+      Number.isInteger(setting) &&
+      setting >= SEARCH_SETTINGS_MINIMUMS[key] &&
+      setting <= SEARCH_SETTINGS_LIMITS[key];
+  });
+  return withinBounds && (settings.minResults as number) <= (settings.maxCandidates as number);
+}
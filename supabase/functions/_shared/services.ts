@@ -0,0 +1,166 @@
+/**
+ * Services taxonomy: turns the free-text services column into normalized service ids.
+ * Shared by the app (src/lib/services.ts) and calculate-routes, which filters providers by service.
+ */
+import { normalizeSearchText } from './text.ts';
+
+export interface ServiceDefinition {
+  /** Stable identifier used for filtering */
+  id: string;
+  label: string;
+  /** Spellings accepted in the spreadsheet, compared without accents or case */
+  synonyms: string[];
+}
+
+export type ServiceVocabulary = ServiceDefinition[];
+
+/** Providers tagged with this service only perform lab and imaging exams */
+export const ONLY_COMPLEMENTARY_EXAMS_SERVICE = 'somente-exames-complementares';
+
+export const DEFAULT_SERVICE_VOCABULARY: ServiceVocabulary = [
+  { id: ONLY_COMPLEMENTARY_EXAMS_SERVICE, label: 'Somente exames complementares', synonyms: ['somente exames complementares', 'apenas exames complementares'] },
+  { id: 'exame-clinico', label: 'Exame clínico (ASO)', synonyms: ['exame clinico', 'clinico', 'aso', 'consulta ocupacional'] },
+  { id: 'audiometria', label: 'Audiometria', synonyms: ['audiometria', 'audiometrico', 'exame audiometrico'] },
+  { id: 'acuidade-visual', label: 'Acuidade visual', synonyms: ['acuidade visual', 'oftalmologico', 'teste de visao'] },
+  { id: 'espirometria', label: 'Espirometria', synonyms: ['espirometria'] },
+  { id: 'eletrocardiograma', label: 'Eletrocardiograma', synonyms: ['eletrocardiograma', 'ecg'] },
+  { id: 'eletroencefalograma', label: 'Eletroencefalograma', synonyms: ['eletroencefalograma', 'eeg'] },
+  { id: 'raio-x', label: 'Raio-X', synonyms: ['raio-x', 'raio x', 'rx', 'radiografia'] },
+  { id: 'exames-laboratoriais', label: 'Exames laboratoriais', synonyms: ['exames laboratoriais', 'laboratorio', 'laboratoriais'] },
+  { id: 'avaliacao-psicossocial', label: 'Avaliação psicossocial', synonyms: ['avaliacao psicossocial', 'psicossocial', 'avaliacao psicologica'] },
+];
+
+// Services are listed in one cell separated by ; , | / or line breaks
+const SERVICE_SEPARATOR = /[;,|/\n]+/;
+
+export interface ParsedServices {
+  ids: string[];
+  /** Entries that matched no service in the vocabulary */
+  unrecognized: string[];
+}
+
+/**
+ * Builds a stable id from a service label (lowercase, no accents, dash-separated).
+ */
+export function slugifyService(label: string): string {
+  return normalizeSearchText(label)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Returns the empresa's vocabulary, or the default one when none is configured.
+ */
+export function resolveServiceVocabulary(vocabulary?: ServiceVocabulary | null): ServiceVocabulary {
+  return vocabulary && vocabulary.length > 0 ? vocabulary : DEFAULT_SERVICE_VOCABULARY;
+}
+
+/**
+ * Parses a services cell into vocabulary ids.
+ * The whole cell is tried first, so entries containing separators (e.g. "raio-x") still match.
+ */
+export function parseServices(raw: string | undefined, vocabulary?: ServiceVocabulary | null): ParsedServices {
+  if (!raw?.trim()) {
+    return { ids: [], unrecognized: [] };
+  }
+
+  const resolved = resolveServiceVocabulary(vocabulary);
+  const findService = (entry: string) => {
+    const normalized = normalizeSearchText(entry).replace(/\s+/g, ' ');
+    return resolved.find(service =>
+      normalizeSearchText(service.label) === normalized ||
+      service.synonyms.some(synonym => normalizeSearchText(synonym) === normalized)
+    );
+  };
+
+  const wholeCell = findService(raw);
+  if (wholeCell) {
+    return { ids: [wholeCell.id], unrecognized: [] };
+  }
+
+  const ids: string[] = [];
+  const unrecognized: string[] = [];
+
+  for (const entry of raw.split(SERVICE_SEPARATOR).map(part => part.trim()).filter(Boolean)) {
+    const service = findService(entry);
+    if (!service) {
+      unrecognized.push(entry);
+    } else if (!ids.includes(service.id)) {
+      ids.push(service.id);
+    }
+  }
+
+  return { ids, unrecognized };
+}
+
+/**
+ * Labels of a services cell, in vocabulary wording. Unrecognized entries are kept as written.
+ */
+export function getServiceLabels(raw: string | undefined, vocabulary?: ServiceVocabulary | null): string[] {
+  const resolved = resolveServiceVocabulary(vocabulary);
+  const { ids, unrecognized } = parseServices(raw, resolved);
+  return [
+    ...ids.map(id => resolved.find(service => service.id === id)?.label ?? id),
+    ...unrecognized,
+  ];
+}
+
+/**
+ * Checks whether a location offers every one of the requested services.
+ */
+export function offersAllServices(
+  location: { services?: string },
+  serviceIds: string[],
+  vocabulary?: ServiceVocabulary | null
+): boolean {
+  if (serviceIds.length === 0) return true;
+  const { ids } = parseServices(location.services, vocabulary);
+  return serviceIds.every(id => ids.includes(id));
+}
+
+/**
+ * Vocabulary services offered by at least one of the locations, in vocabulary order.
+ */
+export function getAvailableServices(
+  locations: { services?: string }[],
+  vocabulary?: ServiceVocabulary | null
+): ServiceDefinition[] {
+  const resolved = resolveServiceVocabulary(vocabulary);
+  const offered = new Set(locations.flatMap(location => parseServices(location.services, resolved).ids));
+  return resolved.filter(service => offered.has(service.id));
+}
+
+/**
+ * Formats a vocabulary for the admin editor: one service per line, "Label: synonym, synonym".
+ */
+export function formatServiceVocabulary(vocabulary: ServiceVocabulary): string {
+  return vocabulary
+    .map(service => service.synonyms.length > 0
+      ? `${service.label}: ${service.synonyms.join(', ')}`
+      : service.label)
+    .join('\n');
+}
+
+/**
+ * Parses the admin editor text back into a vocabulary. Blank lines are ignored.
+ * Ids are derived from labels, so renaming a label changes its id.
+ */
+export function parseServiceVocabulary(text: string): ServiceVocabulary {
+  const vocabulary: ServiceVocabulary = [];
+
+  for (const line of text.split('\n')) {
+    const separatorIndex = line.indexOf(':');
+    const label = (separatorIndex === -1 ? line : line.slice(0, separatorIndex)).trim();
+    const synonymsPart = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    const id = slugifyService(label);
+    if (!label || !id || vocabulary.some(service => service.id === id)) continue;
+
+    vocabulary.push({
+      id,
+      label,
+      synonyms: synonymsPart.split(',').map(synonym => synonym.trim()).filter(Boolean),
+    });
+  }
+
+  return vocabulary;
+}
@@ -0,0 +1,10 @@
+/**
+ * Normalizes text for accent-insensitive, case-insensitive search
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .trim();
+}
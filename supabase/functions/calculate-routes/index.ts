@@ -1,81 +1,36 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-// Environment check - suppress verbose logs in production
-const isDev = Deno.env.get("DENO_ENV") === "development" || Deno.env.get("FUNCTIONS_ENV") === "development";
-
-// Development-only logging
-const devLog = {
-  error: (message: string, ...args: unknown[]) => {
-    if (isDev) console.error(message, ...args);
-  },
-  log: (message: string, ...args: unknown[]) => {
-    if (isDev) console.log(message, ...args);
-  },
-};
-
-/**
- * Database-based rate limiter.
- */
-// deno-lint-ignore no-explicit-any
-async function checkRateLimit(supabase: any, identifier: string, endpoint: string, maxAttempts: number, windowSeconds: number): Promise<{ allowed: boolean; retryAfterSeconds?: number }> {
-  const now = new Date();
-  const windowStart = new Date(now.getTime() - windowSeconds * 1000);
-  const { data: existing } = await supabase.from('rate_limits').select('attempt_count, window_start').eq('identifier', identifier).eq('endpoint', endpoint).single();
-  if (!existing) {
-    await supabase.from('rate_limits').upsert({ identifier, endpoint, attempt_count: 1, window_start: now.toISOString() });
-    return { allowed: true };
-  }
-  const entryWindowStart = new Date(existing.window_start);
-  if (entryWindowStart < windowStart) {
-    await supabase.from('rate_limits').upsert({ identifier, endpoint, attempt_count: 1, window_start: now.toISOString() });
-    return { allowed: true };
-  }
-  if (existing.attempt_count >= maxAttempts) {
-    const retryAfterSeconds = Math.ceil((entryWindowStart.getTime() + windowSeconds * 1000 - now.getTime()) / 1000);
-    return { allowed: false, retryAfterSeconds: Math.max(retryAfterSeconds, 1) };
-  }
-  await supabase.from('rate_limits').update({ attempt_count: existing.attempt_count + 1 }).eq('identifier', identifier).eq('endpoint', endpoint);
-  return { allowed: true };
-}
-
-// CORS configuration - allowlist for production and preview domains
-const ALLOWED_ORIGINS = [
-  'https://localiza-i.lovable.app',
-  'http://localhost:5173',
-  'http://localhost:8080',
-];
-
-// Pattern for Lovable preview domains
-const LOVABLE_PREVIEW_PATTERN = /^https:\/\/[a-z0-9-]+\.lovableproject\.com$/;
-const LOVABLE_PREVIEW_ID_PATTERN = /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/;
-
-function isAllowedOrigin(origin: string | null): boolean {
-  if (!origin) return false;
-  if (ALLOWED_ORIGINS.includes(origin)) return true;
-  if (LOVABLE_PREVIEW_PATTERN.test(origin)) return true;
-  if (LOVABLE_PREVIEW_ID_PATTERN.test(origin)) return true;
-  return false;
-}
-
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  // Only allow known origins, deny unknown ones
-  const allowedOrigin = isAllowedOrigin(origin) ? origin : null;
-  
-  return {
-    "Access-Control-Allow-Origin": allowedOrigin || '',
-    "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
-  };
-}
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { devLog } from "../_shared/logger.ts";
+import { getCorsHeaders } from "../_shared/cors.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { offersAllServices, type ServiceVocabulary } from "../_shared/services.ts";
+import { isLocationOpenAt, type ScheduleTime } from "../_shared/openingHours.ts";
+import { decodePolyline } from "../_shared/polyline.ts";
+import {
+  DEFAULT_SEARCH_SETTINGS,
+  MAX_SEARCH_MINUTES,
+  MIN_SEARCH_MINUTES,
+  SEARCH_SETTINGS_LIMITS,
+  SEARCH_SETTINGS_MINIMUMS,
+  type SearchSettings,
+} from "../_shared/searchSettings.ts";
 
 // Constants for validation
-const MAX_LOCATIONS = 100;
 const MAX_LATITUDE = 90;
 const MIN_LATITUDE = -90;
 const MAX_LONGITUDE = 180;
 const MIN_LONGITUDE = -180;
-const MAX_STRING_LENGTH = 200; // Maximum length for string fields
+const MAX_NETWORKS = 50;
+// Google Sheets tab ids
+const GID_PATTERN = /^\d{1,12}$/;
+const MAX_SERVICE_FILTERS = 50;
+const MAX_SERVICE_ID_LENGTH = 100;
+// Start point plus the stops of an itinerary
+const MAX_MATRIX_POINTS = 12;
+
+type TravelMode = "driving" | "walking" | "cycling";
+
+const TRAVEL_MODES: TravelMode[] = ["driving", "walking", "cycling"];
 
 interface Location {
   name: string;
@@ -87,19 +42,61 @@ interface Location {
   city?: string;
   state?: string;
   services?: string;
+  openingHours?: string;
+  phone?: string;
+  whatsapp?: string;
+  email?: string;
 }
 
 interface RouteRequest {
+  action: "routes";
   empresaId: string;
   originLat: number;
   originLon: number;
-  locations: Location[];
+  /** Restricts the search to these workbook tabs (gids), e.g. one network */
+  networks?: string[];
+  /** Only providers offering every one of these service ids (empresa vocabulary) */
+  services: string[];
+  /** Only providers open at this São Paulo weekday and time */
+  openAt?: ScheduleTime;
+  travelMode: TravelMode;
+  sortBy: "distance" | "duration";
+  /** Search radius in travel minutes, when the user chose one instead of kilometers */
+  maxMinutes?: number;
+  /** Roster processing: counted in its own rate-limit bucket, apart from interactive searches */
+  batch: boolean;
+}
+
+/** Path of a single route, fetched when the user opens a result */
+interface GeometryRequest {
+  action: "geometry";
+  empresaId: string;
+  originLat: number;
+  originLon: number;
+  destinationLat: number;
+  destinationLon: number;
+  travelMode: TravelMode;
+}
+
+/**
+ * Travel between every pair of points, both directions, to order the stops of a visit itinerary.
+ * The first point is the start; the others must be the empresa's synced locations.
+ */
+interface MatrixRequest {
+  action: "matrix";
+  empresaId: string;
+  points: Point[];
+  travelMode: TravelMode;
 }
 
 interface RouteResult {
   name: string;
   distanceKm: number;
   durationMinutes: number;
+  /** Service that calculated the route, or "haversine" for a straight-line estimate */
+  source: RouterId | "haversine";
+  /** True when no routing service reached the provider and the values are estimated */
+  estimated: boolean;
   latitude: number;
   longitude: number;
   address?: string;
@@ -108,6 +105,10 @@ interface RouteResult {
   city?: string;
   state?: string;
   services?: string;
+  openingHours?: string;
+  phone?: string;
+  whatsapp?: string;
+  email?: string;
 }
 
 // Validation helper functions
@@ -124,49 +125,24 @@ function isValidCoordinate(lat: number, lon: number): boolean {
   );
 }
 
-// Sanitize and validate string fields
-function sanitizeString(value: unknown, maxLength: number = MAX_STRING_LENGTH): string {
-  if (typeof value !== 'string') return '';
-  return value.trim().slice(0, maxLength);
+function isValidScheduleTime(value: unknown): value is ScheduleTime {
+  if (typeof value !== "object" || value === null) return false;
+  const { day, minutes } = value as Record<string, unknown>;
+  return Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6 &&
+    Number.isInteger(minutes) && (minutes as number) >= 0 && (minutes as number) < 24 * 60;
 }
 
-function isValidLocation(loc: unknown): loc is Location {
-  if (typeof loc !== "object" || loc === null) return false;
-  const location = loc as Record<string, unknown>;
-  
-  // Validate required fields
-  if (typeof location.name !== "string" || location.name.length === 0 || location.name.length > MAX_STRING_LENGTH) {
-    return false;
-  }
-  
-  if (typeof location.latitude !== "number" || typeof location.longitude !== "number") {
-    return false;
-  }
-  
-  if (!isValidCoordinate(location.latitude, location.longitude)) {
-    return false;
-  }
-  
-  // Validate optional string fields length
-  const optionalStrings = ['address', 'number', 'neighborhood', 'city', 'state', 'services'];
-  for (const field of optionalStrings) {
-    if (location[field] !== undefined && location[field] !== null) {
-      if (typeof location[field] !== 'string' || (location[field] as string).length > MAX_STRING_LENGTH) {
-        return false;
-      }
-    }
-  }
-  
-  return true;
-}
-
-function validateRequest(body: unknown): { valid: true; data: RouteRequest } | { valid: false; error: string } {
+function validateRequest(body: unknown): { valid: true; data: RouteRequest | GeometryRequest | MatrixRequest } | { valid: false; error: string } {
   if (typeof body !== "object" || body === null) {
     return { valid: false, error: "Corpo da requisição inválido" };
   }
 
   const request = body as Record<string, unknown>;
-  const { empresaId, originLat, originLon, locations } = request;
+  const { action, empresaId, originLat, originLon, networks, services, openAt, travelMode, sortBy, maxMinutes, batch } = request;
+
+  if (action !== undefined && action !== "routes" && action !== "geometry" && action !== "matrix") {
+    return { valid: false, error: "Ação inválida" };
+  }
 
   // Validate empresaId (required for authentication)
   if (typeof empresaId !== "string" || empresaId.trim().length === 0) {
@@ -179,6 +155,29 @@ function validateRequest(body: unknown): { valid: true; data: RouteRequest } | {
     return { valid: false, error: "empresaId inválido" };
   }
 
+  if (travelMode !== undefined && !(typeof travelMode === "string" && TRAVEL_MODES.includes(travelMode as TravelMode))) {
+    return { valid: false, error: "travelMode deve ser driving, walking ou cycling" };
+  }
+
+  if (action === "matrix") {
+    const { points } = request;
+    if (!Array.isArray(points) || points.length < 2 || points.length > MAX_MATRIX_POINTS) {
+      return { valid: false, error: `points deve ser uma lista de 2 a ${MAX_MATRIX_POINTS} coordenadas` };
+    }
+    if (!points.every((point) => typeof point === "object" && point !== null && isValidCoordinate(point.lat, point.lon))) {
+      return { valid: false, error: "points contém coordenadas inválidas" };
+    }
+    return {
+      valid: true,
+      data: {
+        action: "matrix",
+        empresaId: empresaId.trim(),
+        points: points.map((point: Point) => ({ lat: point.lat, lon: point.lon })),
+        travelMode: (travelMode as TravelMode | undefined) ?? "driving",
+      },
+    };
+  }
+
   // Validate origin coordinates
   if (typeof originLat !== "number" || typeof originLon !== "number") {
     return { valid: false, error: "Coordenadas de origem devem ser números" };
@@ -188,33 +187,76 @@ function validateRequest(body: unknown): { valid: true; data: RouteRequest } | {
     return { valid: false, error: "Coordenadas de origem fora do intervalo válido" };
   }
 
-  // Validate locations array
-  if (!Array.isArray(locations)) {
-    return { valid: false, error: "Localizações deve ser um array" };
+  if (action === "geometry") {
+    const { destinationLat, destinationLon } = request;
+    if (typeof destinationLat !== "number" || typeof destinationLon !== "number") {
+      return { valid: false, error: "Coordenadas de destino devem ser números" };
+    }
+    if (!isValidCoordinate(destinationLat, destinationLon)) {
+      return { valid: false, error: "Coordenadas de destino fora do intervalo válido" };
+    }
+    return {
+      valid: true,
+      data: {
+        action: "geometry",
+        empresaId: empresaId.trim(),
+        originLat,
+        originLon,
+        destinationLat,
+        destinationLon,
+        travelMode: (travelMode as TravelMode | undefined) ?? "driving",
+      },
+    };
   }
 
-  if (locations.length === 0) {
-    return { valid: false, error: "Array de localizações está vazio" };
+  if (sortBy !== undefined && sortBy !== "distance" && sortBy !== "duration") {
+    return { valid: false, error: "sortBy deve ser distance ou duration" };
   }
 
-  if (locations.length > MAX_LOCATIONS) {
-    return { valid: false, error: `Máximo de ${MAX_LOCATIONS} localizações permitidas` };
+  if (networks !== undefined) {
+    if (!Array.isArray(networks) || networks.length === 0 || networks.length > MAX_NETWORKS) {
+      return { valid: false, error: `networks deve ser uma lista de 1 a ${MAX_NETWORKS} abas` };
+    }
+    if (!networks.every((gid) => typeof gid === "string" && GID_PATTERN.test(gid))) {
+      return { valid: false, error: "networks contém abas inválidas" };
+    }
   }
 
-  // Validate each location
-  for (let i = 0; i < locations.length; i++) {
-    if (!isValidLocation(locations[i])) {
-      return { valid: false, error: `Localização ${i + 1} inválida` };
+  if (services !== undefined) {
+    if (!Array.isArray(services) || services.length > MAX_SERVICE_FILTERS) {
+      return { valid: false, error: `services deve ser uma lista com no máximo ${MAX_SERVICE_FILTERS} itens` };
+    }
+    if (!services.every((id) => typeof id === "string" && id.length > 0 && id.length <= MAX_SERVICE_ID_LENGTH)) {
+      return { valid: false, error: "services contém identificadores inválidos" };
     }
   }
 
+  if (maxMinutes !== undefined && !(Number.isInteger(maxMinutes) && (maxMinutes as number) >= MIN_SEARCH_MINUTES && (maxMinutes as number) <= MAX_SEARCH_MINUTES)) {
+    return { valid: false, error: `maxMinutes deve ser um inteiro de ${MIN_SEARCH_MINUTES} a ${MAX_SEARCH_MINUTES}` };
+  }
+
+  if (batch !== undefined && typeof batch !== "boolean") {
+    return { valid: false, error: "batch deve ser booleano" };
+  }
+
+  if (openAt !== undefined && !isValidScheduleTime(openAt)) {
+    return { valid: false, error: "openAt deve conter day (0 a 6) e minutes (0 a 1439)" };
+  }
+
   return {
     valid: true,
     data: {
+      action: "routes",
       empresaId: empresaId.trim(),
       originLat: originLat as number,
       originLon: originLon as number,
-      locations: locations as Location[],
+      networks: networks as string[] | undefined,
+      services: (services as string[] | undefined) ?? [],
+      openAt: openAt as ScheduleTime | undefined,
+      travelMode: (travelMode as TravelMode | undefined) ?? "driving",
+      sortBy: (sortBy as RouteRequest["sortBy"] | undefined) ?? "distance",
+      maxMinutes: maxMinutes as number | undefined,
+      batch: batch === true,
     },
   };
 }
@@ -244,79 +286,278 @@ function calculateHaversineDistance(
   return EARTH_RADIUS_KM * c;
 }
 
-// Sleep function for delays
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+// The radius doubles while too few providers are found, up to the radius ceiling
+const RADIUS_WIDENING_FACTOR = 2;
 
-interface DistanceMatrixResult {
-  distances: (number | null)[];
-  durations: (number | null)[];
-  source: "ors" | "osrm";
+// Straight-line reach of one hour of travel, above the typical top speed of each mode
+const MAX_SPEED_KMH: Record<TravelMode, number> = { driving: 100, cycling: 25, walking: 6 };
+// Time-based searches route this many times the empresa's maxCandidates, up to its ceiling
+const TIME_SEARCH_CANDIDATE_FACTOR = 2;
+
+/**
+ * Reads the empresa's search_settings, falling back to the defaults and
+ * clamping every value to the safe ceilings.
+ */
+function resolveSearchSettings(raw: unknown): SearchSettings {
+  const stored = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+  const resolve = (key: keyof SearchSettings): number => {
+    const value = stored[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) return DEFAULT_SEARCH_SETTINGS[key];
+    return Math.min(Math.max(Math.round(value), SEARCH_SETTINGS_MINIMUMS[key]), SEARCH_SETTINGS_LIMITS[key]);
+  };
+  const maxCandidates = resolve("maxCandidates");
+  return {
+    radiusKm: resolve("radiusKm"),
+    maxCandidates,
+    minResults: Math.min(resolve("minResults"), maxCandidates),
+  };
 }
 
+const LOCATION_COLUMNS = "name, latitude, longitude, address, number, neighborhood, city, state, services, opening_hours, phone, whatsapp, email";
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
 /**
- * Use OpenRouteService Matrix API for accurate driving distances and durations.
- * Requires OPENROUTESERVICE_API_KEY secret.
+ * Loads the empresa's providers inside a lat/lon bounding box around the origin,
+ * optionally only from the given workbook tabs (networks).
+ * Returns null when the empresa's sheet has never been synced.
  */
-async function getOpenRouteServiceMatrix(
+async function loadNearbyLocations(
+  supabase: SupabaseClient,
+  empresaId: string,
   originLat: number,
   originLon: number,
-  destinations: { lat: number; lon: number }[]
-): Promise<DistanceMatrixResult | null> {
-  const apiKey = Deno.env.get("OPENROUTESERVICE_API_KEY");
-  
-  if (!apiKey) {
-    devLog.error("OPENROUTESERVICE_API_KEY not configured");
+  radiusKm: number,
+  networks: string[] | undefined
+): Promise<Location[] | null> {
+  const { data: empresa } = await supabase
+    .from('empresas')
+    .select('locations_synced_at')
+    .eq('id', empresaId)
+    .single();
+
+  if (!empresa?.locations_synced_at) {
     return null;
   }
 
-  try {
-    // ORS uses [lon, lat] format
-    const locations = [
-      [originLon, originLat],
-      ...destinations.map((d) => [d.lon, d.lat]),
-    ];
-
-    // Sources: index 0 (origin)
-    // Destinations: all other indices
-    const destinationIndices = destinations.map((_, i) => i + 1);
-
-    const response = await fetch("https://api.openrouteservice.org/v2/matrix/driving-car", {
-      method: "POST",
-      headers: {
-        "Authorization": apiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        locations,
-        sources: [0],
-        destinations: destinationIndices,
-        metrics: ["distance", "duration"],
-      }),
-    });
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const lonDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(originLat * (Math.PI / 180)), 0.01));
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      devLog.error(`OpenRouteService Matrix API error: ${response.status} - ${errorText}`);
-      return null;
-    }
+  let query = supabase
+    .from('locations')
+    .select(LOCATION_COLUMNS)
+    .eq('empresa_id', empresaId)
+    .gte('latitude', originLat - latDelta)
+    .lte('latitude', originLat + latDelta)
+    .gte('longitude', originLon - lonDelta)
+    .lte('longitude', originLon + lonDelta);
 
-    const data = await response.json();
+  if (networks) {
+    query = query.in('gid', networks);
+  }
 
-    // ORS returns distances in meters and durations in seconds
-    // distances[0] = distances from source 0 to all destinations
-    // durations[0] = durations from source 0 to all destinations
-    const distances = data.distances?.[0] || [];
-    const durations = data.durations?.[0] || [];
+  const { data, error } = await query;
 
-    devLog.log(`OpenRouteService Matrix: ${distances.filter((d: number | null) => d !== null).length}/${destinations.length} routes calculated`);
+  if (error) {
+    devLog.error("Error loading locations:", error);
+    throw error;
+  }
 
-    return { distances, durations, source: "ors" };
-  } catch (error) {
-    devLog.error("OpenRouteService Matrix API error:", error);
+  return (data ?? []).map((row: Record<string, unknown>) => ({
+    name: row.name as string,
+    latitude: row.latitude as number,
+    longitude: row.longitude as number,
+    address: (row.address as string) ?? undefined,
+    number: (row.number as string) ?? undefined,
+    neighborhood: (row.neighborhood as string) ?? undefined,
+    city: (row.city as string) ?? undefined,
+    state: (row.state as string) ?? undefined,
+    services: (row.services as string) ?? undefined,
+    openingHours: (row.opening_hours as string) ?? undefined,
+    phone: (row.phone as string) ?? undefined,
+    whatsapp: (row.whatsapp as string) ?? undefined,
+    email: (row.email as string) ?? undefined,
+  }));
+}
+
+/**
+ * Loads the candidates within radiusKm of the origin (Haversine), closest first,
+ * from the given networks and keeping only the locations that pass the search filters.
+ * Returns null when the empresa's sheet has never been synced.
+ */
+async function findNearbyCandidates(
+  supabase: SupabaseClient,
+  empresaId: string,
+  originLat: number,
+  originLon: number,
+  radiusKm: number,
+  networks: string[] | undefined,
+  matchesFilters: (location: Location) => boolean
+): Promise<(Location & { haversineDistance: number })[] | null> {
+  const nearbyLocations = await loadNearbyLocations(supabase, empresaId, originLat, originLon, radiusKm, networks);
+  if (nearbyLocations === null) {
     return null;
   }
+
+  const locations = nearbyLocations.filter(matchesFilters);
+
+  const candidates = locations
+    .map((location) => ({
+      ...location,
+      haversineDistance: calculateHaversineDistance(
+        originLat,
+        originLon,
+        location.latitude,
+        location.longitude
+      ),
+    }))
+    .filter((loc) => loc.haversineDistance <= radiusKm)
+    .sort((a, b) => a.haversineDistance - b.haversineDistance);
+
+  devLog.log(`Pre-filtered to ${candidates.length} of ${locations.length} locations within ${radiusKm}km`);
+
+  return candidates;
+}
+
+/**
+ * Checks that every destination is one of the empresa's synced locations (the exact
+ * coordinates returned by a search) and lies within the search radius ceiling of the origin.
+ * Keeps the geometry and matrix actions from routing arbitrary points.
+ */
+async function areReachableLocations(
+  supabase: SupabaseClient,
+  empresaId: string,
+  origin: Point,
+  destinations: Point[]
+): Promise<boolean> {
+  const isNearOrigin = (point: Point) =>
+    calculateHaversineDistance(origin.lat, origin.lon, point.lat, point.lon) <= SEARCH_SETTINGS_LIMITS.radiusKm;
+  if (!destinations.every(isNearOrigin)) {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from('locations')
+    .select('latitude, longitude')
+    .eq('empresa_id', empresaId)
+    .in('latitude', destinations.map((point) => point.lat))
+    .in('longitude', destinations.map((point) => point.lon));
+
+  if (error) {
+    devLog.error("Error checking destinations:", error);
+    throw error;
+  }
+
+  const known = new Set((data ?? []).map((row: { latitude: number; longitude: number }) => `${row.latitude},${row.longitude}`));
+  return destinations.every((point) => known.has(`${point.lat},${point.lon}`));
+}
+
+// Sleep function for delays
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Same ids as RouterId in src/lib/routing.ts
+type RouterId = "ors" | "osrm" | "valhalla";
+
+const ROUTER_IDS: RouterId[] = ["ors", "osrm", "valhalla"];
+
+interface RoutingConfig {
+  order: RouterId[];
+}
+
+// Used when neither the empresa's routing_config nor ROUTING_PROVIDERS sets an order
+const DEFAULT_ROUTING_CONFIG: RoutingConfig = { order: ["ors", "osrm"] };
+
+interface Point {
+  lat: number;
+  lon: number;
+}
+
+/** Distances (meters) and durations (seconds) from the origin, null where no route was found */
+interface DistanceMatrix {
+  distances: (number | null)[];
+  durations: (number | null)[];
+}
+
+/** Distances (meters) and durations (seconds) by [from][to], null where no route was found */
+interface TravelMatrix {
+  distances: (number | null)[][];
+  durations: (number | null)[][];
+}
+
+interface SingleRoute {
+  distanceMeters: number;
+  durationSeconds: number;
+  /** Path as [lat, lon] pairs, only when the geometry was requested */
+  coordinates?: [number, number][];
+}
+
+/**
+ * A routing backend. Every method returns null when the service fails or finds
+ * no route, so the next provider in the order can be tried.
+ */
+interface RoutingProvider {
+  id: RouterId;
+  /** Base URL of the server queried for the travel mode */
+  serverUrl(travelMode: TravelMode): string;
+  matrix(origin: Point, destinations: Point[], travelMode: TravelMode): Promise<DistanceMatrix | null>;
+  /** Every point to every other point */
+  table(points: Point[], travelMode: TravelMode): Promise<TravelMatrix | null>;
+  route(origin: Point, destination: Point, travelMode: TravelMode, withGeometry: boolean): Promise<SingleRoute | null>;
+}
+
+interface ProviderEndpoint {
+  baseUrl: string;
+  /** Sent as the Authorization header, for servers behind a key or proxy */
+  auth?: string;
+}
+
+// OpenRouteService profile for each travel mode
+const ORS_PROFILES: Record<TravelMode, string> = {
+  driving: "driving-car",
+  walking: "foot-walking",
+  cycling: "cycling-regular",
+};
+
+// Valhalla costing model for each travel mode
+const VALHALLA_COSTING: Record<TravelMode, string> = {
+  driving: "auto",
+  walking: "pedestrian",
+  cycling: "bicycle",
+};
+
+const PUBLIC_ORS_URL = "https://api.openrouteservice.org";
+
+// The OSRM demo server only routes cars; the FOSSGIS servers host the foot and bike profiles.
+// OSRM_<MODE>_URL points a travel mode at another server, e.g. a local osrm-routed container.
+const OSRM_SERVERS: Record<TravelMode, { envName: string; baseUrl: string; profile: string }> = {
+  driving: { envName: "OSRM_DRIVING_URL", baseUrl: "https://router.project-osrm.org", profile: "driving" },
+  walking: { envName: "OSRM_WALKING_URL", baseUrl: "https://routing.openstreetmap.de/routed-foot", profile: "foot" },
+  cycling: { envName: "OSRM_CYCLING_URL", baseUrl: "https://routing.openstreetmap.de/routed-bike", profile: "bike" },
+};
+
+const PUBLIC_VALHALLA_URL = "https://valhalla1.openstreetmap.de";
+
+const USER_AGENT = "LocalizAI/1.0";
+
+function readEndpoint(urlEnvName: string, defaultUrl: string, authEnvName: string): ProviderEndpoint {
+  return {
+    baseUrl: (Deno.env.get(urlEnvName) || defaultUrl).replace(/\/+$/, ""),
+    auth: Deno.env.get(authEnvName) || undefined,
+  };
+}
+
+function requestHeaders(endpoint: ProviderEndpoint, json = false): Record<string, string> {
+  return {
+    "User-Agent": USER_AGENT,
+    ...(endpoint.auth ? { "Authorization": endpoint.auth } : {}),
+    ...(json ? { "Content-Type": "application/json" } : {}),
+  };
+}
+
+// ORS, OSRM and GeoJSON use [lon, lat] pairs
+function toLatLon(coordinates: [number, number][]): [number, number][] {
+  return coordinates.map(([lon, lat]) => [lat, lon]);
 }
 
 /**
@@ -328,155 +569,684 @@ async function fetchWithRetry(url: string, options?: RequestInit, maxRetries = 3
     const response = await fetch(url, options);
     if (response.status === 429 || response.status === 503) {
       const delayMs = Math.pow(2, attempt) * 1000;
-      devLog.log(`OSRM: status ${response.status}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries})`);
+      devLog.log(`Routing: status ${response.status}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries})`);
       await sleep(delayMs);
-      lastError = new Error(`OSRM service busy (HTTP ${response.status})`);
+      lastError = new Error(`Routing service busy (HTTP ${response.status})`);
       continue;
     }
     return response;
   }
-  throw lastError || new Error('OSRM service busy');
+  throw lastError || new Error('Routing service busy');
 }
 
 /**
- * Use OSRM Table API as fallback for calculating distances.
- * Free but may have less accurate/updated data.
+ * OpenRouteService Matrix and Directions APIs: accurate, but the public server
+ * requires OPENROUTESERVICE_API_KEY. ORS_BASE_URL points at a self-hosted instance.
  */
-async function getOSRMTableDistances(
-  originLat: number,
-  originLon: number,
-  destinations: { lat: number; lon: number }[]
-): Promise<DistanceMatrixResult | null> {
-  try {
-    // Build coordinates string: origin first, then all destinations
-    // OSRM uses lon,lat order
-    const coords = [
-      `${originLon},${originLat}`,
-      ...destinations.map((d) => `${d.lon},${d.lat}`),
-    ].join(";");
-
-    const url = `https://router.project-osrm.org/table/v1/driving/${coords}?sources=0&annotations=distance,duration`;
-
-    const response = await fetchWithRetry(url, {
-      headers: {
-        "User-Agent": "LocalizAI/1.0",
-      },
-    });
+function createOpenRouteServiceProvider(endpoint: ProviderEndpoint): RoutingProvider {
+  return {
+    id: "ors",
+    serverUrl: () => endpoint.baseUrl,
+
+    async matrix(origin, destinations, travelMode) {
+      try {
+        // Sources: index 0 (origin)
+        // Destinations: all other indices
+        const response = await fetch(`${endpoint.baseUrl}/v2/matrix/${ORS_PROFILES[travelMode]}`, {
+          method: "POST",
+          headers: requestHeaders(endpoint, true),
+          body: JSON.stringify({
+            locations: [[origin.lon, origin.lat], ...destinations.map((d) => [d.lon, d.lat])],
+            sources: [0],
+            destinations: destinations.map((_, i) => i + 1),
+            metrics: ["distance", "duration"],
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          devLog.error(`OpenRouteService Matrix API error: ${response.status} - ${errorText}`);
+          return null;
+        }
 
-    if (!response.ok) {
-      devLog.error(`OSRM Table API error: ${response.status}`);
-      return null;
-    }
+        const data = await response.json();
 
-    const data = await response.json();
+        // distances[0] / durations[0] = from source 0 to all destinations
+        const distances = data.distances?.[0] || [];
+        const durations = data.durations?.[0] || [];
 
-    if (data.code !== "Ok") {
-      devLog.error("OSRM Table API returned error:", data.code);
-      return null;
-    }
+        devLog.log(`OpenRouteService Matrix: ${distances.filter((d: number | null) => d !== null).length}/${destinations.length} routes calculated`);
 
-    // distances[0] contains distances from source 0 to all destinations
-    // durations[0] contains durations from source 0 to all destinations
-    const distances = data.distances?.[0]?.slice(1) || []; // Remove first element (origin to origin = 0)
-    const durations = data.durations?.[0]?.slice(1) || [];
+        return { distances, durations };
+      } catch (error) {
+        devLog.error("OpenRouteService Matrix API error:", error);
+        return null;
+      }
+    },
 
-    devLog.log(`OSRM Table: ${distances.filter((d: number | null) => d !== null).length}/${destinations.length} routes calculated`);
+    async table(points, travelMode) {
+      try {
+        // Without sources and destinations, ORS returns every location to every location
+        const response = await fetch(`${endpoint.baseUrl}/v2/matrix/${ORS_PROFILES[travelMode]}`, {
+          method: "POST",
+          headers: requestHeaders(endpoint, true),
+          body: JSON.stringify({
+            locations: points.map((point) => [point.lon, point.lat]),
+            metrics: ["distance", "duration"],
+          }),
+        });
+
+        if (!response.ok) {
+          devLog.error(`OpenRouteService Matrix API error: ${response.status} - ${await response.text()}`);
+          return null;
+        }
 
-    return { distances, durations, source: "osrm" };
-  } catch (error) {
-    devLog.error("OSRM Table API error:", error);
-    return null;
+        const data = await response.json();
+        if (!Array.isArray(data.distances) || !Array.isArray(data.durations)) {
+          return null;
+        }
+
+        return { distances: data.distances, durations: data.durations };
+      } catch (error) {
+        devLog.error("OpenRouteService Matrix API error:", error);
+        return null;
+      }
+    },
+
+    async route(origin, destination, travelMode, withGeometry) {
+      try {
+        const response = await fetch(`${endpoint.baseUrl}/v2/directions/${ORS_PROFILES[travelMode]}/geojson`, {
+          method: "POST",
+          headers: requestHeaders(endpoint, true),
+          body: JSON.stringify({
+            coordinates: [[origin.lon, origin.lat], [destination.lon, destination.lat]],
+          }),
+        });
+
+        if (!response.ok) {
+          devLog.error(`OpenRouteService Directions API error: ${response.status} - ${await response.text()}`);
+          return null;
+        }
+
+        const data = await response.json();
+        const feature = data.features?.[0];
+        const summary = feature?.properties?.summary;
+        const coordinates = feature?.geometry?.coordinates;
+        if (!summary || !Array.isArray(coordinates) || coordinates.length < 2) {
+          return null;
+        }
+
+        return {
+          // ORS leaves the summary empty when origin and destination coincide
+          distanceMeters: summary.distance ?? 0,
+          durationSeconds: summary.duration ?? 0,
+          coordinates: withGeometry ? toLatLon(coordinates) : undefined,
+        };
+      } catch (error) {
+        devLog.error("OpenRouteService Directions API error:", error);
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * OSRM Table and Route APIs. Free, but the public servers have no SLA;
+ * a local osrm-routed container is a drop-in replacement.
+ */
+function createOsrmProvider(): RoutingProvider {
+  const server = (travelMode: TravelMode) => {
+    const { envName, baseUrl, profile } = OSRM_SERVERS[travelMode];
+    return { endpoint: readEndpoint(envName, baseUrl, "OSRM_AUTH"), profile };
+  };
+
+  return {
+    id: "osrm",
+    serverUrl: (travelMode) => server(travelMode).endpoint.baseUrl,
+
+    async matrix(origin, destinations, travelMode) {
+      try {
+        const { endpoint, profile } = server(travelMode);
+        // Origin first, then all destinations
+        const coords = [origin, ...destinations].map((point) => `${point.lon},${point.lat}`).join(";");
+        const url = `${endpoint.baseUrl}/table/v1/${profile}/${coords}?sources=0&annotations=distance,duration`;
+
+        const response = await fetchWithRetry(url, { headers: requestHeaders(endpoint) });
+
+        if (!response.ok) {
+          devLog.error(`OSRM Table API error: ${response.status}`);
+          return null;
+        }
+
+        const data = await response.json();
+
+        if (data.code !== "Ok") {
+          devLog.error("OSRM Table API returned error:", data.code);
+          return null;
+        }
+
+        // Remove first element (origin to origin = 0)
+        const distances = data.distances?.[0]?.slice(1) || [];
+        const durations = data.durations?.[0]?.slice(1) || [];
+
+        devLog.log(`OSRM Table: ${distances.filter((d: number | null) => d !== null).length}/${destinations.length} routes calculated`);
+
+        return { distances, durations };
+      } catch (error) {
+        devLog.error("OSRM Table API error:", error);
+        return null;
+      }
+    },
+
+    async table(points, travelMode) {
+      try {
+        const { endpoint, profile } = server(travelMode);
+        // Without sources and destinations, OSRM returns every coordinate to every coordinate
+        const coords = points.map((point) => `${point.lon},${point.lat}`).join(";");
+        const url = `${endpoint.baseUrl}/table/v1/${profile}/${coords}?annotations=distance,duration`;
+
+        const response = await fetchWithRetry(url, { headers: requestHeaders(endpoint) });
+
+        if (!response.ok) {
+          devLog.error(`OSRM Table API error: ${response.status}`);
+          return null;
+        }
+
+        const data = await response.json();
+        if (data.code !== "Ok" || !Array.isArray(data.distances) || !Array.isArray(data.durations)) {
+          devLog.error("OSRM Table API returned error:", data.code);
+          return null;
+        }
+
+        return { distances: data.distances, durations: data.durations };
+      } catch (error) {
+        devLog.error("OSRM Table API error:", error);
+        return null;
+      }
+    },
+
+    async route(origin, destination, travelMode, withGeometry) {
+      try {
+        const { endpoint, profile } = server(travelMode);
+        const overview = withGeometry ? "overview=full&geometries=geojson" : "overview=false";
+        const url = `${endpoint.baseUrl}/route/v1/${profile}/${origin.lon},${origin.lat};${destination.lon},${destination.lat}?${overview}`;
+
+        const response = await fetchWithRetry(url, { headers: requestHeaders(endpoint) });
+
+        if (!response.ok) {
+          devLog.error(`OSRM Route API error: ${response.status}`);
+          return null;
+        }
+
+        const data = await response.json();
+        const route = data.routes?.[0];
+        if (data.code !== "Ok" || !route) {
+          return null;
+        }
+
+        const coordinates = route.geometry?.coordinates;
+        if (withGeometry && (!Array.isArray(coordinates) || coordinates.length < 2)) {
+          return null;
+        }
+
+        return {
+          distanceMeters: route.distance,
+          durationSeconds: route.duration,
+          coordinates: withGeometry ? toLatLon(coordinates) : undefined,
+        };
+      } catch (error) {
+        devLog.error("OSRM Route API error:", error);
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Valhalla Matrix (sources_to_targets) and Route APIs. VALHALLA_URL defaults
+ * to the FOSSGIS public server.
+ */
+function createValhallaProvider(endpoint: ProviderEndpoint): RoutingProvider {
+  return {
+    id: "valhalla",
+    serverUrl: () => endpoint.baseUrl,
+
+    async matrix(origin, destinations, travelMode) {
+      try {
+        const response = await fetchWithRetry(`${endpoint.baseUrl}/sources_to_targets`, {
+          method: "POST",
+          headers: requestHeaders(endpoint, true),
+          body: JSON.stringify({
+            sources: [origin],
+            targets: destinations,
+            costing: VALHALLA_COSTING[travelMode],
+            units: "kilometers",
+          }),
+        });
+
+        if (!response.ok) {
+          devLog.error(`Valhalla Matrix API error: ${response.status} - ${await response.text()}`);
+          return null;
+        }
+
+        const data = await response.json();
+        const row: { distance: number | null; time: number | null }[] = data.sources_to_targets?.[0] || [];
+
+        // Valhalla returns kilometers and seconds
+        const distances = row.map((cell) => (cell.distance === null ? null : cell.distance * 1000));
+        const durations = row.map((cell) => cell.time);
+
+        devLog.log(`Valhalla Matrix: ${distances.filter((d) => d !== null).length}/${destinations.length} routes calculated`);
+
+        return { distances, durations };
+      } catch (error) {
+        devLog.error("Valhalla Matrix API error:", error);
+        return null;
+      }
+    },
+
+    async table(points, travelMode) {
+      try {
+        const response = await fetchWithRetry(`${endpoint.baseUrl}/sources_to_targets`, {
+          method: "POST",
+          headers: requestHeaders(endpoint, true),
+          body: JSON.stringify({
+            sources: points,
+            targets: points,
+            costing: VALHALLA_COSTING[travelMode],
+            units: "kilometers",
+          }),
+        });
+
+        if (!response.ok) {
+          devLog.error(`Valhalla Matrix API error: ${response.status} - ${await response.text()}`);
+          return null;
+        }
+
+        const data = await response.json();
+        const rows: { distance: number | null; time: number | null }[][] | undefined = data.sources_to_targets;
+        if (!Array.isArray(rows)) {
+          return null;
+        }
+
+        return {
+          distances: rows.map((row) => row.map((cell) => (cell.distance === null ? null : cell.distance * 1000))),
+          durations: rows.map((row) => row.map((cell) => cell.time)),
+        };
+      } catch (error) {
+        devLog.error("Valhalla Matrix API error:", error);
+        return null;
+      }
+    },
+
+    async route(origin, destination, travelMode, withGeometry) {
+      try {
+        const response = await fetchWithRetry(`${endpoint.baseUrl}/route`, {
+          method: "POST",
+          headers: requestHeaders(endpoint, true),
+          body: JSON.stringify({
+            locations: [origin, destination],
+            costing: VALHALLA_COSTING[travelMode],
+            units: "kilometers",
+          }),
+        });
+
+        if (!response.ok) {
+          devLog.error(`Valhalla Route API error: ${response.status} - ${await response.text()}`);
+          return null;
+        }
+
+        const data = await response.json();
+        const summary = data.trip?.summary;
+        const shape = data.trip?.legs?.[0]?.shape;
+        if (!summary || (withGeometry && typeof shape !== "string")) {
+          return null;
+        }
+
+        return {
+          distanceMeters: summary.length * 1000,
+          durationSeconds: summary.time,
+          coordinates: withGeometry ? decodePolyline(shape) : undefined,
+        };
+      } catch (error) {
+        devLog.error("Valhalla Route API error:", error);
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Reads the provider order set for this environment in ROUTING_PROVIDERS
+ * (e.g. "osrm" to use only a local OSRM container). Unknown ids are ignored.
+ */
+function environmentRoutingConfig(): RoutingConfig {
+  const order = (Deno.env.get("ROUTING_PROVIDERS") ?? "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter((id, index, ids): id is RouterId => ROUTER_IDS.includes(id as RouterId) && ids.indexOf(id) === index);
+  return order.length > 0 ? { order } : DEFAULT_ROUTING_CONFIG;
+}
+
+/**
+ * Builds the routing providers in fallback order: the empresa's routing_config,
+ * else the environment's ROUTING_PROVIDERS, else the default order.
+ * The public ORS server is skipped when no API key is configured.
+ */
+function createRoutingProviders(config: RoutingConfig | null): RoutingProvider[] {
+  const order = config?.order?.length ? config.order : environmentRoutingConfig().order;
+  const providers: RoutingProvider[] = [];
+
+  for (const id of order) {
+    if (id === "ors") {
+      const endpoint = readEndpoint("ORS_BASE_URL", PUBLIC_ORS_URL, "OPENROUTESERVICE_API_KEY");
+      if (endpoint.baseUrl === PUBLIC_ORS_URL && !endpoint.auth) {
+        devLog.error("OPENROUTESERVICE_API_KEY not configured, skipping OpenRouteService");
+        continue;
+      }
+      providers.push(createOpenRouteServiceProvider(endpoint));
+    } else if (id === "osrm") {
+      providers.push(createOsrmProvider());
+    } else if (id === "valhalla") {
+      providers.push(createValhallaProvider(readEndpoint("VALHALLA_URL", PUBLIC_VALHALLA_URL, "VALHALLA_AUTH")));
+    }
   }
+
+  return providers.length > 0 ? providers : [createOsrmProvider()];
+}
+
+/**
+ * Builds a route result for a provider from distance (meters) and duration (seconds).
+ */
+function toRouteResult(
+  location: Location,
+  distanceMeters: number,
+  durationSeconds: number,
+  source: RouteResult["source"]
+): RouteResult {
+  return {
+    name: location.name,
+    distanceKm: distanceMeters / 1000,
+    durationMinutes: durationSeconds / 60,
+    source,
+    estimated: source === "haversine",
+    latitude: location.latitude,
+    longitude: location.longitude,
+    address: location.address,
+    number: location.number,
+    neighborhood: location.neighborhood,
+    city: location.city,
+    state: location.state,
+    services: location.services,
+    openingHours: location.openingHours,
+    phone: location.phone,
+    whatsapp: location.whatsapp,
+    email: location.email,
+  };
 }
 
 /**
- * Process a batch of locations using Distance Matrix APIs
- * Tries OpenRouteService first, then OSRM Table, then individual OSRM requests
+ * Process a batch of locations using the providers' Distance Matrix APIs, in order,
+ * then individual route requests when every matrix fails.
+ * Entries no provider could route are null.
  */
 async function processBatchWithTableAPI(
+  providers: RoutingProvider[],
   batch: Location[],
   originLat: number,
-  originLon: number
+  originLon: number,
+  travelMode: TravelMode
 ): Promise<(RouteResult | null)[]> {
+  const origin = { lat: originLat, lon: originLon };
   const destinations = batch.map((loc) => ({
     lat: loc.latitude,
     lon: loc.longitude,
   }));
 
-  // Try OpenRouteService Matrix first (accurate, requires API key)
-  let matrixResult = await getOpenRouteServiceMatrix(originLat, originLon, destinations);
-  
-  // Fallback to OSRM if ORS fails
-  if (!matrixResult) {
-    devLog.log("OpenRouteService failed, falling back to OSRM");
-    matrixResult = await getOSRMTableDistances(originLat, originLon, destinations);
-  }
+  for (const provider of providers) {
+    const matrix = await provider.matrix(origin, destinations, travelMode);
+    if (!matrix) {
+      devLog.log(`${provider.id} matrix failed, trying next provider`);
+      continue;
+    }
 
-  if (matrixResult) {
-    // Successfully got results from Distance Matrix API
-    devLog.log(`Using ${matrixResult.source} results`);
+    devLog.log(`Using ${provider.id} results`);
     return batch.map((location, index) => {
-      const distance = matrixResult!.distances[index];
-      const duration = matrixResult!.durations[index];
+      const distance = matrix.distances[index];
+      const duration = matrix.durations[index];
 
-      if (distance === null || duration === null) {
+      if (distance === null || distance === undefined || duration === null || duration === undefined) {
         return null;
       }
 
-      return {
-        name: location.name,
-        distanceKm: distance / 1000, // meters to km
-        durationMinutes: duration / 60, // seconds to minutes
-        latitude: location.latitude,
-        longitude: location.longitude,
-        address: location.address,
-        number: location.number,
-        neighborhood: location.neighborhood,
-        city: location.city,
-        state: location.state,
-        services: location.services,
-      };
+      return toRouteResult(location, distance, duration, provider.id);
     });
   }
 
-  // Fallback: process in parallel with individual route requests (OSRM)
-  devLog.log("All matrix APIs failed, falling back to parallel individual OSRM requests");
-  
-  const promises = batch.map(async (location) => {
-    try {
-      const url = `https://router.project-osrm.org/route/v1/driving/${originLon},${originLat};${location.longitude},${location.latitude}?overview=false`;
+  // Fallback: process in parallel with individual route requests, each trying the providers in order
+  devLog.log("All matrix APIs failed, falling back to parallel individual route requests");
 
-      const response = await fetchWithRetry(url, {
-        headers: { "User-Agent": "LocalizAI/1.0" },
-      });
-
-      if (!response.ok) return null;
-
-      const data = await response.json();
-      if (data.code !== "Ok" || !data.routes?.[0]) return null;
-
-      const route = data.routes[0];
-      return {
-        name: location.name,
-        distanceKm: route.distance / 1000,
-        durationMinutes: route.duration / 60,
-        latitude: location.latitude,
-        longitude: location.longitude,
-        address: location.address,
-        number: location.number,
-        neighborhood: location.neighborhood,
-        city: location.city,
-        state: location.state,
-        services: location.services,
-      };
-    } catch {
-      return null;
+  const promises = batch.map(async (location, index) => {
+    for (const provider of providers) {
+      const route = await provider.route(origin, destinations[index], travelMode, false);
+      if (route) {
+        return toRouteResult(location, route.distanceMeters, route.durationSeconds, provider.id);
+      }
     }
+    return null;
   });
 
   return Promise.all(promises);
 }
 
+interface RouteGeometry {
+  /** Path as [lat, lon] pairs, from the origin to the destination */
+  coordinates: [number, number][];
+  source: RouterId;
+}
+
+/**
+ * Fetches the path of a single route from the first provider that finds one.
+ * Returns null when none does.
+ */
+async function getRouteGeometry(
+  providers: RoutingProvider[],
+  originLat: number,
+  originLon: number,
+  destinationLat: number,
+  destinationLon: number,
+  travelMode: TravelMode
+): Promise<RouteGeometry | null> {
+  const origin = { lat: originLat, lon: originLon };
+  const destination = { lat: destinationLat, lon: destinationLon };
+
+  for (const provider of providers) {
+    const route = await provider.route(origin, destination, travelMode, true);
+    if (route?.coordinates) {
+      return { coordinates: route.coordinates, source: provider.id };
+    }
+  }
+  return null;
+}
+
+// Average speeds used to estimate travel time over the straight-line distance
+const ESTIMATED_SPEED_KMH: Record<TravelMode, number> = {
+  driving: 40,
+  walking: 5,
+  cycling: 15,
+};
+
+/**
+ * Straight-line (Haversine) estimate for a provider no routing service could reach.
+ */
+function estimateRoute(location: Location, originLat: number, originLon: number, travelMode: TravelMode): RouteResult {
+  const distanceKm = calculateHaversineDistance(originLat, originLon, location.latitude, location.longitude);
+  const durationHours = distanceKm / ESTIMATED_SPEED_KMH[travelMode];
+  return toRouteResult(location, distanceKm * 1000, durationHours * 60 * 60, "haversine");
+}
+
+interface RouteMatrix {
+  /** By [from][to], in the order of the requested points */
+  distancesKm: number[][];
+  durationsMinutes: number[][];
+  /** Service that calculated the matrix, or "haversine" when every provider failed */
+  source: RouterId | "haversine";
+  /** True when at least one pair is a straight-line estimate */
+  estimated: boolean;
+}
+
+/**
+ * Calculates the travel matrix between the points with the first provider that answers.
+ * Pairs it could not route get a straight-line estimate, like unroutable search results.
+ */
+async function getRouteMatrix(providers: RoutingProvider[], points: Point[], travelMode: TravelMode): Promise<RouteMatrix> {
+  let table: TravelMatrix | null = null;
+  let source: RouteMatrix["source"] = "haversine";
+
+  for (const provider of providers) {
+    table = await provider.table(points, travelMode);
+    if (table) {
+      source = provider.id;
+      break;
+    }
+    devLog.log(`${provider.id} table failed, trying next provider`);
+  }
+
+  let estimated = false;
+  const distancesKm = points.map(() => [] as number[]);
+  const durationsMinutes = points.map(() => [] as number[]);
+
+  points.forEach((from, i) => {
+    points.forEach((to, j) => {
+      const distance = table?.distances[i]?.[j];
+      const duration = table?.durations[i]?.[j];
+      if (i === j) {
+        distancesKm[i][j] = 0;
+        durationsMinutes[i][j] = 0;
+      } else if (typeof distance === "number" && typeof duration === "number") {
+        distancesKm[i][j] = distance / 1000;
+        durationsMinutes[i][j] = duration / 60;
+      } else {
+        estimated = true;
+        const distanceKm = calculateHaversineDistance(from.lat, from.lon, to.lat, to.lon);
+        distancesKm[i][j] = distanceKm;
+        durationsMinutes[i][j] = (distanceKm / ESTIMATED_SPEED_KMH[travelMode]) * 60;
+      }
+    });
+  });
+
+  return { distancesKm, durationsMinutes, source, estimated };
+}
+
+const ROUTE_CACHE_TTL_DAYS = 7;
+// Three decimals of a degree is ~110 m, so nearby origins share cache entries
+const ROUTE_CACHE_ORIGIN_DECIMALS = 3;
+const ROUTE_CACHE_DESTINATION_DECIMALS = 6;
+
+interface CachedRoute {
+  distanceMeters: number;
+  durationSeconds: number;
+  source: RouterId;
+}
+
+/**
+ * Builds the route cache key: travel mode, origin rounded to ~100 m and destination.
+ */
+function buildRouteKey(travelMode: TravelMode, originLat: number, originLon: number, location: Location): string {
+  const origin = `${originLat.toFixed(ROUTE_CACHE_ORIGIN_DECIMALS)},${originLon.toFixed(ROUTE_CACHE_ORIGIN_DECIMALS)}`;
+  const destination = `${location.latitude.toFixed(ROUTE_CACHE_DESTINATION_DECIMALS)},${location.longitude.toFixed(ROUTE_CACHE_DESTINATION_DECIMALS)}`;
+  return `${travelMode}|${origin}|${destination}`;
+}
+
+/**
+ * Cache source of a provider's routes: its id and the server it queries, so routes from
+ * e.g. the public OSRM demo are not reused after switching to a self-hosted server.
+ */
+function routeCacheSource(provider: RoutingProvider, travelMode: TravelMode): string {
+  return `${provider.id}@${provider.serverUrl(travelMode)}`;
+}
+
+/**
+ * Reads live cached routes for the given keys, calculated by the active providers and servers.
+ * When several of them cached a route, the earliest one in the provider order is preferred.
+ * Errors are only logged and count as misses.
+ */
+async function lookupRouteCache(
+  supabase: SupabaseClient,
+  routeKeys: string[],
+  providers: RoutingProvider[],
+  travelMode: TravelMode
+): Promise<Map<string, CachedRoute>> {
+  const cached = new Map<string, CachedRoute>();
+  const sources = providers.map((provider) => routeCacheSource(provider, travelMode));
+  if (routeKeys.length === 0) {
+    return cached;
+  }
+
+  const { data, error } = await supabase
+    .from("route_cache")
+    .select("route_key, source, distance_meters, duration_seconds")
+    .in("route_key", routeKeys)
+    .in("source", sources)
+    .gt("expires_at", new Date().toISOString());
+
+  if (error) {
+    devLog.error("Error reading route cache:", error);
+    return cached;
+  }
+
+  // Provider order position of the source kept for each route
+  const ranks = new Map<string, number>();
+  for (const entry of data ?? []) {
+    const rank = sources.indexOf(entry.source);
+    if (rank === -1 || rank >= (ranks.get(entry.route_key) ?? sources.length)) continue;
+    ranks.set(entry.route_key, rank);
+    cached.set(entry.route_key, {
+      distanceMeters: entry.distance_meters,
+      durationSeconds: entry.duration_seconds,
+      source: providers[rank].id,
+    });
+  }
+  return cached;
+}
+
+/**
+ * Stores freshly calculated routes under the service and server that calculated each one,
+ * replacing expired entries. Errors are only logged.
+ */
+async function storeRouteCache(
+  supabase: SupabaseClient,
+  providers: RoutingProvider[],
+  travelMode: TravelMode,
+  routes: { routeKey: string; result: RouteResult }[]
+): Promise<void> {
+  if (routes.length === 0) {
+    return;
+  }
+
+  const sources = new Map<string, string>(providers.map((provider) => [provider.id, routeCacheSource(provider, travelMode)]));
+
+  const expiresAt = new Date(Date.now() + ROUTE_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error } = await supabase
+    .from("route_cache")
+    .upsert(
+      routes.map(({ routeKey, result }) => ({
+        route_key: routeKey,
+        source: sources.get(result.source),
+        travel_mode: travelMode,
+        distance_meters: result.distanceKm * 1000,
+        duration_seconds: result.durationMinutes * 60,
+        created_at: new Date().toISOString(),
+        expires_at: expiresAt,
+      })),
+      { onConflict: "route_key,source" }
+    );
+
+  if (error) {
+    devLog.error("Error storing routes in cache:", error);
+  }
+}
+
 serve(async (req) => {
   const origin = req.headers.get("Origin");
   const corsHeaders = getCorsHeaders(origin);
@@ -542,7 +1312,7 @@ serve(async (req) => {
     
     const { data: empresa, error: empresaError } = await supabase
       .from('empresas')
-      .select('id, is_active')
+      .select('id, is_active, search_settings, routing_config, service_vocabulary')
       .eq('id', validation.data.empresaId)
       .eq('is_active', true)
       .single();
@@ -558,8 +1328,16 @@ serve(async (req) => {
       );
     }
 
-    // Rate limit: 20 requests per empresa_id per 60 seconds
-    const rl = await checkRateLimit(supabase, validation.data.empresaId, 'calculate-routes', 20, 60);
+    // Rate limit per empresa_id per 60 seconds: 20 searches, 15 roster (batch) searches,
+    // 60 route geometries, 20 itinerary matrices
+    const { action } = validation.data;
+    const rl = action === "geometry"
+      ? await checkRateLimit(supabase, validation.data.empresaId, 'route-geometry', 60, 60)
+      : action === "matrix"
+        ? await checkRateLimit(supabase, validation.data.empresaId, 'route-matrix', 20, 60)
+        : validation.data.batch
+          ? await checkRateLimit(supabase, validation.data.empresaId, 'calculate-routes-batch', 15, 60)
+          : await checkRateLimit(supabase, validation.data.empresaId, 'calculate-routes', 20, 60);
     if (!rl.allowed) {
       return new Response(
         JSON.stringify({ error: "Muitas requisições. Aguarde e tente novamente." }),
@@ -570,65 +1348,189 @@ serve(async (req) => {
       );
     }
 
-    const { originLat, originLon, locations } = validation.data;
-
-    devLog.log(`Processing ${locations.length} locations`);
-
-    // Step 1: Pre-filter using Haversine distance (straight-line)
-    const MAX_HAVERSINE_DISTANCE_KM = 60;
-    const locationsWithHaversine = locations
-      .map((location) => ({
-        ...location,
-        haversineDistance: calculateHaversineDistance(
-          originLat,
-          originLon,
-          location.latitude,
-          location.longitude
-        ),
-      }))
-      .filter((loc) => loc.haversineDistance <= MAX_HAVERSINE_DISTANCE_KM)
-      .sort((a, b) => a.haversineDistance - b.haversineDistance);
-
-    devLog.log(
-      `Pre-filtered to ${locationsWithHaversine.length} locations within ${MAX_HAVERSINE_DISTANCE_KM}km`
+    const providers = createRoutingProviders(empresa.routing_config as RoutingConfig | null);
+
+    if (validation.data.action === "geometry") {
+      const { originLat, originLon, destinationLat, destinationLon, travelMode } = validation.data;
+      const origin = { lat: originLat, lon: originLon };
+      if (!(await areReachableLocations(supabase, validation.data.empresaId, origin, [{ lat: destinationLat, lon: destinationLon }]))) {
+        return new Response(
+          JSON.stringify({ error: "O destino não é um prestador da rede próximo à origem" }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const route = await getRouteGeometry(providers, originLat, originLon, destinationLat, destinationLon, travelMode);
+
+      return new Response(JSON.stringify({ geometry: route?.coordinates ?? null, source: route?.source ?? null }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (validation.data.action === "matrix") {
+      const { points, travelMode } = validation.data;
+      // points[0] is the itinerary start (the searched address); the stops are providers
+      if (!(await areReachableLocations(supabase, validation.data.empresaId, points[0], points.slice(1)))) {
+        return new Response(
+          JSON.stringify({ error: "As paradas do roteiro devem ser prestadores da rede próximos ao ponto de partida" }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const matrix = await getRouteMatrix(providers, points, travelMode);
+      devLog.log(`Route matrix: ${points.length} points from ${matrix.source}${matrix.estimated ? " (estimated pairs)" : ""}`);
+
+      return new Response(JSON.stringify(matrix), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { originLat, originLon, networks, services, openAt, travelMode, sortBy, maxMinutes } = validation.data;
+
+    const settings = resolveSearchSettings(empresa.search_settings);
+    const vocabulary = empresa.service_vocabulary as ServiceVocabulary | null;
+    const matchesFilters = (location: Location) =>
+      offersAllServices(location, services, vocabulary) &&
+      (!openAt || isLocationOpenAt(location, openAt));
+
+    // Travel time does not follow straight-line distance (highways, rivers, one-way streets), so
+    // time-based searches use a larger pool: the prefilter reaches as far as maxMinutes allows at
+    // the mode's top speed, and more candidates are routed. The fastest provider is still chosen
+    // among the closest in a straight line, within the radiusKm and maxCandidates ceilings.
+    const isTimeBased = sortBy === "duration" || maxMinutes !== undefined;
+    const maxCandidates = isTimeBased
+      ? Math.min(settings.maxCandidates * TIME_SEARCH_CANDIDATE_FACTOR, SEARCH_SETTINGS_LIMITS.maxCandidates)
+      : settings.maxCandidates;
+
+    // Step 1: Load candidates from the empresa's synced network around the origin.
+    // The radius is widened while fewer than minResults providers are found.
+    let radiusKm = maxMinutes !== undefined
+      ? Math.min(Math.max(settings.radiusKm, Math.ceil((maxMinutes / 60) * MAX_SPEED_KMH[travelMode])), SEARCH_SETTINGS_LIMITS.radiusKm)
+      : settings.radiusKm;
+    let locationsWithHaversine = await findNearbyCandidates(
+      supabase,
+      validation.data.empresaId,
+      originLat,
+      originLon,
+      radiusKm,
+      networks,
+      matchesFilters
     );
 
-    // Step 2: Take only the closest 20 candidates
-    const MAX_CANDIDATES = 20;
-    const candidates = locationsWithHaversine.slice(0, MAX_CANDIDATES);
+    while (
+      locationsWithHaversine !== null &&
+      locationsWithHaversine.length < settings.minResults &&
+      radiusKm < SEARCH_SETTINGS_LIMITS.radiusKm
+    ) {
+      radiusKm = Math.min(radiusKm * RADIUS_WIDENING_FACTOR, SEARCH_SETTINGS_LIMITS.radiusKm);
+      devLog.log(`Fewer than ${settings.minResults} locations found, widening radius to ${radiusKm}km`);
+      locationsWithHaversine = await findNearbyCandidates(
+        supabase,
+        validation.data.empresaId,
+        originLat,
+        originLon,
+        radiusKm,
+        networks,
+        matchesFilters
+      );
+    }
+
+    if (locationsWithHaversine === null) {
+      return new Response(
+        JSON.stringify({ error: "Rede de prestadores não sincronizada. Peça ao administrador para sincronizar a planilha." }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Step 2: Take only the closest candidates
+    const candidates = locationsWithHaversine.slice(0, maxCandidates);
+
+    // Step 3: Reuse cached routes; only the missing pairs are sent to the routing services
+    const allResults: RouteResult[] = [];
+    const uncached: { location: Location; routeKey: string }[] = [];
+    const routeKeys = candidates.map((location) => buildRouteKey(travelMode, originLat, originLon, location));
+    const cachedRoutes = await lookupRouteCache(supabase, routeKeys, providers, travelMode);
+
+    candidates.forEach((location, index) => {
+      const cached = cachedRoutes.get(routeKeys[index]);
+      if (cached) {
+        allResults.push(toRouteResult(location, cached.distanceMeters, cached.durationSeconds, cached.source));
+      } else {
+        uncached.push({ location, routeKey: routeKeys[index] });
+      }
+    });
 
-    devLog.log(`Processing ${candidates.length} closest candidates with Table API`);
+    const cacheHits = allResults.length;
+    devLog.log(`Route cache: ${cacheHits} hits, processing ${uncached.length} candidates with Table API`);
 
-    // Step 3: Process in batches using Table API (10 per batch for reliability)
+    // Step 4: Process in batches using Table API (10 per batch for reliability)
     const BATCH_SIZE = 10;
-    const allResults: (RouteResult | null)[] = [];
 
-    for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
-      const batch = candidates.slice(i, i + BATCH_SIZE);
+    for (let i = 0; i < uncached.length; i += BATCH_SIZE) {
+      const batch = uncached.slice(i, i + BATCH_SIZE);
       const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-      const totalBatches = Math.ceil(candidates.length / BATCH_SIZE);
+      const totalBatches = Math.ceil(uncached.length / BATCH_SIZE);
       
       devLog.log(`Processing batch ${batchNum}/${totalBatches} (${batch.length} locations)`);
 
-      const batchResults = await processBatchWithTableAPI(batch, originLat, originLon);
-      allResults.push(...batchResults);
+      const batchResults = await processBatchWithTableAPI(
+        providers,
+        batch.map(({ location }) => location),
+        originLat,
+        originLon,
+        travelMode
+      );
+      // Providers no routing service reached are kept with a straight-line estimate
+      allResults.push(...batchResults.map((result, index) =>
+        result ?? estimateRoute(batch[index].location, originLat, originLon, travelMode)
+      ));
+
+      await storeRouteCache(
+        supabase,
+        providers,
+        travelMode,
+        batch.flatMap(({ routeKey }, index) => {
+          const result = batchResults[index];
+          return result ? [{ routeKey, result }] : [];
+        })
+      );
 
       // Reduced delay between batches (200ms instead of 500ms)
-      if (i + BATCH_SIZE < candidates.length) {
+      if (i + BATCH_SIZE < uncached.length) {
         await sleep(200);
       }
     }
 
-    // Filter out failed routes and sort by distance
-    const validResults: RouteResult[] = allResults.filter(
-      (r): r is RouteResult => r !== null
+    // Sort by distance or travel time. Straight-line estimates understate the real route,
+    // so they come after every routed provider instead of being ranked among them.
+    allResults.sort((a, b) =>
+      Number(a.estimated) - Number(b.estimated) ||
+      (sortBy === "duration" ? a.durationMinutes - b.durationMinutes : a.distanceKm - b.distanceKm)
     );
 
-    validResults.sort((a, b) => a.distanceKm - b.distanceKm);
+    // Step 5: A radius in minutes keeps only the routes within it; when fewer than minResults are,
+    // the first minResults routes are kept instead, as the radius in km is widened
+    let routes = allResults;
+    if (maxMinutes !== undefined) {
+      const withinTime = allResults.filter((result) => result.durationMinutes <= maxMinutes);
+      routes = withinTime.length < settings.minResults
+        ? allResults.slice(0, Math.max(settings.minResults, withinTime.length))
+        : withinTime;
+    }
 
-    devLog.log(`Returning ${validResults.length} valid routes`);
+    const estimatedCount = routes.filter((result) => result.estimated).length;
+    devLog.log(`Returning ${routes.length} ${travelMode} routes (${estimatedCount} estimated)`);
 
-    return new Response(JSON.stringify({ routes: validResults }), {
+    return new Response(JSON.stringify({ routes, cacheHits }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
@@ -0,0 +1,106 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { devLog } from '../_shared/logger.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { verifyAdminSecret } from '../_shared/auth.ts';
+
+interface CacheRequest {
+  action: 'stats';
+  empresa_id?: string;
+  admin_secret?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+Deno.serve(async (req) => {
+  const origin = req.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body: CacheRequest = await req.json();
+    const { action, empresa_id } = body;
+
+    if (!empresa_id || !UUID_PATTERN.test(empresa_id)) {
+      return new Response(
+        JSON.stringify({ error: 'A valid empresa_id is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Action: Hit/miss counters for the admin page
+    if (action === 'stats') {
+      const { admin_secret } = body;
+
+      if (!admin_secret) {
+        return new Response(
+          JSON.stringify({ error: 'admin_secret is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const rl = await checkRateLimit(supabase, empresa_id, 'geocode-cache-stats', 10, 60);
+      if (!rl.allowed) {
+        return new Response(
+          JSON.stringify({ error: 'Muitas tentativas. Aguarde e tente novamente.' }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(rl.retryAfterSeconds) },
+          }
+        );
+      }
+
+      const isAuthorized = await verifyAdminSecret(supabase, empresa_id, admin_secret);
+      if (!isAuthorized) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data, error } = await supabase
+        .from('geocode_cache_stats')
+        .select('hits, misses')
+        .eq('empresa_id', empresa_id)
+        .maybeSingle();
+
+      if (error) {
+        devLog.error('Error loading cache stats:', error);
+        return new Response(
+          JSON.stringify({ error: 'Failed to load cache stats' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, hits: data?.hits ?? 0, misses: data?.misses ?? 0 }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid action' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    devLog.error('Geocode cache error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
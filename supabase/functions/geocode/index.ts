@@ -0,0 +1,978 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { devLog } from "../_shared/logger.ts";
+import { getCorsHeaders } from "../_shared/cors.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
+import { resolveStateName } from "../_shared/states.ts";
+import { buildAddressKey } from "../_shared/addressKey.ts";
+import { isPrivateIpAddress, isPublicHttpsUrl } from "../_shared/publicUrl.ts";
+
+// Same values as GeocoderId, GeocodingSource and GeocodingPrecision in src/lib/geocoding.ts
+type GeocoderId = "nominatim" | "photon" | "self-hosted";
+type GeocodingSource = GeocoderId | "brasilapi";
+type GeocodingPrecision = "rooftop" | "street" | "neighborhood" | "cep" | "city";
+
+interface GeocoderConfig {
+  order: GeocoderId[];
+  selfHostedUrl?: string;
+}
+
+interface SearchRequest {
+  action: "search";
+  empresaId: string;
+  street: string;
+  number: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+  /** 8 digits, or "" when the user did not type a valid CEP */
+  cep: string;
+}
+
+interface ReverseRequest {
+  action: "reverse";
+  empresaId: string;
+  latitude: number;
+  longitude: number;
+}
+
+type GeocodeRequest = SearchRequest | ReverseRequest;
+
+interface Match {
+  lat: number;
+  lon: number;
+  displayName: string;
+  /** Precision reported by the provider's place type, when it has one */
+  precision?: GeocodingPrecision;
+}
+
+interface Candidate {
+  lat: number;
+  lon: number;
+  displayName: string;
+  precision: GeocodingPrecision;
+}
+
+interface GeocodeResult {
+  lat: number;
+  lon: number;
+  searchUsed: string;
+  provider: GeocodingSource;
+  precision: GeocodingPrecision;
+  /** Ranked distinct places, only when the address is ambiguous; the first one is the result */
+  candidates?: Candidate[];
+}
+
+interface ReverseAddress {
+  street: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+  cep: string;
+}
+
+interface StructuredQuery {
+  street?: string;
+  city: string;
+  state: string;
+  country?: string;
+}
+
+/**
+ * A geocoding backend. Searches return matches ranked best first, or an empty list;
+ * they throw a "busy" error when the provider cannot take more requests right now.
+ */
+interface Geocoder {
+  id: GeocoderId;
+  structured(query: StructuredQuery): Promise<Match[]>;
+  freeText(query: string, city?: string, state?: string): Promise<Match[]>;
+  /** Locates a CEP (8 digits) inside the given city/state */
+  postalCode?(cep: string, city: string, state: string): Promise<Match[]>;
+  reverse?(lat: number, lon: number): Promise<ReverseAddress | null>;
+}
+
+/** Shared request budget of a provider, enforced across every caller by acquire_rate_slot */
+interface RateLimit {
+  key: string;
+  perSecond: number;
+}
+
+interface NominatimAddress {
+  road?: string;
+  pedestrian?: string;
+  street?: string;
+  suburb?: string;
+  neighbourhood?: string;
+  district?: string;
+  city?: string;
+  town?: string;
+  municipality?: string;
+  village?: string;
+  state?: string;
+  postcode?: string;
+}
+
+interface NominatimResponse {
+  lat: string;
+  lon: string;
+  display_name: string;
+  addresstype?: string;
+  type?: string;
+  address?: NominatimAddress;
+}
+
+interface BrasilApiCepResponse {
+  city?: string;
+  state?: string;
+  location?: { coordinates?: { latitude?: string; longitude?: string } };
+}
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    name?: string;
+    city?: string;
+    county?: string;
+    state?: string;
+    countrycode?: string;
+    type?: string;
+    street?: string;
+    housenumber?: string;
+    district?: string;
+  };
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_FIELD_LENGTH = 200;
+
+const NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+const PHOTON_URL = "https://photon.komoot.io";
+const USER_AGENT = "LocalizAI/1.0";
+// Nominatim's usage policy allows 1 req/s for the whole application
+const NOMINATIM_RATE_LIMIT: RateLimit = { key: "nominatim", perSecond: 1 };
+const PHOTON_RATE_LIMIT: RateLimit = { key: "photon", perSecond: 2 };
+const BRASILAPI_CEP_URL = "https://brasilapi.com.br/api/cep/v2";
+const BRASILAPI_RATE_LIMIT: RateLimit = { key: "brasilapi", perSecond: 5 };
+// Longest a request may wait in a provider's queue before the provider counts as busy
+const MAX_QUEUE_WAIT_MS = 8000;
+
+// Photon has no country filter; restrict results to Brazil's bounding box
+const BRAZIL_BBOX = "-74.0,-33.8,-34.7,5.3";
+// Matches closer than this are treated as the same place (e.g. segments of one street)
+const SAME_PLACE_MAX_DISTANCE_KM = 1;
+// Matches requested per search, enough to spot streets repeated across neighborhoods
+const MAX_MATCHES = "5";
+// Brazil's bounding box, with some margin, to discard misplaced CEP coordinates
+const BRAZIL_BOUNDS = { minLat: -35, maxLat: 6, minLon: -75, maxLon: -33 };
+
+const CACHE_TTL_DAYS = 90;
+// Results from the empresa's own server are not shared with other empresas
+const SCOPED_PROVIDERS: GeocodingSource[] = ["self-hosted"];
+
+const DEFAULT_GEOCODER_CONFIG: GeocoderConfig = { order: ["nominatim"] };
+
+// OSM place types (Nominatim addresstype/type, Photon type) by the precision they imply
+const PLACE_TYPE_PRECISION: Record<string, GeocodingPrecision> = {
+  house: "rooftop",
+  building: "rooftop",
+  road: "street",
+  street: "street",
+  residential: "street",
+  suburb: "neighborhood",
+  neighbourhood: "neighborhood",
+  quarter: "neighborhood",
+  city_district: "neighborhood",
+  district: "neighborhood",
+  locality: "neighborhood",
+  postcode: "cep",
+  city: "city",
+  town: "city",
+  village: "city",
+  municipality: "city",
+  county: "city",
+  state: "city",
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function busyError(): Error {
+  return new Error("Serviço de geocodificação ocupado. Tente novamente em alguns segundos.");
+}
+
+function isBusyError(error: unknown): boolean {
+  return error instanceof Error && error.message.includes("ocupado");
+}
+
+// Normalize strings for comparison (remove accents, lowercase)
+function normalizeString(str: string): string {
+  return str
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+// Contains-based matching to handle partial names and abbreviations
+function matchesCityState(resultCity: string | undefined, resultState: string | undefined, city: string, state: string): boolean {
+  if (!resultCity || !resultState) return false;
+
+  const normalizedCity = normalizeString(city);
+  const normalizedState = normalizeString(resolveStateName(state));
+  const normResultCity = normalizeString(resultCity);
+  const normResultState = normalizeString(resultState);
+
+  const cityMatch = normResultCity.includes(normalizedCity) || normalizedCity.includes(normResultCity);
+  const stateMatch = normResultState.includes(normalizedState) || normalizedState.includes(normResultState);
+  return cityMatch && stateMatch;
+}
+
+function precisionFromPlaceType(type: string | undefined): GeocodingPrecision | undefined {
+  return type ? PLACE_TYPE_PRECISION[type] : undefined;
+}
+
+// Haversine formula for straight-line distance
+function calculateHaversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const EARTH_RADIUS_KM = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Waits for the next request slot of a provider's shared token bucket.
+ * The bucket lives in the database, so every instance of this function shares it.
+ */
+async function acquireSlot(supabase: SupabaseClient, rateLimit: RateLimit): Promise<void> {
+  const { data: waitMs, error } = await supabase.rpc("acquire_rate_slot", {
+    p_key: rateLimit.key,
+    p_rate_per_second: rateLimit.perSecond,
+    p_capacity: 1,
+    p_max_wait_ms: MAX_QUEUE_WAIT_MS,
+  });
+
+  if (error) {
+    // Without the shared bucket the usage policy cannot be guaranteed
+    devLog.error(`Error acquiring rate slot for ${rateLimit.key}:`, error);
+    throw busyError();
+  }
+  if (waitMs === null) {
+    devLog.log(`Geocoder queue for ${rateLimit.key} is full`);
+    throw busyError();
+  }
+  if (waitMs > 0) {
+    await sleep(waitMs);
+  }
+}
+
+/**
+ * Fetch with exponential backoff retry for 429/503 responses.
+ * Every attempt, retries included, takes a slot from the provider's bucket.
+ */
+async function fetchWithRetry(
+  supabase: SupabaseClient,
+  rateLimit: RateLimit | null,
+  url: string,
+  maxRetries = 3
+): Promise<Response> {
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    if (rateLimit) {
+      await acquireSlot(supabase, rateLimit);
+    }
+
+    // A redirect could point the request at a host that was never validated
+    const response = await fetch(url, { headers: { "User-Agent": USER_AGENT }, redirect: "error" });
+    if (response.status === 429 || response.status === 503) {
+      const delayMs = Math.pow(2, attempt) * 1000;
+      devLog.log(`Geocoding: status ${response.status}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries})`);
+      await sleep(delayMs);
+      continue;
+    }
+    return response;
+  }
+  throw busyError();
+}
+
+/**
+ * Nominatim API client, shared by the public instance and self-hosted servers.
+ */
+function createNominatimGeocoder(
+  supabase: SupabaseClient,
+  id: GeocoderId,
+  baseUrl: string,
+  rateLimit: RateLimit | null
+): Geocoder {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  const request = async <T>(path: string, searchParams: URLSearchParams): Promise<T> => {
+    const response = await fetchWithRetry(supabase, rateLimit, `${base}/${path}?${searchParams}`);
+    if (!response.ok) {
+      throw new Error(`Nominatim (${id}) error: HTTP ${response.status}`);
+    }
+    return response.json();
+  };
+
+  const toMatch = (result: NominatimResponse): Match => ({
+    lat: parseFloat(result.lat),
+    lon: parseFloat(result.lon),
+    displayName: result.display_name,
+    precision: precisionFromPlaceType(result.addresstype ?? result.type),
+  });
+
+  return {
+    id,
+
+    // Structured query parameters restrict results to the correct city/state
+    async structured(params) {
+      const searchParams = new URLSearchParams({
+        format: "json",
+        limit: MAX_MATCHES,
+        countrycodes: "br",
+      });
+      if (params.street) {
+        searchParams.set("street", params.street);
+      }
+      searchParams.set("city", params.city);
+      searchParams.set("state", params.state);
+      if (params.country) {
+        searchParams.set("country", params.country);
+      }
+
+      // Structured query already constrains results to the correct city/state,
+      // so the results are trusted without display_name validation
+      const data = await request<NominatimResponse[]>("search", searchParams);
+      return data.map(toMatch);
+    },
+
+    // Uses addressdetails=1 to keep only results in the searched city/state
+    async freeText(query, city, state) {
+      const data = await request<NominatimResponse[]>("search", new URLSearchParams({
+        format: "json",
+        q: query,
+        countrycodes: "br",
+        limit: MAX_MATCHES,
+        addressdetails: "1",
+      }));
+
+      if (city && state) {
+        const matches = data.filter((result) => result.address && matchesCityState(
+          result.address.city || result.address.town || result.address.municipality,
+          result.address.state,
+          city,
+          state
+        ));
+        if (matches.length > 0) {
+          return matches.map(toMatch);
+        }
+        // The query already included city/state, so unmatched results are still kept
+        devLog.log("Free-text: no structured address match, using all results");
+      }
+
+      return data.map(toMatch);
+    },
+
+    async postalCode(cep, city, state) {
+      const data = await request<NominatimResponse[]>("search", new URLSearchParams({
+        format: "json",
+        limit: "1",
+        countrycodes: "br",
+        postalcode: `${cep.slice(0, 5)}-${cep.slice(5)}`,
+        city,
+        state,
+        country: "Brasil",
+      }));
+      return data.map(toMatch);
+    },
+
+    async reverse(lat, lon) {
+      const data = await request<NominatimResponse | { error: string }>("reverse", new URLSearchParams({
+        format: "json",
+        lat: String(lat),
+        lon: String(lon),
+        addressdetails: "1",
+      }));
+
+      const address = "address" in data ? data.address : undefined;
+      if (!address) {
+        return null;
+      }
+
+      return {
+        street: address.road || address.pedestrian || address.street || "",
+        neighborhood: address.suburb || address.neighbourhood || address.district || "",
+        city: address.city || address.town || address.municipality || address.village || "",
+        state: address.state || "",
+        cep: address.postcode || "",
+      };
+    },
+  };
+}
+
+/**
+ * Photon (komoot) client. Photon only has free-text search, so structured
+ * queries are sent as text and kept only when the result's city/state match.
+ */
+function createPhotonGeocoder(supabase: SupabaseClient): Geocoder {
+  const search = async (query: string): Promise<PhotonFeature[]> => {
+    const searchParams = new URLSearchParams({ q: query, limit: MAX_MATCHES, bbox: BRAZIL_BBOX });
+    const response = await fetchWithRetry(supabase, PHOTON_RATE_LIMIT, `${PHOTON_URL}/api/?${searchParams}`);
+    if (!response.ok) {
+      throw new Error(`Photon error: HTTP ${response.status}`);
+    }
+
+    const data: { features?: PhotonFeature[] } = await response.json();
+    return (data.features ?? []).filter((feature) => !feature.properties.countrycode || feature.properties.countrycode === "BR");
+  };
+
+  const toMatch = ({ geometry, properties }: PhotonFeature): Match => {
+    // Photon has no display name; build one like Nominatim's, without repeated parts
+    const street = [properties.street, properties.housenumber].filter(Boolean).join(", ");
+    const parts = [properties.name, street, properties.district, properties.city, properties.state]
+      .filter((part): part is string => !!part);
+
+    return {
+      lat: geometry.coordinates[1],
+      lon: geometry.coordinates[0],
+      displayName: parts.filter((part, index) => parts.indexOf(part) === index).join(", "),
+      precision: precisionFromPlaceType(properties.type),
+    };
+  };
+
+  const filterInCity = (features: PhotonFeature[], city: string, state: string) =>
+    features.filter((feature) => matchesCityState(
+      // City-level results carry the city in "name" rather than "city"
+      feature.properties.city || feature.properties.name,
+      feature.properties.state,
+      city,
+      state
+    ));
+
+  return {
+    id: "photon",
+
+    async structured(params) {
+      const query = [params.street, params.city, resolveStateName(params.state), params.country].filter(Boolean).join(", ");
+      return filterInCity(await search(query), params.city, params.state).map(toMatch);
+    },
+
+    async freeText(query, city, state) {
+      const features = await search(query);
+      const matches = city && state ? filterInCity(features, city, state) : [];
+      return (matches.length > 0 ? matches : features).map(toMatch);
+    },
+  };
+}
+
+/**
+ * Locates a CEP with BrasilAPI, the service the search form already uses to fill addresses.
+ * Only coordinates inside Brazil, for a CEP of the searched city, are accepted.
+ */
+async function geocodeCepWithBrasilApi(supabase: SupabaseClient, cep: string, city: string, state: string): Promise<Match | null> {
+  const response = await fetchWithRetry(supabase, BRASILAPI_RATE_LIMIT, `${BRASILAPI_CEP_URL}/${cep}`);
+  if (!response.ok) {
+    // 404: unknown CEP
+    return null;
+  }
+
+  const data: BrasilApiCepResponse = await response.json();
+  const lat = parseFloat(data.location?.coordinates?.latitude ?? "");
+  const lon = parseFloat(data.location?.coordinates?.longitude ?? "");
+
+  if (
+    isNaN(lat) || isNaN(lon) ||
+    lat < BRAZIL_BOUNDS.minLat || lat > BRAZIL_BOUNDS.maxLat ||
+    lon < BRAZIL_BOUNDS.minLon || lon > BRAZIL_BOUNDS.maxLon
+  ) {
+    return null;
+  }
+
+  // A CEP from another city means the form is inconsistent; don't trust it
+  if (!matchesCityState(data.city, data.state ? resolveStateName(data.state) : undefined, city, state)) {
+    devLog.log(`CEP ${cep} is not in ${city}/${state}`);
+    return null;
+  }
+
+  return { lat, lon, displayName: `CEP ${cep.slice(0, 5)}-${cep.slice(5)}, ${data.city}`, precision: "cep" };
+}
+
+/**
+ * Checks that every address the host resolves to is public, so a self-hosted URL
+ * cannot reach this function's own network through DNS. Unresolvable hosts fail.
+ */
+async function resolvesToPublicAddresses(hostname: string): Promise<boolean> {
+  const lookups = await Promise.allSettled([Deno.resolveDns(hostname, "A"), Deno.resolveDns(hostname, "AAAA")]);
+  const addresses = lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+  return addresses.length > 0 && addresses.every((address) => !isPrivateIpAddress(address));
+}
+
+/**
+ * Builds the geocoders of an empresa's configuration, in fallback order.
+ * Providers that cannot be built (e.g. self-hosted without a valid public URL) are skipped.
+ */
+async function createGeocoders(supabase: SupabaseClient, config: GeocoderConfig | null): Promise<Geocoder[]> {
+  const order = config?.order?.length ? config.order : DEFAULT_GEOCODER_CONFIG.order;
+  const geocoders: Geocoder[] = [];
+
+  for (const id of order) {
+    if (id === "nominatim") {
+      geocoders.push(createNominatimGeocoder(supabase, "nominatim", NOMINATIM_URL, NOMINATIM_RATE_LIMIT));
+    } else if (id === "photon") {
+      geocoders.push(createPhotonGeocoder(supabase));
+    } else if (id === "self-hosted") {
+      try {
+        if (!config?.selfHostedUrl || !isPublicHttpsUrl(config.selfHostedUrl)) {
+          throw new Error("Self-hosted geocoder requires a public HTTPS URL");
+        }
+        if (!(await resolvesToPublicAddresses(new URL(config.selfHostedUrl).hostname))) {
+          throw new Error("Self-hosted geocoder host does not resolve to public addresses");
+        }
+        // The empresa's own server has no shared usage policy to honor
+        geocoders.push(createNominatimGeocoder(supabase, "self-hosted", config.selfHostedUrl, null));
+      } catch (error) {
+        devLog.error("Skipping self-hosted geocoder:", error);
+      }
+    }
+  }
+
+  return geocoders.length > 0 ? geocoders : await createGeocoders(supabase, DEFAULT_GEOCODER_CONFIG);
+}
+
+/**
+ * Runs one search strategy against each geocoder in order, returning the first provider's matches.
+ * A busy or failing provider falls through to the next one; if all are busy, the busy error is rethrown.
+ */
+async function tryGeocoders(
+  geocoders: Geocoder[],
+  search: (geocoder: Geocoder) => Promise<Match[]>
+): Promise<{ matches: Match[]; provider: GeocodingSource } | null> {
+  let busy: unknown = null;
+  let answered = false;
+
+  for (const geocoder of geocoders) {
+    try {
+      const matches = await search(geocoder);
+      answered = true;
+      if (matches.length > 0) {
+        return { matches, provider: geocoder.id };
+      }
+    } catch (error) {
+      if (isBusyError(error)) {
+        devLog.log(`Geocoder ${geocoder.id} busy, trying next provider`);
+        busy = error;
+      } else {
+        devLog.error(`Geocoder ${geocoder.id} error:`, error);
+        answered = true;
+      }
+    }
+  }
+
+  if (!answered && busy) {
+    throw busy;
+  }
+  return null;
+}
+
+/**
+ * Drops matches that describe a place already listed: same display name,
+ * or close enough to an earlier match to be the same street.
+ */
+function distinctPlaces(matches: Match[]): Match[] {
+  const places: Match[] = [];
+  for (const match of matches) {
+    const samePlace = places.some((place) =>
+      (match.displayName && match.displayName === place.displayName) ||
+      calculateHaversineDistance(place.lat, place.lon, match.lat, match.lon) < SAME_PLACE_MAX_DISTANCE_KM
+    );
+    if (!samePlace) {
+      places.push(match);
+    }
+  }
+  return places;
+}
+
+/**
+ * Geocodes an address with the fallback strategies: structured street search,
+ * free-text search, the CEP, then the city alone.
+ */
+async function geocodeAddress(
+  supabase: SupabaseClient,
+  geocoders: Geocoder[],
+  request: SearchRequest
+): Promise<GeocodeResult | null> {
+  const { street, number, neighborhood, city, state, cep } = request;
+  let result: { matches: Match[]; provider: GeocodingSource } | null = null;
+  let searchUsed = "";
+  // Fallback precision when the provider does not report a place type
+  let defaultPrecision: GeocodingPrecision = "city";
+
+  // Strategy 1: Structured geocode with street
+  if (street) {
+    const streetQuery = number ? `${number} ${street}` : street;
+    result = await tryGeocoders(geocoders, (geocoder) => geocoder.structured({
+      street: streetQuery,
+      city,
+      state,
+      country: "Brasil",
+    }));
+    if (result) {
+      searchUsed = number ? "endereço completo" : "endereço sem número";
+      // A numbered search may still land on the street when the house is not mapped
+      defaultPrecision = number ? "rooftop" : "street";
+    }
+  }
+
+  // Strategy 2 (fallback): Free-text with full address
+  if (!result) {
+    const freeTextQuery = [street, number, neighborhood, city, state, "Brasil"].filter(Boolean).join(", ");
+    result = await tryGeocoders(geocoders, (geocoder) => geocoder.freeText(freeTextQuery, city, state));
+    if (result) {
+      searchUsed = "busca textual";
+      defaultPrecision = "neighborhood";
+    }
+  }
+
+  // Strategy 3 (fallback): CEP centroid. In large cities it is far closer than the city centre.
+  if (!result && cep) {
+    try {
+      const match = await geocodeCepWithBrasilApi(supabase, cep, city, state);
+      if (match) {
+        result = { matches: [match], provider: "brasilapi" };
+      }
+    } catch (error) {
+      devLog.error("BrasilAPI CEP geocoding error:", error);
+    }
+
+    if (!result) {
+      result = await tryGeocoders(
+        geocoders.filter((geocoder) => geocoder.postalCode),
+        (geocoder) => geocoder.postalCode!(cep, city, state)
+      );
+    }
+
+    if (result) {
+      searchUsed = "centro do CEP";
+      result.matches = result.matches.slice(0, 1).map((match) => ({ ...match, precision: "cep" }));
+    }
+  }
+
+  // Strategy 4 (last resort): Just city + state
+  if (!result) {
+    result = await tryGeocoders(geocoders, (geocoder) => geocoder.structured({
+      city,
+      state,
+      country: "Brasil",
+    }));
+    if (result) {
+      searchUsed = "apenas cidade";
+      // The city itself is never ambiguous; further matches are its boundary, districts, etc.
+      result.matches = result.matches.slice(0, 1).map((match) => ({ ...match, precision: "city" }));
+    }
+  }
+
+  if (!result) {
+    return null;
+  }
+
+  const candidates = distinctPlaces(result.matches).map((match): Candidate => ({
+    lat: match.lat,
+    lon: match.lon,
+    displayName: match.displayName,
+    precision: match.precision ?? defaultPrecision,
+  }));
+  const [best] = candidates;
+
+  return {
+    lat: best.lat,
+    lon: best.lon,
+    searchUsed,
+    provider: result.provider,
+    precision: best.precision,
+    candidates: candidates.length > 1 ? candidates : undefined,
+  };
+}
+
+/**
+ * Reads the cached result for the address, preferring the empresa's own entry
+ * over a shared one, and counts the lookup as a hit or a miss.
+ */
+async function lookupCache(supabase: SupabaseClient, empresaId: string, addressKey: string): Promise<GeocodeResult | null> {
+  const { data, error } = await supabase
+    .from("geocode_cache")
+    .select("id, empresa_id, latitude, longitude, search_used, provider, precision")
+    .eq("address_key", addressKey)
+    .or(`empresa_id.eq.${empresaId},empresa_id.is.null`)
+    .gt("expires_at", new Date().toISOString());
+
+  if (error) {
+    devLog.error("Error reading geocode cache:", error);
+    return null;
+  }
+
+  const entries = data ?? [];
+  const entry = entries.find((candidate) => candidate.empresa_id === empresaId) ?? entries[0] ?? null;
+
+  const { error: statsError } = await supabase.rpc("record_geocode_cache_lookup", {
+    p_empresa_id: empresaId,
+    p_cache_id: entry?.id ?? null,
+  });
+  if (statsError) {
+    devLog.error("Error recording cache lookup:", statsError);
+  }
+
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    lat: entry.latitude,
+    lon: entry.longitude,
+    searchUsed: entry.search_used,
+    provider: entry.provider as GeocodingSource,
+    precision: entry.precision as GeocodingPrecision,
+  };
+}
+
+/**
+ * Stores a fresh result. Live entries are never overwritten; errors are only logged.
+ */
+async function storeCache(supabase: SupabaseClient, empresaId: string, addressKey: string, result: GeocodeResult): Promise<void> {
+  const scope = SCOPED_PROVIDERS.includes(result.provider) ? empresaId : null;
+  const now = new Date();
+
+  // Expired entries stay until cleanup; drop this key's so the fresh result can take its place
+  let expiredQuery = supabase
+    .from("geocode_cache")
+    .delete()
+    .eq("address_key", addressKey)
+    .lt("expires_at", now.toISOString());
+  expiredQuery = scope ? expiredQuery.eq("empresa_id", scope) : expiredQuery.is("empresa_id", null);
+  await expiredQuery;
+
+  const { error } = await supabase
+    .from("geocode_cache")
+    .upsert(
+      {
+        empresa_id: scope,
+        address_key: addressKey,
+        latitude: result.lat,
+        longitude: result.lon,
+        search_used: result.searchUsed,
+        provider: result.provider,
+        precision: result.precision,
+        expires_at: new Date(now.getTime() + CACHE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      },
+      { onConflict: "empresa_id,address_key", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    devLog.error("Error storing geocode:", error);
+  }
+}
+
+function isValidField(value: unknown, required: boolean): value is string {
+  return typeof value === "string" && value.length <= MAX_FIELD_LENGTH && (!required || value.trim().length > 0);
+}
+
+function validateRequest(body: unknown): { valid: true; data: GeocodeRequest } | { valid: false; error: string } {
+  if (typeof body !== "object" || body === null) {
+    return { valid: false, error: "Corpo da requisição inválido" };
+  }
+
+  const request = body as Record<string, unknown>;
+  const { action, empresaId } = request;
+
+  if (typeof empresaId !== "string" || !UUID_PATTERN.test(empresaId.trim())) {
+    return { valid: false, error: "empresaId inválido" };
+  }
+
+  if (action === "search") {
+    const { street = "", number = "", neighborhood = "", city, state, cep = "" } = request;
+    if (!isValidField(city, true) || !isValidField(state, true)) {
+      return { valid: false, error: "Cidade e estado são obrigatórios" };
+    }
+    if (
+      !isValidField(street, false) || !isValidField(number, false) ||
+      !isValidField(neighborhood, false) || !isValidField(cep, false)
+    ) {
+      return { valid: false, error: "Endereço inválido" };
+    }
+    const cepDigits = cep.replace(/\D/g, "");
+    return {
+      valid: true,
+      data: {
+        action,
+        empresaId: empresaId.trim(),
+        street: street.trim(),
+        number: number.trim(),
+        neighborhood: neighborhood.trim(),
+        city: city.trim(),
+        state: state.trim(),
+        cep: cepDigits.length === 8 ? cepDigits : "",
+      },
+    };
+  }
+
+  if (action === "reverse") {
+    const { latitude, longitude } = request;
+    if (
+      typeof latitude !== "number" || typeof longitude !== "number" ||
+      isNaN(latitude) || isNaN(longitude) ||
+      latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180
+    ) {
+      return { valid: false, error: "Coordenadas fora do intervalo válido" };
+    }
+    return { valid: true, data: { action, empresaId: empresaId.trim(), latitude, longitude } };
+  }
+
+  return { valid: false, error: "Ação inválida" };
+}
+
+serve(async (req) => {
+  const origin = req.headers.get("Origin");
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only allow POST method
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ error: "Método não permitido" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ error: "JSON inválido" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const validation = validateRequest(body);
+    if (!validation.valid) {
+      return new Response(
+        JSON.stringify({ error: validation.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const request = validation.data;
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      devLog.error("Missing Supabase configuration");
+      return new Response(
+        JSON.stringify({ error: "Erro de configuração do servidor" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: empresa, error: empresaError } = await supabase
+      .from('empresas')
+      .select('id, geocoder_config')
+      .eq('id', request.empresaId)
+      .eq('is_active', true)
+      .single();
+
+    if (empresaError || !empresa) {
+      devLog.log(`Invalid empresa_id attempt: ${request.empresaId}`);
+      return new Response(
+        JSON.stringify({ error: "Empresa não autorizada" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Rate limit: 120 searches / 30 reverse lookups per empresa_id per 60 seconds
+    const rl = request.action === "search"
+      ? await checkRateLimit(supabase, request.empresaId, 'geocode-search', 120, 60)
+      : await checkRateLimit(supabase, request.empresaId, 'geocode-reverse', 30, 60);
+    if (!rl.allowed) {
+      return new Response(
+        JSON.stringify({ error: "Muitas requisições. Aguarde e tente novamente." }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(rl.retryAfterSeconds) },
+        }
+      );
+    }
+
+    const geocoders = await createGeocoders(supabase, empresa.geocoder_config as GeocoderConfig | null);
+
+    try {
+      if (request.action === "reverse") {
+        let address: ReverseAddress | null = null;
+        for (const geocoder of geocoders) {
+          if (!geocoder.reverse) continue;
+          address = await geocoder.reverse(request.latitude, request.longitude);
+          if (address) break;
+        }
+        // Photon-only configurations still reverse geocode through the public Nominatim
+        if (!address && !geocoders.some((geocoder) => geocoder.reverse)) {
+          address = await createNominatimGeocoder(supabase, "nominatim", NOMINATIM_URL, NOMINATIM_RATE_LIMIT)
+            .reverse!(request.latitude, request.longitude);
+        }
+
+        return new Response(
+          JSON.stringify({ address }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // The state is spelled out so "SP" and "São Paulo" share entries
+      const addressKey = buildAddressKey({
+        address: request.street,
+        number: request.number,
+        neighborhood: request.neighborhood,
+        city: request.city,
+        state: resolveStateName(request.state),
+        cep: request.cep,
+      });
+
+      const cached = await lookupCache(supabase, request.empresaId, addressKey);
+      if (cached) {
+        devLog.log("Cache hit for:", addressKey);
+        return new Response(
+          JSON.stringify({ result: cached }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const result = await geocodeAddress(supabase, geocoders, request);
+
+      // Ambiguous results depend on the user's pick, so only unambiguous ones are cached
+      if (result && !result.candidates) {
+        await storeCache(supabase, request.empresaId, addressKey, result);
+      }
+
+      return new Response(
+        JSON.stringify({ result }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } catch (error) {
+      if (!isBusyError(error)) throw error;
+      return new Response(
+        JSON.stringify({ error: (error as Error).message }),
+        { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": "5" } }
+      );
+    }
+  } catch (error) {
+    devLog.error("Error processing request:", error);
+    return new Response(
+      JSON.stringify({ error: "Erro interno do servidor" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,72 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-// Environment check - suppress verbose logs in production
-const isDev = Deno.env.get("DENO_ENV") === "development" || Deno.env.get("FUNCTIONS_ENV") === "development";
-
-// Development-only logging
-const devLog = {
-  error: (message: string, ...args: unknown[]) => {
-    if (isDev) console.error(message, ...args);
-  },
-  log: (message: string, ...args: unknown[]) => {
-    if (isDev) console.log(message, ...args);
-  },
-};
-
-/**
- * Database-based rate limiter.
- */
-// deno-lint-ignore no-explicit-any
-async function checkRateLimit(supabase: any, identifier: string, endpoint: string, maxAttempts: number, windowSeconds: number): Promise<{ allowed: boolean; retryAfterSeconds?: number }> {
-  const now = new Date();
-  const windowStart = new Date(now.getTime() - windowSeconds * 1000);
-  const { data: existing } = await supabase.from('rate_limits').select('attempt_count, window_start').eq('identifier', identifier).eq('endpoint', endpoint).single();
-  if (!existing) {
-    await supabase.from('rate_limits').upsert({ identifier, endpoint, attempt_count: 1, window_start: now.toISOString() });
-    return { allowed: true };
-  }
-  const entryWindowStart = new Date(existing.window_start);
-  if (entryWindowStart < windowStart) {
-    await supabase.from('rate_limits').upsert({ identifier, endpoint, attempt_count: 1, window_start: now.toISOString() });
-    return { allowed: true };
-  }
-  if (existing.attempt_count >= maxAttempts) {
-    const retryAfterSeconds = Math.ceil((entryWindowStart.getTime() + windowSeconds * 1000 - now.getTime()) / 1000);
-    return { allowed: false, retryAfterSeconds: Math.max(retryAfterSeconds, 1) };
-  }
-  await supabase.from('rate_limits').update({ attempt_count: existing.attempt_count + 1 }).eq('identifier', identifier).eq('endpoint', endpoint);
-  return { allowed: true };
-}
-
-// CORS configuration - allowlist for production and preview domains
-const ALLOWED_ORIGINS = [
-  'https://localiza-i.lovable.app',
-  'http://localhost:5173',
-  'http://localhost:8080',
-];
-
-// Pattern for Lovable preview domains
-const LOVABLE_PREVIEW_PATTERN = /^https:\/\/[a-z0-9-]+\.lovableproject\.com$/;
-const LOVABLE_PREVIEW_ID_PATTERN = /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/;
-
-function isAllowedOrigin(origin: string | null): boolean {
-  if (!origin) return false;
-  if (ALLOWED_ORIGINS.includes(origin)) return true;
-  if (LOVABLE_PREVIEW_PATTERN.test(origin)) return true;
-  if (LOVABLE_PREVIEW_ID_PATTERN.test(origin)) return true;
-  return false;
-}
-
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigin = isAllowedOrigin(origin) ? origin : '';
-  
-  return {
-    "Access-Control-Allow-Origin": allowedOrigin || '',
-    "Access-Control-Allow-Headers":
-      "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
-  };
-}
+import { devLog } from "../_shared/logger.ts";
+import { getCorsHeaders } from "../_shared/cors.ts";
+import { checkRateLimit } from "../_shared/rateLimit.ts";
 
 // CEP validation regex - exactly 8 digits
 const CEP_REGEX = /^[0-9]{8}$/;
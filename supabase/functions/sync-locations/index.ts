@@ -0,0 +1,798 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { devLog } from '../_shared/logger.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { verifyAdminSecret } from '../_shared/auth.ts';
+import { parseCSV } from '../_shared/csv.ts';
+import { buildAddressKey } from '../_shared/addressKey.ts';
+import { LOCATION_FIELD_ALIASES, type LocationField } from '../_shared/locationFields.ts';
+import { parseServices, type ServiceVocabulary } from '../_shared/services.ts';
+
+interface GeocodeInput {
+  address_key: string;
+  latitude: number;
+  longitude: number;
+  search_used: string;
+  provider?: string;
+}
+
+interface SheetTab {
+  gid: string;
+  name: string;
+}
+
+interface SyncRequest {
+  action: 'sync' | 'list-geocodes' | 'save-geocodes' | 'list-tabs' | 'list-networks' | 'list-locations';
+  empresa_id?: string;
+  admin_secret?: string;
+  geocodes?: GeocodeInput[];
+  google_sheets_url?: string;
+  /** list-locations: tabs (gids) to list; omit for every tab */
+  gids?: string[];
+}
+
+/** One synced tab of the workbook, as shown in the search page's network selector */
+interface NetworkSummary {
+  gid: string;
+  /** Tab name from the empresa's sheet_tabs, or '' for the default tab */
+  name: string;
+  count: number;
+  /** Vocabulary ids of the services at least one provider offers */
+  services: string[];
+  has_opening_hours: boolean;
+}
+
+interface LocationRow {
+  source_key: string;
+  /** Workbook tab (network), used by calculate-routes to search one network */
+  gid: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  cep: string | null;
+  address: string | null;
+  number: string | null;
+  neighborhood: string | null;
+  city: string | null;
+  state: string | null;
+  services: string | null;
+  opening_hours: string | null;
+  phone: string | null;
+  whatsapp: string | null;
+  email: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_STRING_LENGTH = 200;
+const MAX_GEOCODES_PER_REQUEST = 1000;
+const MAX_ADDRESS_KEY_LENGTH = 1300;
+// Same ids as GeocodingSource in src/lib/geocoding.ts
+const GEOCODING_SOURCES = ['nominatim', 'photon', 'self-hosted', 'brasilapi'];
+// Google Sheets tab ids, as accepted by calculate-routes
+const GID_PATTERN = /^\d{1,12}$/;
+const MAX_GIDS = 50;
+// PostgREST caps how many rows one request returns
+const LOCATIONS_PAGE_SIZE = 1000;
+
+function extractSpreadsheetId(url: string): string | null {
+  const match = url.match(/\/spreadsheets\/d\/e\/([a-zA-Z0-9-_]+)/) ||
+    url.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/) ||
+    url.match(/key=([a-zA-Z0-9-_]+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Builds the CSV export URL of one tab of a Google Sheets link (see src/lib/googleSheets.ts).
+ */
+function extractGoogleSheetsCsvUrl(url: string, gid: string): string | null {
+  if (url.includes('output=csv')) {
+    try {
+      const csvUrl = new URL(url);
+      csvUrl.searchParams.set('gid', gid);
+      return csvUrl.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  const spreadsheetId = extractSpreadsheetId(url);
+  if (!spreadsheetId) return null;
+
+  if (spreadsheetId.startsWith('2PACX')) {
+    return `https://docs.google.com/spreadsheets/d/e/${spreadsheetId}/pub?gid=${gid}&single=true&output=csv`;
+  }
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv&gid=${gid}`;
+}
+
+/**
+ * Builds the HTML view of a workbook, which lists its tabs.
+ */
+function extractGoogleSheetsHtmlUrl(url: string): string | null {
+  const spreadsheetId = extractSpreadsheetId(url);
+  if (!spreadsheetId) return null;
+
+  if (spreadsheetId.startsWith('2PACX')) {
+    return `https://docs.google.com/spreadsheets/d/e/${spreadsheetId}/pubhtml`;
+  }
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/htmlview`;
+}
+
+function isGoogleSheetsUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && parsed.hostname === 'docs.google.com';
+  } catch {
+    return false;
+  }
+}
+
+function decodeHtmlEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads the tab list from a workbook's HTML view.
+ * The tab bar renders one "sheet-button-<gid>" item per tab; workbooks with a
+ * single tab have no tab bar and yield an empty list.
+ */
+function parseSheetTabs(html: string): SheetTab[] {
+  const tabs: SheetTab[] = [];
+  const seen = new Set<string>();
+  const buttonPattern = /id="sheet-button-(\d+)"[^>]*>\s*(?:<a[^>]*>)?([^<]*)</g;
+
+  for (const match of html.matchAll(buttonPattern)) {
+    const gid = match[1];
+    const name = decodeHtmlEntities(match[2]).trim();
+    if (seen.has(gid) || !name) continue;
+    seen.add(gid);
+    tabs.push({ gid, name: name.slice(0, MAX_STRING_LENGTH) });
+  }
+
+  return tabs;
+}
+
+const DEFAULT_SHEET_TAB: SheetTab = { gid: '0', name: '' };
+
+function normalize(value: string): string {
+  return value.toLowerCase().trim().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function isValidGeocode(value: unknown): value is GeocodeInput {
+  if (!value || typeof value !== 'object') return false;
+  const geocode = value as Record<string, unknown>;
+  return typeof geocode.address_key === 'string' &&
+    geocode.address_key.length > 0 &&
+    geocode.address_key.length <= MAX_ADDRESS_KEY_LENGTH &&
+    typeof geocode.latitude === 'number' && geocode.latitude >= -90 && geocode.latitude <= 90 &&
+    typeof geocode.longitude === 'number' && geocode.longitude >= -180 && geocode.longitude <= 180 &&
+    typeof geocode.search_used === 'string' &&
+    geocode.search_used.length > 0 &&
+    geocode.search_used.length <= 50 &&
+    (geocode.provider === undefined || (typeof geocode.provider === 'string' && GEOCODING_SOURCES.includes(geocode.provider)));
+}
+
+function parseCoordinate(value: string): number {
+  const raw = value.trim().replace(/["']/g, '');
+  if (!raw) return NaN;
+  const normalized = /,\d+$/.test(raw) ? raw.replace(/\./g, '').replace(',', '.') : raw.replace(',', '.');
+  return parseFloat(normalized);
+}
+
+function resolveColumnIndex(headers: string[], field: LocationField, columnMapping: Record<string, string> | null): number {
+  const normalizedHeaders = headers.map(normalize);
+  const mappedHeader = columnMapping?.[field];
+  if (mappedHeader) {
+    const index = normalizedHeaders.indexOf(normalize(mappedHeader));
+    if (index !== -1) return index;
+  }
+  for (const alias of LOCATION_FIELD_ALIASES[field]) {
+    const index = normalizedHeaders.indexOf(normalize(alias));
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+/**
+ * Parses sheet rows (A1 holds the sheet name, headers are on line 2) into location rows.
+ * Mirrors the client-side parseRows: inactive rows are skipped, invalid ones are counted,
+ * and rows without coordinates use the geocode accepted for their address.
+ */
+function parseLocationRows(
+  rows: string[][],
+  columnMapping: Record<string, string> | null,
+  geocodes: Map<string, { latitude: number; longitude: number }>,
+  gid: string
+): { locations: LocationRow[]; skipped: number } | { error: string } {
+  const headerRowIndex = 1;
+  const headers = rows[headerRowIndex] ?? [];
+
+  const columns = {} as Record<LocationField, number>;
+  for (const field of Object.keys(LOCATION_FIELD_ALIASES) as LocationField[]) {
+    columns[field] = resolveColumnIndex(headers, field, columnMapping);
+  }
+
+  if (columns.name === -1 || columns.latitude === -1 || columns.longitude === -1) {
+    return { error: 'Colunas obrigatórias não encontradas. A planilha deve conter: Nome do local, Latitude, Longitude.' };
+  }
+
+  const fullCell = (row: string[], field: LocationField): string | null => {
+    const index = columns[field];
+    if (index === -1) return null;
+    return (row[index] ?? '').trim() || null;
+  };
+  // Stored values are capped; the address key is built from the full cells, like the app does
+  const cell = (row: string[], field: LocationField): string | null =>
+    fullCell(row, field)?.slice(0, MAX_STRING_LENGTH) ?? null;
+
+  const locations: LocationRow[] = [];
+  let skipped = 0;
+
+  for (let i = headerRowIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+
+    if (columns.status !== -1 && normalize(row[columns.status] ?? '') !== 'ativo') {
+      continue;
+    }
+
+    const name = cell(row, 'name');
+    const latValue = row[columns.latitude] ?? '';
+    const lonValue = row[columns.longitude] ?? '';
+    let latitude = parseCoordinate(latValue);
+    let longitude = parseCoordinate(lonValue);
+
+    if (!latValue.trim() && !lonValue.trim()) {
+      const accepted = geocodes.get(buildAddressKey({
+        address: fullCell(row, 'address'),
+        number: fullCell(row, 'number'),
+        neighborhood: fullCell(row, 'neighborhood'),
+        city: fullCell(row, 'city'),
+        state: fullCell(row, 'state'),
+        cep: fullCell(row, 'cep'),
+      }));
+      if (accepted) {
+        latitude = accepted.latitude;
+        longitude = accepted.longitude;
+      }
+    }
+
+    if (!name || isNaN(latitude) || isNaN(longitude) ||
+        latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+      skipped++;
+      continue;
+    }
+
+    locations.push({
+      // Tab gid and line number as shown in the spreadsheet app
+      source_key: `${gid}:${i + 1}`,
+      gid,
+      name,
+      latitude,
+      longitude,
+      cep: cell(row, 'cep'),
+      address: cell(row, 'address'),
+      number: cell(row, 'number'),
+      neighborhood: cell(row, 'neighborhood'),
+      city: cell(row, 'city'),
+      state: cell(row, 'state'),
+      services: cell(row, 'services'),
+      // Stored as written; clients parse and validate the schedule (src/lib/openingHours.ts)
+      opening_hours: cell(row, 'openingHours'),
+      // Contacts are normalized by clients as well (src/lib/contacts.ts)
+      phone: cell(row, 'phone'),
+      whatsapp: cell(row, 'whatsapp'),
+      email: cell(row, 'email'),
+    });
+  }
+
+  return { locations, skipped };
+}
+
+/**
+ * Reads every synced location of an empresa, a page at a time, optionally limited to some tabs.
+ * Returns null when the table cannot be read.
+ */
+async function selectAllLocations<T>(
+  supabase: SupabaseClient,
+  empresaId: string,
+  columns: string,
+  gids?: string[]
+): Promise<T[] | null> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += LOCATIONS_PAGE_SIZE) {
+    let query = supabase
+      .from('locations')
+      .select(columns)
+      .eq('empresa_id', empresaId);
+    if (gids) {
+      query = query.in('gid', gids);
+    }
+
+    const { data, error } = await query
+      .order('source_key')
+      .range(from, from + LOCATIONS_PAGE_SIZE - 1);
+    if (error) {
+      devLog.error('Error reading locations:', error);
+      return null;
+    }
+    rows.push(...(data as T[]));
+    if (data.length < LOCATIONS_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Summarizes the synced locations per tab: how many there are, which services they offer
+ * and whether any has opening hours, so the search form needs no copy of the sheet.
+ */
+function summarizeNetworks(
+  locations: { gid: string | null; services: string | null; opening_hours: string | null }[],
+  tabs: SheetTab[],
+  vocabulary: ServiceVocabulary | null
+): NetworkSummary[] {
+  const networks = new Map<string, NetworkSummary>();
+
+  for (const location of locations) {
+    const gid = location.gid ?? DEFAULT_SHEET_TAB.gid;
+    let network = networks.get(gid);
+    if (!network) {
+      network = {
+        gid,
+        name: tabs.find(tab => tab.gid === gid)?.name ?? '',
+        count: 0,
+        services: [],
+        has_opening_hours: false,
+      };
+      networks.set(gid, network);
+    }
+
+    network.count++;
+    network.has_opening_hours ||= !!location.opening_hours;
+    for (const id of parseServices(location.services ?? undefined, vocabulary).ids) {
+      if (!network.services.includes(id)) network.services.push(id);
+    }
+  }
+
+  // In the order the admin selected the tabs
+  const tabOrder = (gid: string) => {
+    const index = tabs.findIndex(tab => tab.gid === gid);
+    return index === -1 ? tabs.length : index;
+  };
+  return [...networks.values()].sort((a, b) => tabOrder(a.gid) - tabOrder(b.gid));
+}
+
+Deno.serve(async (req) => {
+  const origin = req.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const body: SyncRequest = await req.json();
+    const { action } = body;
+
+    // Action: Import the empresa's sheet into the locations table
+    if (action === 'sync') {
+      const { empresa_id, admin_secret } = body;
+
+      if (!empresa_id || !admin_secret) {
+        return new Response(
+          JSON.stringify({ error: 'empresa_id and admin_secret are required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Rate limit: 5 syncs per empresa_id per 60 seconds
+      const rl = await checkRateLimit(supabase, empresa_id, 'sync-locations', 5, 60);
+      if (!rl.allowed) {
+        return new Response(
+          JSON.stringify({ error: 'Muitas tentativas. Aguarde e tente novamente.' }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(rl.retryAfterSeconds) },
+          }
+        );
+      }
+
+      const isAuthorized = await verifyAdminSecret(supabase, empresa_id, admin_secret);
+      if (!isAuthorized) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: empresa, error: empresaError } = await supabase
+        .from('empresas')
+        .select('google_sheets_url, column_mapping, sheet_tabs')
+        .eq('id', empresa_id)
+        .single();
+
+      if (empresaError || !empresa?.google_sheets_url) {
+        return new Response(
+          JSON.stringify({ error: 'Nenhuma planilha configurada.' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: geocodeRows, error: geocodesError } = await supabase
+        .from('location_geocodes')
+        .select('address_key, latitude, longitude')
+        .eq('empresa_id', empresa_id);
+
+      if (geocodesError) {
+        devLog.error('Error loading geocodes:', geocodesError);
+      }
+
+      const geocodes = new Map<string, { latitude: number; longitude: number }>();
+      for (const geocode of geocodeRows ?? []) {
+        geocodes.set(geocode.address_key, { latitude: geocode.latitude, longitude: geocode.longitude });
+      }
+
+      // Each selected tab is a separate network; all of them are stored together
+      const tabs: SheetTab[] = Array.isArray(empresa.sheet_tabs) && empresa.sheet_tabs.length > 0
+        ? empresa.sheet_tabs
+        : [DEFAULT_SHEET_TAB];
+      const parsed: { locations: LocationRow[]; skipped: number } = { locations: [], skipped: 0 };
+
+      for (const tab of tabs) {
+        const tabLabel = tab.name ? ` (aba "${tab.name}")` : '';
+        const csvUrl = extractGoogleSheetsCsvUrl(empresa.google_sheets_url, tab.gid);
+        if (!csvUrl || new URL(csvUrl).hostname !== 'docs.google.com') {
+          return new Response(
+            JSON.stringify({ error: 'URL da planilha não é permitida.' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const response = await fetch(csvUrl);
+        const csvText = response.ok ? await response.text() : '';
+        if (!response.ok || csvText.includes('<!DOCTYPE html>') || csvText.includes('<html')) {
+          devLog.error(`Sheet fetch failed for gid ${tab.gid}: ${response.status}`);
+          return new Response(
+            JSON.stringify({ error: `Não foi possível acessar a planilha${tabLabel}. Verifique se ela está publicada como CSV.` }),
+            { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const tabParsed = parseLocationRows(parseCSV(csvText, { delimiter: ',' }), empresa.column_mapping, geocodes, tab.gid);
+        if ('error' in tabParsed) {
+          return new Response(
+            JSON.stringify({ error: `${tabParsed.error}${tabLabel}` }),
+            { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        parsed.locations.push(...tabParsed.locations);
+        parsed.skipped += tabParsed.skipped;
+      }
+
+      if (parsed.locations.length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'Nenhum local válido encontrado na planilha.' }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: imported, error: replaceError } = await supabase.rpc('replace_empresa_locations', {
+        p_empresa_id: empresa_id,
+        p_locations: parsed.locations,
+      });
+
+      if (replaceError) {
+        devLog.error('Error replacing locations:', replaceError);
+        return new Response(
+          JSON.stringify({ error: 'Failed to store locations' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      devLog.log(`Synced ${imported} locations for empresa ${empresa_id} (${parsed.skipped} skipped)`);
+
+      return new Response(
+        JSON.stringify({ success: true, imported, skipped: parsed.skipped }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Action: List the tabs of a workbook so the admin can pick the networks to import
+    if (action === 'list-tabs') {
+      const { empresa_id, admin_secret, google_sheets_url } = body;
+
+      if (!empresa_id || !admin_secret || !google_sheets_url) {
+        return new Response(
+          JSON.stringify({ error: 'empresa_id, admin_secret and google_sheets_url are required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Rate limit: 10 listings per empresa_id per 60 seconds
+      const rl = await checkRateLimit(supabase, empresa_id, 'list-tabs', 10, 60);
+      if (!rl.allowed) {
+        return new Response(
+          JSON.stringify({ error: 'Muitas tentativas. Aguarde e tente novamente.' }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(rl.retryAfterSeconds) },
+          }
+        );
+      }
+
+      const isAuthorized = await verifyAdminSecret(supabase, empresa_id, admin_secret);
+      if (!isAuthorized) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const htmlUrl = extractGoogleSheetsHtmlUrl(google_sheets_url);
+      if (!htmlUrl || !isGoogleSheetsUrl(google_sheets_url)) {
+        return new Response(
+          JSON.stringify({ error: 'URL da planilha não é permitida.' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const response = await fetch(htmlUrl);
+      if (!response.ok) {
+        devLog.error(`Workbook fetch failed: ${response.status}`);
+        return new Response(
+          JSON.stringify({ error: 'Não foi possível acessar a planilha. Verifique se ela está publicada na web.' }),
+          { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const tabs = parseSheetTabs(await response.text());
+
+      return new Response(
+        JSON.stringify({ success: true, tabs }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Action: List coordinates accepted for address-only rows (read by every user's sheet parser)
+    if (action === 'list-geocodes') {
+      const { empresa_id } = body;
+
+      if (!empresa_id || !UUID_PATTERN.test(empresa_id)) {
+        return new Response(
+          JSON.stringify({ error: 'A valid empresa_id is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Rate limit: 60 listings per empresa_id per 60 seconds (one per sheet load)
+      const rl = await checkRateLimit(supabase, empresa_id, 'list-geocodes', 60, 60);
+      if (!rl.allowed) {
+        return new Response(
+          JSON.stringify({ error: 'Muitas tentativas. Aguarde e tente novamente.' }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(rl.retryAfterSeconds) },
+          }
+        );
+      }
+
+      // No admin secret here, since every user's sheet parser reads the list; the empresa must be active
+      const { data: empresa } = await supabase
+        .from('empresas')
+        .select('id')
+        .eq('id', empresa_id)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (!empresa) {
+        return new Response(
+          JSON.stringify({ error: 'Empresa não autorizada' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data, error } = await supabase
+        .from('location_geocodes')
+        .select('address_key, latitude, longitude, search_used, provider')
+        .eq('empresa_id', empresa_id);
+
+      if (error) {
+        devLog.error('Error listing geocodes:', error);
+        return new Response(
+          JSON.stringify({ error: 'Failed to list geocodes' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, geocodes: data ?? [] }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Action: Summarize the synced network for the search page (networks, services, opening hours)
+    // and list its providers for the download; no admin secret, like list-geocodes
+    if (action === 'list-networks' || action === 'list-locations') {
+      const { empresa_id, gids } = body;
+
+      if (!empresa_id || !UUID_PATTERN.test(empresa_id)) {
+        return new Response(
+          JSON.stringify({ error: 'A valid empresa_id is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (gids !== undefined && !(Array.isArray(gids) && gids.length > 0 && gids.length <= MAX_GIDS &&
+          gids.every(gid => typeof gid === 'string' && GID_PATTERN.test(gid)))) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid gids' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Rate limit: 60 listings per empresa_id per 60 seconds (one per search page load or download)
+      const rl = await checkRateLimit(supabase, empresa_id, action, 60, 60);
+      if (!rl.allowed) {
+        return new Response(
+          JSON.stringify({ error: 'Muitas tentativas. Aguarde e tente novamente.' }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(rl.retryAfterSeconds) },
+          }
+        );
+      }
+
+      const { data: empresa } = await supabase
+        .from('empresas')
+        .select('sheet_tabs, service_vocabulary, locations_synced_at')
+        .eq('id', empresa_id)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (!empresa) {
+        return new Response(
+          JSON.stringify({ error: 'Empresa não autorizada' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (action === 'list-networks') {
+        const locations = await selectAllLocations<{ gid: string | null; services: string | null; opening_hours: string | null }>(
+          supabase,
+          empresa_id,
+          'gid, services, opening_hours'
+        );
+        if (!locations) {
+          return new Response(
+            JSON.stringify({ error: 'Failed to list networks' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const tabs: SheetTab[] = Array.isArray(empresa.sheet_tabs) ? empresa.sheet_tabs : [];
+        return new Response(
+          JSON.stringify({
+            success: true,
+            synced_at: empresa.locations_synced_at,
+            networks: summarizeNetworks(locations, tabs, empresa.service_vocabulary as ServiceVocabulary | null),
+          }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const locations = await selectAllLocations(
+        supabase,
+        empresa_id,
+        'gid, name, cep, address, number, neighborhood, city, state',
+        gids
+      );
+      if (!locations) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to list locations' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, locations }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Action: Store coordinates reviewed and accepted by an admin
+    if (action === 'save-geocodes') {
+      const { empresa_id, admin_secret, geocodes } = body;
+
+      if (!empresa_id || !admin_secret) {
+        return new Response(
+          JSON.stringify({ error: 'empresa_id and admin_secret are required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!Array.isArray(geocodes) || geocodes.length === 0 ||
+          geocodes.length > MAX_GEOCODES_PER_REQUEST || !geocodes.every(isValidGeocode)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid geocodes' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Rate limit: 10 saves per empresa_id per 60 seconds
+      const rl = await checkRateLimit(supabase, empresa_id, 'save-geocodes', 10, 60);
+      if (!rl.allowed) {
+        return new Response(
+          JSON.stringify({ error: 'Muitas tentativas. Aguarde e tente novamente.' }),
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(rl.retryAfterSeconds) },
+          }
+        );
+      }
+
+      const isAuthorized = await verifyAdminSecret(supabase, empresa_id, admin_secret);
+      if (!isAuthorized) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const acceptedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('location_geocodes')
+        .upsert(
+          geocodes.map(geocode => ({
+            empresa_id,
+            address_key: geocode.address_key,
+            latitude: geocode.latitude,
+            longitude: geocode.longitude,
+            search_used: geocode.search_used,
+            provider: geocode.provider ?? null,
+            accepted_at: acceptedAt,
+          })),
+          { onConflict: 'empresa_id,address_key' }
+        );
+
+      if (error) {
+        devLog.error('Error saving geocodes:', error);
+        return new Response(
+          JSON.stringify({ error: 'Failed to save geocodes' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, saved: geocodes.length }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: 'Invalid action' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    devLog.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
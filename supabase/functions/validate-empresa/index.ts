@@ -1,32 +1,9 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import * as bcrypt from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
-
-// CORS configuration - allowlist for production and preview domains
-const ALLOWED_ORIGINS = [
-  'https://localiza-i.lovable.app',
-  'http://localhost:5173',
-  'http://localhost:8080',
-];
-
-const LOVABLE_PREVIEW_PATTERN = /^https:\/\/[a-z0-9-]+\.lovableproject\.com$/;
-const LOVABLE_PREVIEW_ID_PATTERN = /^https:\/\/id-preview--[a-z0-9-]+\.lovable\.app$/;
-
-function isAllowedOrigin(origin: string | null): boolean {
-  if (!origin) return false;
-  if (ALLOWED_ORIGINS.includes(origin)) return true;
-  if (LOVABLE_PREVIEW_PATTERN.test(origin)) return true;
-  if (LOVABLE_PREVIEW_ID_PATTERN.test(origin)) return true;
-  return false;
-}
-
-function getCorsHeaders(origin: string | null): Record<string, string> {
-  const allowedOrigin = isAllowedOrigin(origin) ? origin : '';
-  return {
-    'Access-Control-Allow-Origin': allowedOrigin || '',
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  };
-}
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { checkRateLimit } from '../_shared/rateLimit.ts';
+import { verifyAdminSecret } from '../_shared/auth.ts';
+import { isValidSearchSettings, type SearchSettings } from '../_shared/searchSettings.ts';
+import { isPublicHttpsUrl } from '../_shared/publicUrl.ts';
 
 interface ValidateRequest {
   action: 'validate' | 'admin-validate' | 'update-settings';
@@ -34,97 +11,131 @@ interface ValidateRequest {
   empresa_id?: string;
   admin_secret?: string;
   google_sheets_url?: string;
+  column_mapping?: Record<string, string> | null;
+  sheet_tabs?: { gid: string; name: string }[] | null;
+  service_vocabulary?: { id: string; label: string; synonyms: string[] }[] | null;
+  geocoder_config?: { order: string[]; selfHostedUrl?: string } | null;
+  search_settings?: SearchSettings | null;
+  routing_config?: { order: string[] } | null;
 }
 
+const COLUMN_MAPPING_FIELDS = [
+  'name', 'latitude', 'longitude', 'cep', 'address', 'number',
+  'neighborhood', 'city', 'state', 'status', 'services', 'openingHours',
+  'phone', 'whatsapp', 'email',
+];
+const MAX_HEADER_LENGTH = 200;
+
 /**
- * Database-based rate limiter using the rate_limits table.
- * Uses service_role to bypass RLS.
+ * Validates a column mapping sent by the admin page.
+ * Only known fields with non-empty string headers are accepted.
  */
-async function checkRateLimit(
-  // deno-lint-ignore no-explicit-any
-  supabase: any,
-  identifier: string,
-  endpoint: string,
-  maxAttempts: number,
-  windowSeconds: number
-): Promise<{ allowed: boolean; retryAfterSeconds?: number }> {
-  const now = new Date();
-  const windowStart = new Date(now.getTime() - windowSeconds * 1000);
-
-  // Try to get existing rate limit entry
-  const { data: existing } = await supabase
-    .from('rate_limits')
-    .select('attempt_count, window_start')
-    .eq('identifier', identifier)
-    .eq('endpoint', endpoint)
-    .single();
-
-  if (!existing) {
-    // No entry — create one
-    await supabase.from('rate_limits').upsert({
-      identifier,
-      endpoint,
-      attempt_count: 1,
-      window_start: now.toISOString(),
-    });
-    return { allowed: true };
-  }
+function isValidColumnMapping(value: unknown): value is Record<string, string> | null {
+  if (value === null) return true;
+  if (typeof value !== 'object' || Array.isArray(value)) return false;
+
+  return Object.entries(value as Record<string, unknown>).every(([field, header]) =>
+    COLUMN_MAPPING_FIELDS.includes(field) &&
+    typeof header === 'string' &&
+    header.trim().length > 0 &&
+    header.length <= MAX_HEADER_LENGTH
+  );
+}
 
-  const entryWindowStart = new Date(existing.window_start);
-
-  // Window expired — reset
-  if (entryWindowStart < windowStart) {
-    await supabase.from('rate_limits').upsert({
-      identifier,
-      endpoint,
-      attempt_count: 1,
-      window_start: now.toISOString(),
-    });
-    return { allowed: true };
-  }
+const MAX_SHEET_TABS = 50;
 
-  // Within window — check count
-  if (existing.attempt_count >= maxAttempts) {
-    const retryAfterSeconds = Math.ceil(
-      (entryWindowStart.getTime() + windowSeconds * 1000 - now.getTime()) / 1000
-    );
-    return { allowed: false, retryAfterSeconds: Math.max(retryAfterSeconds, 1) };
-  }
+/**
+ * Validates the workbook tabs selected on the admin page.
+ * Each tab needs a numeric gid and a display name.
+ */
+function isValidSheetTabs(value: unknown): value is { gid: string; name: string }[] | null {
+  if (value === null) return true;
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_SHEET_TABS) return false;
+
+  return value.every((tab) =>
+    tab !== null &&
+    typeof tab === 'object' &&
+    typeof tab.gid === 'string' &&
+    /^\d{1,12}$/.test(tab.gid) &&
+    typeof tab.name === 'string' &&
+    tab.name.length <= MAX_HEADER_LENGTH
+  );
+}
 
-  // Increment
-  await supabase
-    .from('rate_limits')
-    .update({ attempt_count: existing.attempt_count + 1 })
-    .eq('identifier', identifier)
-    .eq('endpoint', endpoint);
+const MAX_SERVICES = 100;
+const MAX_SYNONYMS_PER_SERVICE = 30;
+const MAX_SERVICE_TEXT_LENGTH = 100;
 
-  return { allowed: true };
+/**
+ * Validates the services vocabulary edited on the admin page.
+ * Ids are slugs derived from the labels (see src/lib/services.ts).
+ */
+function isValidServiceVocabulary(value: unknown): value is { id: string; label: string; synonyms: string[] }[] | null {
+  if (value === null) return true;
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_SERVICES) return false;
+
+  return value.every((service) =>
+    service !== null &&
+    typeof service === 'object' &&
+    typeof service.id === 'string' &&
+    /^[a-z0-9]+(-[a-z0-9]+)*$/.test(service.id) &&
+    service.id.length <= MAX_SERVICE_TEXT_LENGTH &&
+    typeof service.label === 'string' &&
+    service.label.trim().length > 0 &&
+    service.label.length <= MAX_SERVICE_TEXT_LENGTH &&
+    Array.isArray(service.synonyms) &&
+    service.synonyms.length <= MAX_SYNONYMS_PER_SERVICE &&
+    service.synonyms.every((synonym: unknown) =>
+      typeof synonym === 'string' && synonym.length > 0 && synonym.length <= MAX_SERVICE_TEXT_LENGTH
+    )
+  );
 }
 
+// Same ids as GeocoderId in src/lib/geocoding.ts
+const GEOCODER_IDS = ['nominatim', 'photon', 'self-hosted'];
+const MAX_GEOCODER_URL_LENGTH = 500;
+
 /**
- * Securely verify admin secret against stored bcrypt hash.
+ * Validates the geocoder order chosen on the admin page.
+ * A self-hosted geocoder needs a public HTTPS base URL.
  */
-async function verifyAdminSecret(
-  // deno-lint-ignore no-explicit-any
-  supabase: any,
-  empresaId: string,
-  adminSecret: string
-): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('empresas')
-    .select('admin_secret_hash')
-    .eq('id', empresaId)
-    .single();
-
-  if (error || !data?.admin_secret_hash) {
+function isValidGeocoderConfig(value: unknown): value is { order: string[]; selfHostedUrl?: string } | null {
+  if (value === null) return true;
+  if (typeof value !== 'object' || Array.isArray(value)) return false;
+
+  const config = value as Record<string, unknown>;
+  const order = config.order;
+  if (!Array.isArray(order) || order.length === 0 || order.length > GEOCODER_IDS.length ||
+      new Set(order).size !== order.length ||
+      !order.every((id) => typeof id === 'string' && GEOCODER_IDS.includes(id))) {
     return false;
   }
 
-  try {
-    return bcrypt.compareSync(adminSecret, data.admin_secret_hash as string);
-  } catch {
-    return false;
+  if (config.selfHostedUrl === undefined) {
+    return !order.includes('self-hosted');
   }
+  return typeof config.selfHostedUrl === 'string' &&
+    config.selfHostedUrl.length <= MAX_GEOCODER_URL_LENGTH &&
+    isPublicHttpsUrl(config.selfHostedUrl);
+}
+
+// Same ids as RouterId in src/lib/routing.ts
+const ROUTER_IDS = ['ors', 'osrm', 'valhalla'];
+
+/**
+ * Validates the routing service order chosen on the admin page.
+ * Server URLs and keys are edge function secrets, so only the order is accepted.
+ */
+function isValidRoutingConfig(value: unknown): value is { order: string[] } | null {
+  if (value === null) return true;
+  if (typeof value !== 'object' || Array.isArray(value)) return false;
+
+  const config = value as Record<string, unknown>;
+  const order = config.order;
+  return Object.keys(config).length === 1 &&
+    Array.isArray(order) && order.length > 0 && order.length <= ROUTER_IDS.length &&
+    new Set(order).size === order.length &&
+    order.every((id) => typeof id === 'string' && ROUTER_IDS.includes(id));
 }
 
 Deno.serve(async (req) => {
@@ -177,7 +188,7 @@ Deno.serve(async (req) => {
 
       const { data, error } = await supabase
         .from('empresas')
-        .select('id, nome, access_key, google_sheets_url, is_active')
+        .select('id, nome, access_key, google_sheets_url, column_mapping, sheet_tabs, service_vocabulary, geocoder_config, search_settings, routing_config, locations_synced_at, is_active')
         .eq('access_key', access_key)
         .eq('is_active', true)
         .single();
@@ -197,6 +208,13 @@ Deno.serve(async (req) => {
             nome: data.nome,
             access_key: data.access_key,
             google_sheets_url: data.google_sheets_url,
+            column_mapping: data.column_mapping,
+            sheet_tabs: data.sheet_tabs,
+            service_vocabulary: data.service_vocabulary,
+            geocoder_config: data.geocoder_config,
+            search_settings: data.search_settings,
+            routing_config: data.routing_config,
+            locations_synced_at: data.locations_synced_at,
             is_active: data.is_active,
           }
         }),
@@ -244,7 +262,7 @@ Deno.serve(async (req) => {
 
     // Action: Update settings
     if (action === 'update-settings') {
-      const { empresa_id, admin_secret, google_sheets_url } = body;
+      const { empresa_id, admin_secret, google_sheets_url, column_mapping, sheet_tabs, service_vocabulary, geocoder_config, search_settings, routing_config } = body;
 
       if (!empresa_id || !admin_secret) {
         return new Response(
@@ -274,9 +292,72 @@ Deno.serve(async (req) => {
         );
       }
 
+      if (column_mapping !== undefined && !isValidColumnMapping(column_mapping)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid column_mapping' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (sheet_tabs !== undefined && !isValidSheetTabs(sheet_tabs)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid sheet_tabs' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (service_vocabulary !== undefined && !isValidServiceVocabulary(service_vocabulary)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid service_vocabulary' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (geocoder_config !== undefined && !isValidGeocoderConfig(geocoder_config)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid geocoder_config' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // null restores the default limits
+      if (search_settings !== undefined && search_settings !== null && !isValidSearchSettings(search_settings)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid search_settings' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (routing_config !== undefined && !isValidRoutingConfig(routing_config)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid routing_config' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const updates: Record<string, unknown> = { google_sheets_url };
+      if (column_mapping !== undefined) {
+        updates.column_mapping = column_mapping;
+      }
+      if (sheet_tabs !== undefined) {
+        updates.sheet_tabs = sheet_tabs;
+      }
+      if (service_vocabulary !== undefined) {
+        updates.service_vocabulary = service_vocabulary;
+      }
+      if (geocoder_config !== undefined) {
+        updates.geocoder_config = geocoder_config;
+      }
+      if (search_settings !== undefined) {
+        updates.search_settings = search_settings;
+      }
+      if (routing_config !== undefined) {
+        updates.routing_config = routing_config;
+      }
+
       const { error: updateError } = await supabase
         .from('empresas')
-        .update({ google_sheets_url })
+        .update(updates)
         .eq('id', empresa_id);
 
       if (updateError) {
@@ -0,0 +1,8 @@
+
+-- Per-empresa mapping of spreadsheet headers to provider fields
+-- Keys are LocationData fields (name, latitude, longitude, cep, address, number,
+-- neighborhood, city, state, status, services); values are the header names in the sheet
+ALTER TABLE public.empresas
+ADD COLUMN column_mapping jsonb;
+
+COMMENT ON COLUMN public.empresas.column_mapping IS 'Maps provider fields to spreadsheet headers. Fields left out fall back to the default header aliases.';
@@ -0,0 +1,81 @@
+
+-- Provider network imported server-side from each empresa's Google Sheet.
+-- calculate-routes reads candidates from here, so clients cannot tamper with providers.
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  empresa_id UUID NOT NULL REFERENCES public.empresas(id) ON DELETE CASCADE,
+  source_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  cep TEXT,
+  address TEXT,
+  number TEXT,
+  neighborhood TEXT,
+  city TEXT,
+  state TEXT,
+  services TEXT,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (empresa_id, source_key)
+);
+
+CREATE INDEX locations_empresa_lat_lon_idx ON public.locations (empresa_id, latitude, longitude);
+
+COMMENT ON COLUMN public.locations.source_key IS 'Identifies the source spreadsheet row (line number) so re-syncs replace rows deterministically.';
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deny all selects on locations"
+  ON public.locations FOR SELECT
+  USING (false);
+
+CREATE POLICY "Deny all inserts on locations"
+  ON public.locations FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all updates on locations"
+  ON public.locations FOR UPDATE
+  USING (false)
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all deletes on locations"
+  ON public.locations FOR DELETE
+  USING (false);
+
+ALTER TABLE public.empresas
+ADD COLUMN locations_synced_at TIMESTAMPTZ;
+
+-- Replaces an empresa's whole network in a single transaction,
+-- so routing never sees a half-imported sheet
+CREATE OR REPLACE FUNCTION public.replace_empresa_locations(p_empresa_id UUID, p_locations JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  DELETE FROM public.locations WHERE empresa_id = p_empresa_id;
+
+  INSERT INTO public.locations (
+    empresa_id, source_key, name, latitude, longitude,
+    cep, address, number, neighborhood, city, state, services
+  )
+  SELECT
+    p_empresa_id, loc.source_key, loc.name, loc.latitude, loc.longitude,
+    loc.cep, loc.address, loc.number, loc.neighborhood, loc.city, loc.state, loc.services
+  FROM jsonb_to_recordset(p_locations) AS loc(
+    source_key TEXT, name TEXT, latitude DOUBLE PRECISION, longitude DOUBLE PRECISION,
+    cep TEXT, address TEXT, number TEXT, neighborhood TEXT, city TEXT, state TEXT, services TEXT
+  );
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+
+  UPDATE public.empresas SET locations_synced_at = now() WHERE id = p_empresa_id;
+
+  RETURN inserted_count;
+END;
+$$;
+
+-- Only edge functions (service_role) may replace a network
+REVOKE EXECUTE ON FUNCTION public.replace_empresa_locations(UUID, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,34 @@
+-- Coordinates accepted by an admin for sheet rows that only have an address.
+-- Keyed by the normalized address so they survive row reordering in the sheet.
+CREATE TABLE public.location_geocodes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  empresa_id UUID NOT NULL REFERENCES public.empresas(id) ON DELETE CASCADE,
+  address_key TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  search_used TEXT NOT NULL,
+  accepted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (empresa_id, address_key)
+);
+
+COMMENT ON COLUMN public.location_geocodes.address_key IS 'Normalized address|number|neighborhood|city|state|cep, built the same way by the client and sync-locations.';
+COMMENT ON COLUMN public.location_geocodes.search_used IS 'Geocoding strategy that produced the coordinates (precision), e.g. "endereço completo" or "apenas cidade".';
+
+ALTER TABLE public.location_geocodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deny all selects on location_geocodes"
+  ON public.location_geocodes FOR SELECT
+  USING (false);
+
+CREATE POLICY "Deny all inserts on location_geocodes"
+  ON public.location_geocodes FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all updates on location_geocodes"
+  ON public.location_geocodes FOR UPDATE
+  USING (false)
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all deletes on location_geocodes"
+  ON public.location_geocodes FOR DELETE
+  USING (false);
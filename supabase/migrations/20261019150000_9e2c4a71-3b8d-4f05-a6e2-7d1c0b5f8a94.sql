@@ -0,0 +1,9 @@
+-- Workbook tabs (one provider network per tab) selected by the admin.
+-- NULL keeps the previous behaviour of reading only the first tab (gid 0).
+ALTER TABLE public.empresas
+ADD COLUMN sheet_tabs JSONB;
+
+COMMENT ON COLUMN public.empresas.sheet_tabs IS 'Array of {gid, name} tabs to import. NULL reads only the first tab.';
+
+-- Rows are now keyed by "<gid>:<line>"; the next sync rewrites the old line-only keys
+COMMENT ON COLUMN public.locations.source_key IS 'Identifies the source spreadsheet row as "<tab gid>:<line number>" so re-syncs replace rows deterministically.';
@@ -0,0 +1,6 @@
+-- Per-empresa services vocabulary used to parse the free-text services column.
+-- NULL uses the default vocabulary shipped with the app (src/lib/services.ts).
+ALTER TABLE public.empresas
+ADD COLUMN service_vocabulary JSONB;
+
+COMMENT ON COLUMN public.empresas.service_vocabulary IS 'Array of {id, label, synonyms[]} services. NULL uses the default vocabulary.';
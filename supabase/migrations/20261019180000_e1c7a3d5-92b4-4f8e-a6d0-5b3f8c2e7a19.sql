@@ -0,0 +1,41 @@
+
+-- Provider contacts as written in the sheet; clients normalize phone numbers for display
+ALTER TABLE public.locations
+ADD COLUMN phone TEXT,
+ADD COLUMN whatsapp TEXT,
+ADD COLUMN email TEXT;
+
+CREATE OR REPLACE FUNCTION public.replace_empresa_locations(p_empresa_id UUID, p_locations JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  DELETE FROM public.locations WHERE empresa_id = p_empresa_id;
+
+  INSERT INTO public.locations (
+    empresa_id, source_key, name, latitude, longitude,
+    cep, address, number, neighborhood, city, state, services, opening_hours,
+    phone, whatsapp, email
+  )
+  SELECT
+    p_empresa_id, loc.source_key, loc.name, loc.latitude, loc.longitude,
+    loc.cep, loc.address, loc.number, loc.neighborhood, loc.city, loc.state, loc.services, loc.opening_hours,
+    loc.phone, loc.whatsapp, loc.email
+  FROM jsonb_to_recordset(p_locations) AS loc(
+    source_key TEXT, name TEXT, latitude DOUBLE PRECISION, longitude DOUBLE PRECISION,
+    cep TEXT, address TEXT, number TEXT, neighborhood TEXT, city TEXT, state TEXT, services TEXT,
+    opening_hours TEXT, phone TEXT, whatsapp TEXT, email TEXT
+  );
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+
+  UPDATE public.empresas SET locations_synced_at = now() WHERE id = p_empresa_id;
+
+  RETURN inserted_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_empresa_locations(UUID, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,11 @@
+
+-- Geocoding backends per empresa: {"order": ["nominatim", "photon", "self-hosted"], "selfHostedUrl": "https://..."}
+-- NULL uses the public Nominatim instance only.
+ALTER TABLE public.empresas
+ADD COLUMN geocoder_config JSONB;
+
+COMMENT ON COLUMN public.empresas.geocoder_config IS 'Geocoder fallback order and optional self-hosted Nominatim URL. NULL uses the public Nominatim only.';
+
+-- Backend that produced each accepted geocode (GeocoderId in src/lib/geocoding.ts)
+ALTER TABLE public.location_geocodes
+ADD COLUMN provider TEXT;
@@ -0,0 +1,109 @@
+
+-- Geocoding results shared across users and sessions, read before any external geocoder call.
+-- Rows with empresa_id NULL are shared by every empresa (public geocoders);
+-- results from an empresa's self-hosted geocoder are scoped to that empresa.
+CREATE TABLE public.geocode_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  empresa_id UUID REFERENCES public.empresas(id) ON DELETE CASCADE,
+  address_key TEXT NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  search_used TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_hit_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE NULLS NOT DISTINCT (empresa_id, address_key)
+);
+
+CREATE INDEX geocode_cache_expires_at_idx ON public.geocode_cache (expires_at);
+
+COMMENT ON COLUMN public.geocode_cache.address_key IS 'Normalized address|number|neighborhood|city|state| key (buildAddressKey in src/lib/spreadsheet.ts).';
+COMMENT ON COLUMN public.geocode_cache.empresa_id IS 'NULL for entries shared by all empresas.';
+
+-- Lookup counters per empresa
+CREATE TABLE public.geocode_cache_stats (
+  empresa_id UUID PRIMARY KEY REFERENCES public.empresas(id) ON DELETE CASCADE,
+  hits BIGINT NOT NULL DEFAULT 0,
+  misses BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.geocode_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.geocode_cache_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deny all selects on geocode_cache"
+  ON public.geocode_cache FOR SELECT
+  USING (false);
+
+CREATE POLICY "Deny all inserts on geocode_cache"
+  ON public.geocode_cache FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all updates on geocode_cache"
+  ON public.geocode_cache FOR UPDATE
+  USING (false)
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all deletes on geocode_cache"
+  ON public.geocode_cache FOR DELETE
+  USING (false);
+
+CREATE POLICY "Deny all selects on geocode_cache_stats"
+  ON public.geocode_cache_stats FOR SELECT
+  USING (false);
+
+CREATE POLICY "Deny all inserts on geocode_cache_stats"
+  ON public.geocode_cache_stats FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all updates on geocode_cache_stats"
+  ON public.geocode_cache_stats FOR UPDATE
+  USING (false)
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all deletes on geocode_cache_stats"
+  ON public.geocode_cache_stats FOR DELETE
+  USING (false);
+
+-- Counts a lookup: p_cache_id is the entry that was hit, or NULL on a miss
+CREATE OR REPLACE FUNCTION public.record_geocode_cache_lookup(p_empresa_id UUID, p_cache_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF p_cache_id IS NOT NULL THEN
+    UPDATE public.geocode_cache
+    SET hit_count = hit_count + 1, last_hit_at = now()
+    WHERE id = p_cache_id;
+  END IF;
+
+  INSERT INTO public.geocode_cache_stats (empresa_id, hits, misses, updated_at)
+  VALUES (
+    p_empresa_id,
+    CASE WHEN p_cache_id IS NULL THEN 0 ELSE 1 END,
+    CASE WHEN p_cache_id IS NULL THEN 1 ELSE 0 END,
+    now()
+  )
+  ON CONFLICT (empresa_id) DO UPDATE
+  SET hits = geocode_cache_stats.hits + EXCLUDED.hits,
+      misses = geocode_cache_stats.misses + EXCLUDED.misses,
+      updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cleanup_expired_geocode_cache()
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  DELETE FROM public.geocode_cache WHERE expires_at < now();
+END;
+$$;
+
+-- Only edge functions (service_role) may touch the cache
+REVOKE EXECUTE ON FUNCTION public.record_geocode_cache_lookup(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cleanup_expired_geocode_cache() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,5 @@
+-- Typed geocoding precision (GeocodingPrecision in src/lib/geocoding.ts).
+-- Entries stored before this column existed keep NULL; clients derive it from search_used.
+ALTER TABLE public.geocode_cache
+  ADD COLUMN precision TEXT
+  CHECK (precision IN ('rooftop', 'street', 'neighborhood', 'cep', 'city'));
@@ -0,0 +1,79 @@
+-- Shared request budget per external geocoder. The geocode edge function takes a slot
+-- before every provider request, so all users together respect each provider's usage policy.
+CREATE TABLE public.geocoder_rate_buckets (
+  bucket_key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.geocoder_rate_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deny all selects on geocoder_rate_buckets"
+  ON public.geocoder_rate_buckets FOR SELECT
+  USING (false);
+
+CREATE POLICY "Deny all inserts on geocoder_rate_buckets"
+  ON public.geocoder_rate_buckets FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all updates on geocoder_rate_buckets"
+  ON public.geocoder_rate_buckets FOR UPDATE
+  USING (false)
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all deletes on geocoder_rate_buckets"
+  ON public.geocoder_rate_buckets FOR DELETE
+  USING (false);
+
+-- Token bucket: reserves the next request slot of p_key and returns how many milliseconds
+-- the caller must wait before sending it. Negative tokens are slots already reserved by
+-- queued callers. Returns NULL, reserving nothing, when the wait would exceed p_max_wait_ms.
+CREATE OR REPLACE FUNCTION public.acquire_rate_slot(
+  p_key TEXT,
+  p_rate_per_second DOUBLE PRECISION,
+  p_capacity DOUBLE PRECISION,
+  p_max_wait_ms INTEGER
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_tokens DOUBLE PRECISION;
+  v_updated_at TIMESTAMPTZ;
+  v_wait_ms INTEGER;
+BEGIN
+  INSERT INTO public.geocoder_rate_buckets (bucket_key, tokens, updated_at)
+  VALUES (p_key, p_capacity, clock_timestamp())
+  ON CONFLICT (bucket_key) DO NOTHING;
+
+  -- Row lock serializes concurrent callers of the same bucket
+  SELECT tokens, updated_at INTO v_tokens, v_updated_at
+  FROM public.geocoder_rate_buckets
+  WHERE bucket_key = p_key
+  FOR UPDATE;
+
+  v_tokens := LEAST(
+    p_capacity,
+    v_tokens + EXTRACT(EPOCH FROM (clock_timestamp() - v_updated_at)) * p_rate_per_second
+  );
+
+  v_wait_ms := CASE
+    WHEN v_tokens >= 1 THEN 0
+    ELSE CEIL((1 - v_tokens) / p_rate_per_second * 1000)
+  END;
+
+  IF v_wait_ms > p_max_wait_ms THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.geocoder_rate_buckets
+  SET tokens = v_tokens - 1, updated_at = clock_timestamp()
+  WHERE bucket_key = p_key;
+
+  RETURN v_wait_ms;
+END;
+$$;
+
+-- Only edge functions (service_role) may reserve slots
+REVOKE EXECUTE ON FUNCTION public.acquire_rate_slot(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,7 @@
+
+-- Provider search limits per empresa: {"radiusKm": 60, "maxCandidates": 20, "minResults": 3}
+-- NULL uses the defaults (SearchSettings in src/lib/searchSettings.ts).
+ALTER TABLE public.empresas
+ADD COLUMN search_settings JSONB;
+
+COMMENT ON COLUMN public.empresas.search_settings IS 'Prefilter radius (km), routed candidates per search and minimum results before the radius is widened. NULL uses the defaults.';
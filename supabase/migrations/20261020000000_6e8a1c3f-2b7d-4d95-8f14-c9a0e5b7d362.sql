@@ -0,0 +1,51 @@
+
+-- Routed distances shared across users and empresas, read by calculate-routes before
+-- calling OpenRouteService/OSRM. Origins are rounded to ~100 m so repeated searches
+-- from the same address (or CEP) reuse the same entries.
+CREATE TABLE public.route_cache (
+  route_key TEXT NOT NULL,
+  source TEXT NOT NULL,
+  travel_mode TEXT NOT NULL,
+  distance_meters DOUBLE PRECISION NOT NULL,
+  duration_seconds DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (route_key, source)
+);
+
+CREATE INDEX route_cache_expires_at_idx ON public.route_cache (expires_at);
+
+COMMENT ON COLUMN public.route_cache.route_key IS 'travel_mode|rounded origin lat,lon|destination lat,lon (buildRouteKey in calculate-routes).';
+COMMENT ON COLUMN public.route_cache.source IS 'Routing service that calculated the route: ors or osrm.';
+
+ALTER TABLE public.route_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deny all selects on route_cache"
+  ON public.route_cache FOR SELECT
+  USING (false);
+
+CREATE POLICY "Deny all inserts on route_cache"
+  ON public.route_cache FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all updates on route_cache"
+  ON public.route_cache FOR UPDATE
+  USING (false)
+  WITH CHECK (false);
+
+CREATE POLICY "Deny all deletes on route_cache"
+  ON public.route_cache FOR DELETE
+  USING (false);
+
+CREATE OR REPLACE FUNCTION public.cleanup_expired_route_cache()
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+BEGIN
+  DELETE FROM public.route_cache WHERE expires_at < now();
+END;
+$$;
+
+-- Only edge functions (service_role) may touch the cache
+REVOKE EXECUTE ON FUNCTION public.cleanup_expired_route_cache() FROM PUBLIC, anon, authenticated;
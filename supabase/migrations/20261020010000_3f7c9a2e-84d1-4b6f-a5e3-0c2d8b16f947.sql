@@ -0,0 +1,8 @@
+
+-- Routing service order per empresa: {"order": ["osrm", "valhalla"]}
+-- NULL uses the environment's ROUTING_PROVIDERS, else OpenRouteService then OSRM.
+-- Server URLs and keys are edge function secrets, never stored here.
+ALTER TABLE public.empresas
+ADD COLUMN routing_config JSONB;
+
+COMMENT ON COLUMN public.empresas.routing_config IS 'Routing services (ors, osrm, valhalla) tried in order by calculate-routes. NULL uses the environment default.';
@@ -0,0 +1,7 @@
+-- The cache is written only by the geocode edge function, from its own provider calls.
+-- Entries stored by browsers through the former geocode-cache "store" action cannot be told
+-- apart from those, so the cache starts over; the geocode function refills it on demand.
+DELETE FROM public.geocode_cache;
+
+COMMENT ON TABLE public.geocode_cache IS 'Written only by the geocode edge function (service_role) from server-side geocoding results.';
+COMMENT ON COLUMN public.geocode_cache.address_key IS 'Normalized address|number|neighborhood|city|state|cep key (buildAddressKey in supabase/functions/_shared/addressKey.ts).';
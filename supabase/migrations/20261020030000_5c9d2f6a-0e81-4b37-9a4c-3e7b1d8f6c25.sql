@@ -0,0 +1,47 @@
+-- Workbook tab (network) of each location, so searches can be limited to a network server-side.
+-- source_key is "<gid>:<line>", which fills the column for locations synced before it existed.
+ALTER TABLE public.locations
+ADD COLUMN gid TEXT;
+
+UPDATE public.locations
+SET gid = split_part(source_key, ':', 1)
+WHERE position(':' IN source_key) > 0;
+
+CREATE INDEX locations_empresa_gid_idx ON public.locations (empresa_id, gid);
+
+COMMENT ON COLUMN public.locations.gid IS 'Google Sheets tab (gid) the location was synced from.';
+
+CREATE OR REPLACE FUNCTION public.replace_empresa_locations(p_empresa_id UUID, p_locations JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  inserted_count INTEGER;
+BEGIN
+  DELETE FROM public.locations WHERE empresa_id = p_empresa_id;
+
+  INSERT INTO public.locations (
+    empresa_id, source_key, gid, name, latitude, longitude,
+    cep, address, number, neighborhood, city, state, services, opening_hours,
+    phone, whatsapp, email
+  )
+  SELECT
+    p_empresa_id, loc.source_key, loc.gid, loc.name, loc.latitude, loc.longitude,
+    loc.cep, loc.address, loc.number, loc.neighborhood, loc.city, loc.state, loc.services, loc.opening_hours,
+    loc.phone, loc.whatsapp, loc.email
+  FROM jsonb_to_recordset(p_locations) AS loc(
+    source_key TEXT, gid TEXT, name TEXT, latitude DOUBLE PRECISION, longitude DOUBLE PRECISION,
+    cep TEXT, address TEXT, number TEXT, neighborhood TEXT, city TEXT, state TEXT, services TEXT,
+    opening_hours TEXT, phone TEXT, whatsapp TEXT, email TEXT
+  );
+
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+
+  UPDATE public.empresas SET locations_synced_at = now() WHERE id = p_empresa_id;
+
+  RETURN inserted_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_empresa_locations(UUID, JSONB) FROM PUBLIC, anon, authenticated;
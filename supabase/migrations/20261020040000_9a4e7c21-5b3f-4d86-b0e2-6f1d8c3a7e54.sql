@@ -0,0 +1,7 @@
+-- Cached routes now record the server that calculated them (e.g. osrm@https://router.project-osrm.org),
+-- so results from a public demo server are not reused after switching to a self-hosted one.
+-- Entries stored with the bare service id cannot be attributed to a server and are dropped;
+-- calculate-routes refills the cache on demand.
+DELETE FROM public.route_cache WHERE source NOT LIKE '%@%';
+
+COMMENT ON COLUMN public.route_cache.source IS 'Routing service and server that calculated the route: <ors|osrm|valhalla>@<base URL> (routeCacheSource in calculate-routes).';